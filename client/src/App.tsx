@@ -5,6 +5,7 @@ import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import PaymentPortal from "@/pages/payment-portal";
 import PaymentSuccess from "@/pages/payment-success";
+import PlanStatus from "@/pages/plan-status";
 import NotFound from "@/pages/not-found";
 
 function Router() {
@@ -12,6 +13,7 @@ function Router() {
     <Switch>
       <Route path="/" component={PaymentPortal} />
       <Route path="/payment-success" component={PaymentSuccess} />
+      <Route path="/plans/:planId" component={PlanStatus} />
       <Route component={NotFound} />
     </Switch>
   );
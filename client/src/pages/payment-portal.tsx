@@ -1,33 +1,157 @@
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import { useQuery } from "@tanstack/react-query";
+import { loadStripe } from "@stripe/stripe-js";
+import { EmbeddedCheckout, EmbeddedCheckoutProvider } from "@stripe/react-stripe-js";
 import { Car, Lock, CreditCard, CheckCircle, ArrowRight, Phone } from "lucide-react";
+import { addDays, format } from "date-fns";
+import {
+  billingIntervalLabels,
+  defaultPlanRules,
+  paymentMethodLabels,
+  MAX_COLLECTION_DAY,
+  PAYMENT_METHODS,
+  getAllowedInstallmentCounts,
+  getFirstPaymentDate,
+  getFirstPaymentDateError,
+  getInstallmentAmounts,
+  getInstallmentDueDates,
+  type BillingInterval,
+  type PaymentMethod,
+  type PaymentType,
+  type PlanRules,
+} from "@shared/payment-plans";
+import { formatPence } from "@shared/installments";
+import { getAmountToCharge } from "@shared/pcn-charges";
+import type { PcnSummary } from "@shared/schema";
 
+// Needed for the embedded payment step; without it the server redirects to
+// the gateway's hosted checkout instead
+const stripePromise = import.meta.env.VITE_STRIPE_PUBLIC_KEY
+  ? loadStripe(import.meta.env.VITE_STRIPE_PUBLIC_KEY)
+  : null;
 
+// e.g. "3 days 4 hours" or "25 minutes"
+function formatTimeLeft(ms: number): string {
+  const minutes = Math.max(0, Math.floor(ms / 60000));
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  const plural = (count: number, unit: string) => `${count} ${unit}${count === 1 ? '' : 's'}`;
+  if (days > 0) return `${plural(days, 'day')} ${plural(hours, 'hour')}`;
+  if (hours > 0) return `${plural(hours, 'hour')} ${plural(minutes % 60, 'minute')}`;
+  return plural(minutes % 60, 'minute');
+}
 
 export default function PaymentPortal() {
   const [formData, setFormData] = useState({
     pcnNumber: 'PCN123456789',
     vehicleRegistration: 'AB12CDE',
     email: 'pcn@payment.com',
-    penaltyAmount: 90
+    installmentCount: 3,
+    interval: 'month' as BillingInterval,
+    paymentType: 'installments' as PaymentType,
+    paymentMethod: 'card' as PaymentMethod,
+    // Empty for a first payment today
+    firstPaymentDate: '',
+    // "first" keeps monthly payments on the first payment's day
+    collectionDay: 'first'
   });
   const [isLoading, setIsLoading] = useState(false);
   const [acceptedTerms, setAcceptedTerms] = useState(false);
+  // One idempotency key per payment attempt, reused by double clicks and retries
+  const checkoutAttempt = useRef<{ request: string; key: string } | null>(null);
+  // Set while the embedded payment step is showing
+  const [embeddedClientSecret, setEmbeddedClientSecret] = useState<string | null>(null);
   const { toast } = useToast();
+  const { data: planRules = defaultPlanRules } = useQuery<PlanRules>({ queryKey: ['/api/plan-rules'] });
+
+  // The amount owed comes from the PCN registry on the server
+  const pcnNumber = formData.pcnNumber.trim();
+  const { data: pcn, error: pcnError, isFetching: isLookingUpPcn } = useQuery<PcnSummary>({
+    queryKey: ['/api/pcns', encodeURIComponent(pcnNumber), formData.vehicleRegistration],
+    enabled: pcnNumber.length > 0 && formData.vehicleRegistration.length >= 2,
+  });
+
+  // Tick once a minute so the discount countdown stays current
+  const [now, setNow] = useState(() => new Date());
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 60 * 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // The server works out the early-payment discount; it lapses here at the
+  // same moment it does there
+  const discountEndsAt = pcn?.discountEndsAt ? new Date(pcn.discountEndsAt) : null;
+  const discountActive = discountEndsAt !== null && now < discountEndsAt;
+  const charges = {
+    fullAmount: pcn?.amountDue ?? 0,
+    discountedAmount: discountActive ? pcn!.discountedAmount : null,
+  };
+  const fullPaymentAmount = getAmountToCharge(charges, 'full', planRules);
+  const planAmount = getAmountToCharge(charges, 'installments', planRules);
+
+  // Fall back to the longest allowed plan when the amount or frequency rules
+  // out the driver's current choice, to the other kind of plan when none of
+  // the chosen kind fits, and to paying in full when no plan fits
+  // Some escalation stages (e.g. Charge Certificate) must be paid in full
+  const plansAllowed = pcn?.plansAllowed ?? true;
+  const allowedCounts = getAllowedInstallmentCounts(planAmount, formData.interval, planRules)
+    .filter((count) => count > 1 && plansAllowed);
+  const depositCounts = getAllowedInstallmentCounts(planAmount, formData.interval, planRules, 'deposit')
+    .filter(() => plansAllowed);
+  const countsFor = (type: PaymentType) => (type === 'deposit' ? depositCounts : allowedCounts);
+  const paymentType: PaymentType = formData.paymentType === 'full'
+    ? 'full'
+    : countsFor(formData.paymentType).length > 0
+      ? formData.paymentType
+      : allowedCounts.length > 0 ? 'installments' : depositCounts.length > 0 ? 'deposit' : 'full';
+  const isFullPayment = paymentType === 'full';
+  const isDeposit = paymentType === 'deposit';
+  // Direct Debit is only offered for plans
+  const paymentMethod: PaymentMethod = isFullPayment ? 'card' : formData.paymentMethod;
+  const totalAmount = isFullPayment ? fullPaymentAmount : planAmount;
+  // What a plan option looks like before the driver picks it
+  const previewCount = (counts: number[]) => counts.includes(formData.installmentCount)
+    ? formData.installmentCount
+    : counts[counts.length - 1];
+  const planCounts = countsFor(paymentType);
+  const installmentCount = isFullPayment ? 1 : previewCount(planCounts);
+  const intervalLabel = billingIntervalLabels[formData.interval];
+  const installmentAmounts = getInstallmentAmounts(totalAmount, paymentType, installmentCount, planRules);
+  // The payments after a deposit, which are split like any other plan
+  const balanceAmounts = isDeposit ? installmentAmounts.slice(1) : installmentAmounts;
+  // The amount every installment but the one carrying the penny remainder
+  const regularAmount = planRules.remainderOn === 'first'
+    ? balanceAmounts[balanceAmounts.length - 1]
+    : balanceAmounts[0];
+  const amountsDiffer = balanceAmounts.some((amount) => amount !== regularAmount);
+  // The same dates the server gives the ledger and the gateway's schedule.
+  // Deposits are always taken today.
+  const startChoice = paymentType !== 'installments' ? {} : {
+    firstPaymentDate: formData.firstPaymentDate || undefined,
+    collectionDay: formData.interval === 'month' && formData.collectionDay !== 'first'
+      ? parseInt(formData.collectionDay, 10)
+      : undefined,
+  };
+  const firstPaymentDate = getFirstPaymentDate(now, startChoice);
+  const startsLater = firstPaymentDate > now;
+  const startError = getFirstPaymentDateError(now, firstPaymentDate, formData.interval, planRules);
+  const canStartLater = paymentType === 'installments' && planRules.maxFirstPaymentDelayDays > 0;
+  const paymentDates = getInstallmentDueDates(firstPaymentDate, installmentCount, formData.interval)
+    .map((date) => date.toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' }));
 
   const handleInputChange = (field: string, value: string) => {
     setFormData(prev => ({
       ...prev,
       [field]: field === 'vehicleRegistration' 
         ? value.toUpperCase().replace(/[^A-Z0-9]/g, '') 
-        : field === 'penaltyAmount' 
-        ? parseFloat(value) || 0
         : value
     }));
   };
@@ -35,7 +159,7 @@ export default function PaymentPortal() {
   const handleFormSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!formData.pcnNumber || !formData.vehicleRegistration || !formData.email || !formData.penaltyAmount || formData.penaltyAmount <= 0) {
+    if (!formData.pcnNumber || !formData.vehicleRegistration || !formData.email) {
       toast({
         title: "Validation Error",
         description: "Please fill in all required fields with valid values",
@@ -44,6 +168,24 @@ export default function PaymentPortal() {
       return;
     }
 
+    if (!pcn) {
+      toast({
+        title: "PCN Not Found",
+        description: "Please check your PCN number and vehicle registration",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (startError) {
+      toast({
+        title: "Check Your Payment Dates",
+        description: startError,
+        variant: "destructive",
+      });
+      return;
+    }
+
     if (!acceptedTerms) {
       toast({
         title: "Terms Required",
@@ -58,11 +200,26 @@ export default function PaymentPortal() {
     try {
       console.log('Submitting form data:', formData);
       
-      const response = await apiRequest('POST', '/api/create-checkout-session', {
+      const checkoutRequest = {
         pcnNumber: formData.pcnNumber,
         vehicleRegistration: formData.vehicleRegistration,
         email: formData.email,
-        penaltyAmount: formData.penaltyAmount
+        installmentCount,
+        interval: formData.interval,
+        paymentType,
+        paymentMethod,
+        ...startChoice,
+        expectedAmount: totalAmount
+      };
+      const requestSignature = JSON.stringify(checkoutRequest);
+      if (checkoutAttempt.current?.request !== requestSignature) {
+        checkoutAttempt.current = { request: requestSignature, key: crypto.randomUUID() };
+      }
+
+      const response = await apiRequest('POST', '/api/create-checkout-session', {
+        ...checkoutRequest,
+        idempotencyKey: checkoutAttempt.current.key,
+        acceptedTerms
       });
 
       if (!response.ok) {
@@ -72,19 +229,27 @@ export default function PaymentPortal() {
       const data = await response.json();
       console.log('Checkout response:', data);
       
-      if (data.url) {
-        // Redirect to Stripe Checkout
+      if (data.clientSecret && stripePromise) {
+        // Show the payment step in place of the form
+        setEmbeddedClientSecret(data.clientSecret);
+      } else if (data.url) {
+        // Redirect to hosted checkout
         console.log('Redirecting to:', data.url);
         
         // Use window.location.assign for better compatibility
         setTimeout(() => {
           window.location.assign(data.url);
         }, 100);
+      } else if (data.clientSecret) {
+        // The server only embeds the checkout when the publishable key is set
+        throw new Error('Card payments are not configured. Please contact support.');
       } else {
         console.error('No URL in response:', data);
         throw new Error('Failed to create checkout session - no URL returned');
       }
     } catch (error: any) {
+      // The next click starts a fresh attempt
+      checkoutAttempt.current = null;
       toast({
         title: "Error",
         description: error.message || "Failed to set up payment. Please try again.",
@@ -95,32 +260,6 @@ export default function PaymentPortal() {
     }
   };
 
-  const getNextPaymentDates = () => {
-    const today = new Date();
-    const currentDay = today.getDate();
-    
-    // For month 2: same day next month, or next day if same day doesn't exist
-    const payment2 = new Date(today.getFullYear(), today.getMonth() + 1, currentDay);
-    if (payment2.getDate() !== currentDay) {
-      // If the day doesn't exist in next month (e.g., Feb 31st), use next day
-      payment2.setDate(currentDay + 1);
-    }
-    
-    // For month 3: same day in month after that, or next day if same day doesn't exist  
-    const payment3 = new Date(today.getFullYear(), today.getMonth() + 2, currentDay);
-    if (payment3.getDate() !== currentDay) {
-      // If the day doesn't exist in that month, use next day
-      payment3.setDate(currentDay + 1);
-    }
-    
-    return {
-      payment2: payment2.toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' }),
-      payment3: payment3.toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' })
-    };
-  };
-
-  const { payment2, payment3 } = getNextPaymentDates();
-
   return (
     <div className="min-h-screen bg-neutral-50">
       {/* Header */}
@@ -151,6 +290,27 @@ export default function PaymentPortal() {
           <div className="lg:col-span-2">
             <Card className="p-6">
               <CardContent className="p-0">
+                {embeddedClientSecret && stripePromise ? (
+                  <div>
+                    <div className="mb-6 flex items-start justify-between">
+                      <div>
+                        <h2 className="text-2xl font-semibold text-neutral-800 mb-2">Payment</h2>
+                        <p className="text-neutral-500">Pay securely by card, Apple Pay or Google Pay.</p>
+                      </div>
+                      <Button variant="outline" onClick={() => setEmbeddedClientSecret(null)}>
+                        Change details
+                      </Button>
+                    </div>
+                    <EmbeddedCheckoutProvider
+                      key={embeddedClientSecret}
+                      stripe={stripePromise}
+                      options={{ clientSecret: embeddedClientSecret }}
+                    >
+                      <EmbeddedCheckout />
+                    </EmbeddedCheckoutProvider>
+                  </div>
+                ) : (
+                <>
                 <div className="mb-6">
                   <h2 className="text-2xl font-semibold text-neutral-800 mb-2">
                     Vehicle and Contact Information
@@ -220,28 +380,215 @@ export default function PaymentPortal() {
                     </div>
 
                     <div>
-                      <Label htmlFor="penalty-amount" className="text-sm font-medium text-neutral-700 mb-2 block">
-                        Penalty Amount (£) *
+                      <Label className="text-sm font-medium text-neutral-700 mb-2 block">
+                        Amount Due
                       </Label>
-                      <div className="relative">
-                        <Input
-                          id="penalty-amount"
-                          type="number"
-                          placeholder="90"
-                          value={formData.penaltyAmount}
-                          onChange={(e) => handleInputChange('penaltyAmount', e.target.value)}
-                          className="pl-8"
-                          min="1"
-                          step="0.01"
-                          required
-                        />
-                        <div className="absolute inset-y-0 left-3 flex items-center pointer-events-none">
-                          <span className="text-neutral-500 text-sm">£</span>
-                        </div>
+                      <div className="rounded-md border border-gray-200 bg-neutral-50 px-3 py-2 text-sm">
+                        {isLookingUpPcn ? (
+                          <span className="text-neutral-500">Looking up your PCN...</span>
+                        ) : pcn && discountActive ? (
+                          <span>
+                            <span className="font-semibold text-green-700">{formatPence(pcn.discountedAmount!)}</span>
+                            <span className="ml-2 text-neutral-500 line-through">{formatPence(pcn.amountDue)}</span>
+                          </span>
+                        ) : pcn ? (
+                          <span className="font-semibold text-neutral-800">{formatPence(pcn.amountDue)}</span>
+                        ) : (
+                          <span className="text-neutral-500">
+                            {pcnError ? "We couldn't find a payable PCN matching these details" : "Enter your PCN number and vehicle registration"}
+                          </span>
+                        )}
+                      </div>
+                      {pcn && (
+                        <p className="mt-1 text-xs text-neutral-500">Stage: {pcn.stageLabel}</p>
+                      )}
+                      {pcn && pcn.amountPaid > 0 && (
+                        <p className="mt-1 text-xs text-neutral-500">After {formatPence(pcn.amountPaid)} already paid on an earlier plan</p>
+                      )}
+                      {pcn?.nextEscalationAt && pcn.nextAmount !== null && pcn.nextAmount > pcn.amountDue && (
+                        <p className="mt-1 text-xs text-amber-700">
+                          The amount due rises to {formatPence(pcn.nextAmount)} on {new Date(pcn.nextEscalationAt).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' })}.
+                        </p>
+                      )}
+                      {pcn && discountActive ? (
+                        <p className="mt-1 text-xs text-green-700">
+                          Reduced rate if paid {planRules.discountOnInstallments ? '' : 'in full '}within the next {formatTimeLeft(discountEndsAt!.getTime() - now.getTime())} (until {discountEndsAt!.toLocaleString('en-GB', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })})
+                        </p>
+                      ) : (
+                        <p className="mt-1 text-xs text-neutral-500">The amount owed on your PCN, paid today or split across your chosen payments</p>
+                      )}
+                    </div>
+
+                    <div>
+                      <Label className="text-sm font-medium text-neutral-700 mb-2 block">
+                        How would you like to pay? *
+                      </Label>
+                      <div className={`grid gap-4 ${planRules.depositPercent > 0 && !planRules.depositRequired ? 'sm:grid-cols-3' : 'sm:grid-cols-2'}`}>
+                        <button
+                          type="button"
+                          onClick={() => setFormData(prev => ({ ...prev, paymentType: 'full' }))}
+                          className={`rounded-lg border p-4 text-left ${isFullPayment ? 'border-blue-600 bg-blue-50' : 'border-gray-200'}`}
+                        >
+                          <span className="block font-medium text-neutral-800">Pay in full</span>
+                          <span className="block text-sm text-neutral-600">
+                            {formatPence(fullPaymentAmount)} today
+                            {fullPaymentAmount < charges.fullAmount && <> (save {formatPence(charges.fullAmount - fullPaymentAmount)})</>}
+                          </span>
+                        </button>
+                        {!planRules.depositRequired && (
+                        <button
+                          type="button"
+                          onClick={() => setFormData(prev => ({ ...prev, paymentType: 'installments' }))}
+                          disabled={allowedCounts.length === 0}
+                          className={`rounded-lg border p-4 text-left disabled:opacity-50 ${paymentType === 'installments' ? 'border-blue-600 bg-blue-50' : 'border-gray-200'}`}
+                        >
+                          <span className="block font-medium text-neutral-800">Pay in installments</span>
+                          <span className="block text-sm text-neutral-600">
+                            {allowedCounts.length > 0
+                              ? <>{previewCount(allowedCounts)} {intervalLabel.adjective} payments, total {formatPence(planAmount)}</>
+                              : plansAllowed
+                                ? <>Not available for this amount</>
+                                : <>Not available at the {pcn?.stageLabel} stage</>}
+                          </span>
+                        </button>
+                        )}
+                        {planRules.depositPercent > 0 && (
+                        <button
+                          type="button"
+                          onClick={() => setFormData(prev => ({ ...prev, paymentType: 'deposit' }))}
+                          disabled={depositCounts.length === 0}
+                          className={`rounded-lg border p-4 text-left disabled:opacity-50 ${isDeposit ? 'border-blue-600 bg-blue-50' : 'border-gray-200'}`}
+                        >
+                          <span className="block font-medium text-neutral-800">Pay a deposit</span>
+                          <span className="block text-sm text-neutral-600">
+                            {depositCounts.length > 0
+                              ? <>{planRules.depositPercent}% today, then {previewCount(depositCounts) - 1} {intervalLabel.adjective} payments, total {formatPence(planAmount)}</>
+                              : plansAllowed
+                                ? <>Not available for this amount</>
+                                : <>Not available at the {pcn?.stageLabel} stage</>}
+                          </span>
+                        </button>
+                        )}
                       </div>
-                      <p className="mt-1 text-xs text-neutral-500">Total penalty amount to be split across 3 monthly payments</p>
                     </div>
 
+                    {!isFullPayment && (
+                    <div className="grid sm:grid-cols-2 gap-4">
+                      <div>
+                        <Label htmlFor="installment-count" className="text-sm font-medium text-neutral-700 mb-2 block">
+                          Number of Payments *
+                        </Label>
+                        <Select
+                          value={installmentCount.toString()}
+                          onValueChange={(value) => setFormData(prev => ({ ...prev, installmentCount: parseInt(value, 10) }))}
+                        >
+                          <SelectTrigger id="installment-count">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {planCounts.map((count) => (
+                              <SelectItem key={count} value={count.toString()}>
+                                {isDeposit ? `Deposit + ${count - 1} payments` : `${count} payments`}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+
+                      <div>
+                        <Label htmlFor="interval" className="text-sm font-medium text-neutral-700 mb-2 block">
+                          Payment Frequency *
+                        </Label>
+                        <Select
+                          value={formData.interval}
+                          onValueChange={(value) => setFormData(prev => ({ ...prev, interval: value as BillingInterval }))}
+                        >
+                          <SelectTrigger id="interval">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {planRules.intervals.map((interval) => (
+                              <SelectItem key={interval} value={interval} className="capitalize">
+                                {billingIntervalLabels[interval].adjective}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+
+                      <div className="sm:col-span-2">
+                        <Label htmlFor="payment-method" className="text-sm font-medium text-neutral-700 mb-2 block">
+                          Pay By *
+                        </Label>
+                        <Select
+                          value={formData.paymentMethod}
+                          onValueChange={(value) => setFormData(prev => ({ ...prev, paymentMethod: value as PaymentMethod }))}
+                        >
+                          <SelectTrigger id="payment-method">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {PAYMENT_METHODS.map((method) => (
+                              <SelectItem key={method} value={method}>
+                                {paymentMethodLabels[method]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        {paymentMethod === 'bacs_debit' && (
+                          <p className="mt-1 text-xs text-neutral-500">
+                            You'll confirm a Direct Debit mandate at checkout. Each payment takes about 3 working days to clear.
+                          </p>
+                        )}
+                      </div>
+
+                      {canStartLater && (
+                        <div>
+                          <Label htmlFor="first-payment-date" className="text-sm font-medium text-neutral-700 mb-2 block">
+                            First Payment
+                          </Label>
+                          <Input
+                            id="first-payment-date"
+                            type="date"
+                            value={formData.firstPaymentDate}
+                            min={format(now, 'yyyy-MM-dd')}
+                            max={format(addDays(now, planRules.maxFirstPaymentDelayDays), 'yyyy-MM-dd')}
+                            onChange={(e) => setFormData(prev => ({ ...prev, firstPaymentDate: e.target.value }))}
+                          />
+                          <p className="mt-1 text-xs text-neutral-500">Leave blank to make the first payment today</p>
+                        </div>
+                      )}
+
+                      {canStartLater && formData.interval === 'month' && (
+                        <div>
+                          <Label htmlFor="collection-day" className="text-sm font-medium text-neutral-700 mb-2 block">
+                            Collection Day
+                          </Label>
+                          <Select
+                            value={formData.collectionDay}
+                            onValueChange={(value) => setFormData(prev => ({ ...prev, collectionDay: value }))}
+                          >
+                            <SelectTrigger id="collection-day">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="first">Same day as the first payment</SelectItem>
+                              {Array.from({ length: MAX_COLLECTION_DAY }, (_, i) => i + 1).map((day) => (
+                                <SelectItem key={day} value={day.toString()}>
+                                  Day {day} of the month
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      )}
+
+                      {canStartLater && startError && (
+                        <p className="sm:col-span-2 text-sm text-red-600">{startError}</p>
+                      )}
+                    </div>
+                    )}
+
                     <div className="flex items-start space-x-3 mb-6">
                       <Checkbox 
                         id="terms" 
@@ -249,13 +596,17 @@ export default function PaymentPortal() {
                         onCheckedChange={(checked) => setAcceptedTerms(checked === true)}
                       />
                       <Label htmlFor="terms" className="text-sm text-neutral-600 leading-5">
-                        I agree to the Terms and Conditions and authorise recurring payments of £{(formData.penaltyAmount / 3).toFixed(2)} per month for 3 months (total £{formData.penaltyAmount.toFixed(2)}) starting today.
+                        {installmentCount === 1
+                          ? <>I agree to the Terms and Conditions and authorise a single payment of {formatPence(totalAmount)} today.</>
+                          : isDeposit
+                          ? <>I agree to the Terms and Conditions and authorise a deposit of {formatPence(installmentAmounts[0])} today followed by {installmentCount - 1} {intervalLabel.adjective} payments of {formatPence(regularAmount)}{amountsDiffer && <> ({planRules.remainderOn} payment {formatPence(balanceAmounts[planRules.remainderOn === 'first' ? 0 : balanceAmounts.length - 1])})</>} (total {formatPence(totalAmount)}){paymentMethod === 'bacs_debit' ? ' by Direct Debit' : ''}.</>
+                          : <>I agree to the Terms and Conditions and authorise {installmentCount} {intervalLabel.adjective} payments of {formatPence(regularAmount)}{amountsDiffer && <> ({planRules.remainderOn} payment {formatPence(totalAmount - regularAmount * (installmentCount - 1))})</>} (total {formatPence(totalAmount)}) {paymentMethod === 'bacs_debit' ? 'by Direct Debit, ' : ''}starting {startsLater ? `on ${paymentDates[0]}` : 'today'}.</>}
                       </Label>
                     </div>
 
                     <Button 
                       type="submit" 
-                      disabled={isLoading}
+                      disabled={isLoading || !pcn}
                       className="w-full bg-blue-600 hover:bg-blue-700 text-white py-4 font-medium"
                     >
                       {isLoading ? (
@@ -266,12 +617,14 @@ export default function PaymentPortal() {
                       ) : (
                         <div className="flex items-center justify-center space-x-2">
                           <Lock className="w-5 h-5" />
-                          <span>Pay</span>
+                          <span>{startsLater ? 'Set Up Plan' : 'Pay'}</span>
                           <ArrowRight className="w-5 h-5" />
                         </div>
                       )}
                     </Button>
                   </form>
+                </>
+                )}
               </CardContent>
             </Card>
           </div>
@@ -284,38 +637,40 @@ export default function PaymentPortal() {
                 
                 <div className="space-y-4 mb-6">
                   <div className="flex justify-between items-center pb-3 border-b border-gray-200">
-                    <span className="text-neutral-600">Monthly Payment</span>
-                    <span className="font-semibold text-neutral-800">£{(formData.penaltyAmount / 3).toFixed(2)}</span>
+                    <span className="text-neutral-600 capitalize">{isFullPayment ? 'Full Payment' : `${intervalLabel.adjective} Payment`}</span>
+                    <span className="font-semibold text-neutral-800">{formatPence(regularAmount)}</span>
                   </div>
+                  {isDeposit && (
+                    <div className="flex justify-between items-center pb-3 border-b border-gray-200">
+                      <span className="text-neutral-600">Deposit ({planRules.depositPercent}%)</span>
+                      <span className="font-semibold text-neutral-800">{formatPence(installmentAmounts[0])}</span>
+                    </div>
+                  )}
                   <div className="flex justify-between items-center pb-3 border-b border-gray-200">
-                    <span className="text-neutral-600">Duration</span>
-                    <span className="font-semibold text-neutral-800">3 months</span>
+                    <span className="text-neutral-600">Number of Payments</span>
+                    <span className="font-semibold text-neutral-800">{installmentCount}</span>
                   </div>
                   <div className="flex justify-between items-center pb-3 border-b border-gray-200">
                     <span className="text-neutral-600">Total Amount</span>
-                    <span className="font-semibold text-neutral-800">£{formData.penaltyAmount.toFixed(2)}</span>
+                    <span className="font-semibold text-neutral-800">{formatPence(totalAmount)}</span>
                   </div>
                   <div className="flex justify-between items-center text-lg font-semibold text-neutral-800">
-                    <span>First Payment Today</span>
-                    <span className="text-blue-600">£{(formData.penaltyAmount / 3).toFixed(2)}</span>
+                    <span>{isDeposit ? 'Deposit Today' : startsLater ? `First Payment on ${paymentDates[0]}` : 'First Payment Today'}</span>
+                    <span className="text-blue-600">{formatPence(installmentAmounts[0])}</span>
                   </div>
                 </div>
 
                 <div className="bg-neutral-50 rounded-lg p-4 mb-6">
                   <h4 className="font-medium text-neutral-800 mb-3">Payment Schedule</h4>
                   <div className="space-y-2 text-sm">
-                    <div className="flex justify-between">
-                      <span className="text-neutral-600">Payment 1 (Today)</span>
-                      <span className="font-medium">£{(formData.penaltyAmount / 3).toFixed(2)}</span>
-                    </div>
-                    <div className="flex justify-between">
-                      <span className="text-neutral-600">Payment 2 ({payment2})</span>
-                      <span className="font-medium">£{(formData.penaltyAmount / 3).toFixed(2)}</span>
-                    </div>
-                    <div className="flex justify-between">
-                      <span className="text-neutral-600">Payment 3 ({payment3})</span>
-                      <span className="font-medium">£{(formData.penaltyAmount / 3).toFixed(2)}</span>
-                    </div>
+                    {paymentDates.map((date, i) => (
+                      <div key={i} className="flex justify-between">
+                        <span className="text-neutral-600">
+                          {isDeposit && i === 0 ? 'Deposit' : `Payment ${i + 1}`} ({i === 0 && !startsLater ? 'Today' : date})
+                        </span>
+                        <span className="font-medium">{formatPence(installmentAmounts[i])}</span>
+                      </div>
+                    ))}
                   </div>
                 </div>
               </CardContent>
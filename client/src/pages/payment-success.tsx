@@ -1,140 +1,217 @@
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { CheckCircle, ArrowLeft } from "lucide-react";
+import { CheckCircle, ArrowLeft, AlertCircle, Clock } from "lucide-react";
 import { Link } from "wouter";
 import { useQuery } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
+import { BILLING_INTERVALS, billingIntervalLabels, paymentMethodLabels, type PaymentMethod } from "@shared/payment-plans";
+import { formatPence } from "@shared/installments";
+import type { CheckoutSessionSummary } from "@shared/schema";
 
-interface CheckoutSession {
-  id: string;
-  customer: string;
-  subscription: string;
-  amount_total: number;
-  customer_details: {
-    email: string;
-    name?: string;
-  };
-  metadata?: {
-    pcnNumber: string;
-    vehicleRegistration: string;
-    penaltyAmount?: string;
-    monthlyAmount?: string;
-    totalPayments?: string;
-  };
+// apiRequest errors look like `409: {"error":"..."}`
+function errorMessage(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  try {
+    return JSON.parse(message.replace(/^\d+:\s*/, '')).error || message;
+  } catch {
+    return message;
+  }
+}
+
+function formatDate(date: string): string {
+  return new Date(date).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
+}
+
+function ReturnButton() {
+  return (
+    <Link href="/">
+      <Button className="flex items-center space-x-2 bg-blue-600 hover:bg-blue-700">
+        <ArrowLeft className="w-4 h-4" />
+        <span>Return to Portal</span>
+      </Button>
+    </Link>
+  );
+}
+
+function StatusCard({ children }: { children: React.ReactNode }) {
+  return (
+    <div className="min-h-screen bg-neutral-50 flex items-center justify-center">
+      <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8">
+        <Card className="p-8 text-center">
+          <CardContent className="p-0">{children}</CardContent>
+        </Card>
+      </div>
+    </div>
+  );
 }
 
 export default function PaymentSuccess() {
   const urlParams = new URLSearchParams(window.location.search);
   const sessionId = urlParams.get('session_id');
 
-  const { data: session } = useQuery({
+  const { data: summary, error, isLoading } = useQuery<CheckoutSessionSummary>({
     queryKey: ['/api/checkout-session', sessionId],
     queryFn: async () => {
-      if (!sessionId) return null;
-      const response = await apiRequest('GET', `/api/checkout-session?sessionId=${sessionId}`);
-      return response.json() as Promise<CheckoutSession>;
+      const response = await apiRequest('GET', `/api/checkout-session?sessionId=${encodeURIComponent(sessionId!)}`);
+      return response.json();
     },
     enabled: !!sessionId,
+    // The installment schedule is set up just after checkout completes
+    refetchInterval: (query) => (query.state.data && !query.state.data.scheduleReady ? 3000 : false),
   });
 
-  // Calculate penalty amount from session data or use default
-  const penaltyAmount = session?.metadata?.penaltyAmount ? parseFloat(session.metadata.penaltyAmount) : 90;
-  const monthlyAmount = (penaltyAmount / 3).toFixed(2);
-
-  // Calculate payment dates
-  const getNextPaymentDates = () => {
-    const today = new Date();
-    const currentDay = today.getDate();
-    
-    // For month 2: same day next month, or next day if same day doesn't exist (e.g., Jan 31 -> Feb 1)
-    const payment2 = new Date(today.getFullYear(), today.getMonth() + 1, currentDay);
-    if (payment2.getDate() !== currentDay) {
-      // If the day doesn't exist in next month (e.g., Feb 31st), use next day
-      payment2.setDate(currentDay + 1);
-    }
-    
-    // For month 3: same day in month after that, or next day if same day doesn't exist  
-    const payment3 = new Date(today.getFullYear(), today.getMonth() + 2, currentDay);
-    if (payment3.getDate() !== currentDay) {
-      // If the day doesn't exist in that month, use next day
-      payment3.setDate(currentDay + 1);
-    }
-    
-    return {
-      payment2: payment2.toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' }),
-      payment3: payment3.toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' })
-    };
-  };
-
-  const { payment2, payment3 } = getNextPaymentDates();
+  if (!sessionId || error) {
+    return (
+      <StatusCard>
+        <div className="w-20 h-20 bg-red-100 rounded-full flex items-center justify-center mx-auto mb-6">
+          <AlertCircle className="w-14 h-14 text-red-600" />
+        </div>
+        <h1 className="text-3xl font-bold text-neutral-800 mb-4">We couldn't load your payment</h1>
+        <p className="text-lg text-neutral-600 mb-8">
+          {sessionId ? errorMessage(error) : 'No payment reference was provided.'} If you completed a payment, you will
+          receive a confirmation email shortly.
+        </p>
+        <ReturnButton />
+      </StatusCard>
+    );
+  }
+
+  if (isLoading || !summary) {
+    return (
+      <StatusCard>
+        <div className="animate-spin w-10 h-10 border-4 border-blue-600 border-t-transparent rounded-full mx-auto mb-6" />
+        <p className="text-lg text-neutral-600">Confirming your payment...</p>
+      </StatusCard>
+    );
+  }
+
+  const isFullPayment = summary.paymentType === 'full';
+  const interval = BILLING_INTERVALS.find((i) => i === summary.interval) ?? 'month';
+  const intervalLabel = billingIntervalLabels[interval];
+  // Direct Debits are submitted at checkout but take days to clear
+  const firstPaymentProcessing = summary.amountPaid === 0 && summary.charges.some((charge) => charge.status === 'processing');
+  // Plans that start later take nothing at checkout
+  const firstCharge = summary.charges[0];
+  const firstPaymentLater = !isFullPayment && summary.amountPaid === 0 && firstCharge?.status === 'scheduled';
+
   return (
-    <div className="min-h-screen bg-neutral-50 flex items-center justify-center">
-      <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8">
-        <Card className="p-8 text-center">
-          <CardContent className="p-0">
-            {/* Animated green tick */}
-            <div className="w-20 h-20 bg-green-100 rounded-full flex items-center justify-center mx-auto mb-6 animate-bounce">
-              <CheckCircle className="w-14 h-14 text-green-600 animate-pulse" />
+    <StatusCard>
+      {firstPaymentProcessing ? (
+        <>
+          <div className="w-20 h-20 bg-amber-100 rounded-full flex items-center justify-center mx-auto mb-6">
+            <Clock className="w-14 h-14 text-amber-600" />
+          </div>
+
+          <h1 className="text-4xl font-bold text-neutral-800 mb-4">
+            Direct Debit Set Up
+          </h1>
+
+          <p className="text-lg text-neutral-600 mb-8">
+            Your first payment is being processed and usually clears within 3 working days.
+            {summary.email && <> Your Direct Debit confirmation will be sent to {summary.email}.</>}
+          </p>
+        </>
+      ) : firstPaymentLater ? (
+        <>
+          <div className="w-20 h-20 bg-blue-100 rounded-full flex items-center justify-center mx-auto mb-6">
+            <Clock className="w-14 h-14 text-blue-600" />
+          </div>
+
+          <h1 className="text-4xl font-bold text-neutral-800 mb-4">
+            Payment Plan Set Up
+          </h1>
+
+          <p className="text-lg text-neutral-600 mb-8">
+            Nothing has been taken today. Your first payment of {formatPence(firstCharge.amount)} will be taken on {formatDate(firstCharge.date)}.
+            {summary.email && <> A confirmation will be sent to {summary.email}.</>}
+          </p>
+        </>
+      ) : (
+        <>
+          {/* Animated green tick */}
+          <div className="w-20 h-20 bg-green-100 rounded-full flex items-center justify-center mx-auto mb-6 animate-bounce">
+            <CheckCircle className="w-14 h-14 text-green-600 animate-pulse" />
+          </div>
+
+          <h1 className="text-4xl font-bold text-neutral-800 mb-4">
+            Payment Successful
+          </h1>
+
+          <p className="text-lg text-neutral-600 mb-8">
+            Your payment has been processed successfully.
+            {summary.email && <> A confirmation will be sent to {summary.email}.</>}
+          </p>
+        </>
+      )}
+
+      <div className="bg-neutral-50 rounded-lg p-6 mb-8">
+        <h3 className="text-lg font-semibold text-neutral-800 mb-4">Payment Summary</h3>
+
+        <div className="space-y-4 mb-6">
+          <div className="flex justify-between items-center pb-3 border-b border-gray-200">
+            <span className="text-neutral-600">PCN Number</span>
+            <span className="font-semibold text-neutral-800">{summary.pcnNumber}</span>
+          </div>
+          <div className="flex justify-between items-center pb-3 border-b border-gray-200">
+            <span className="text-neutral-600">Vehicle Registration</span>
+            <span className="font-semibold text-neutral-800">{summary.vehicleRegistration}</span>
+          </div>
+          <div className="flex justify-between items-center pb-3 border-b border-gray-200">
+            <span className="text-neutral-600 capitalize">{isFullPayment ? 'Payment' : `${intervalLabel.adjective} plan`}</span>
+            <span className="font-semibold text-neutral-800">
+              {isFullPayment ? 'Paid in full' : `${summary.installmentCount} payments`}
+            </span>
+          </div>
+          {!isFullPayment && (
+            <div className="flex justify-between items-center pb-3 border-b border-gray-200">
+              <span className="text-neutral-600">Paid By</span>
+              <span className="font-semibold text-neutral-800">{paymentMethodLabels[summary.paymentMethod as PaymentMethod] ?? summary.paymentMethod}</span>
             </div>
-            
-            <h1 className="text-4xl font-bold text-neutral-800 mb-4">
-              Payment Successful
-            </h1>
-            
-            <p className="text-lg text-neutral-600 mb-8">
-              Your payment has been processed successfully. You will receive a confirmation email shortly.
-            </p>
+          )}
+          <div className="flex justify-between items-center pb-3 border-b border-gray-200">
+            <span className="text-neutral-600">Total Amount</span>
+            <span className="font-semibold text-neutral-800">{formatPence(summary.totalAmount)}</span>
+          </div>
+          <div className="flex justify-between items-center text-lg font-semibold text-neutral-800">
+            <span>Paid So Far</span>
+            <span className="text-green-600">{formatPence(summary.amountPaid)}</span>
+          </div>
+        </div>
 
-            <div className="bg-neutral-50 rounded-lg p-6 mb-8">
-              <h3 className="text-lg font-semibold text-neutral-800 mb-4">Payment Summary</h3>
-              
-              <div className="space-y-4 mb-6">
-                <div className="flex justify-between items-center pb-3 border-b border-gray-200">
-                  <span className="text-neutral-600">Monthly Payment</span>
-                  <span className="font-semibold text-neutral-800">£{monthlyAmount}</span>
-                </div>
-                <div className="flex justify-between items-center pb-3 border-b border-gray-200">
-                  <span className="text-neutral-600">Duration</span>
-                  <span className="font-semibold text-neutral-800">3 months</span>
-                </div>
-                <div className="flex justify-between items-center pb-3 border-b border-gray-200">
-                  <span className="text-neutral-600">Total Amount</span>
-                  <span className="font-semibold text-neutral-800">£{penaltyAmount.toFixed(2)}</span>
-                </div>
-                <div className="flex justify-between items-center text-lg font-semibold text-neutral-800">
-                  <span>First Payment Processed</span>
-                  <span className="text-green-600">£{monthlyAmount}</span>
-                </div>
-              </div>
-
-              <div className="bg-white rounded-lg p-4">
-                <h4 className="font-medium text-neutral-800 mb-3">Payment Schedule</h4>
-                <div className="space-y-2 text-sm">
-                  <div className="flex justify-between">
-                    <span className="text-neutral-600">Payment 1 (Today)</span>
-                    <span className="font-medium text-green-600">£{monthlyAmount} ✓</span>
-                  </div>
-                  <div className="flex justify-between">
-                    <span className="text-neutral-600">Payment 2 ({payment2})</span>
-                    <span className="font-medium">£{monthlyAmount}</span>
-                  </div>
-                  <div className="flex justify-between">
-                    <span className="text-neutral-600">Payment 3 ({payment3})</span>
-                    <span className="font-medium">£{monthlyAmount}</span>
-                  </div>
+        {!isFullPayment && (
+          <div className="bg-white rounded-lg p-4">
+            <h4 className="font-medium text-neutral-800 mb-3">Payment Schedule</h4>
+            <div className="space-y-2 text-sm">
+              {summary.charges.map((charge, i) => (
+                <div key={i} className="flex justify-between">
+                  <span className="text-neutral-600">
+                    {summary.paymentType === 'deposit' && i === 0 ? 'Deposit' : `Payment ${i + 1}`} ({formatDate(charge.date)})
+                  </span>
+                  {charge.status === 'paid'
+                    ? <span className="font-medium text-green-600">{formatPence(charge.amount)} ✓</span>
+                    : charge.status === 'processing'
+                      ? <span className="font-medium text-amber-600">{formatPence(charge.amount)} · Processing</span>
+                      : <span className="font-medium">{formatPence(charge.amount)}</span>}
                 </div>
-              </div>
+              ))}
+              {!summary.scheduleReady && (
+                <p className="text-neutral-500">Confirming the dates of your remaining payments...</p>
+              )}
             </div>
-
-            <Link href="/">
-              <Button className="flex items-center space-x-2 bg-blue-600 hover:bg-blue-700">
-                <ArrowLeft className="w-4 h-4" />
-                <span>Return to Portal</span>
-              </Button>
-            </Link>
-          </CardContent>
-        </Card>
+            <p className="mt-4 text-sm">
+              <Link
+                href={`/plans/${summary.planId}?token=${encodeURIComponent(summary.planAccessToken)}`}
+                className="text-blue-600 hover:underline"
+              >
+                Bookmark your plan page
+              </Link>{' '}
+              <span className="text-neutral-500">to check your payments at any time.</span>
+            </p>
+          </div>
+        )}
       </div>
-    </div>
+
+      <ReturnButton />
+    </StatusCard>
   );
 }
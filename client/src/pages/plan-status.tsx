@@ -0,0 +1,365 @@
+import { useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertCircle, ArrowLeft, CalendarClock, CreditCard } from "lucide-react";
+import { Link, useParams } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { formatPence } from "@shared/installments";
+import { MAX_COLLECTION_DAY, paymentMethodLabels, type PaymentMethod } from "@shared/payment-plans";
+import type { PlanStatusView, RescheduleRequest } from "@shared/schema";
+
+const installmentStatusLabels: Record<string, string> = {
+  scheduled: 'Scheduled',
+  processing: 'Processing',
+  paid: 'Paid',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+  charged_back: 'Charged back',
+};
+
+const planStatusLabels: Record<string, string> = {
+  pending: 'Awaiting first payment',
+  active: 'Active',
+  past_due: 'Payment overdue',
+  completed: 'Paid in full',
+  cancelled: 'Cancelled',
+  defaulted: 'Cancelled after missed payments',
+};
+
+function formatDate(date: string | Date): string {
+  return new Date(date).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
+}
+
+export default function PlanStatus() {
+  const { planId } = useParams<{ planId: string }>();
+  // The access token from the success page link; without one the customer
+  // session cookie is used
+  const searchParams = new URLSearchParams(window.location.search);
+  const token = searchParams.get('token');
+  // Set when the driver comes back from saving new payment details or
+  // paying off the plan
+  const paymentMethodUpdated = searchParams.get('payment_method_updated') === 'true';
+  const settlementPaid = searchParams.get('settlement') === 'paid';
+
+  const { data: plan, error, isLoading } = useQuery<PlanStatusView>({
+    queryKey: ['/api/plans', planId, token],
+    queryFn: async () => {
+      const response = await fetch(`/api/plans/${encodeURIComponent(planId)}`, {
+        headers: token ? { Authorization: `Bearer ${token}` } : {},
+        credentials: 'include',
+      });
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error(body.error || response.statusText);
+      }
+      return body;
+    },
+  });
+
+  // Both actions send the driver to a gateway page and back again
+  const openGatewayPage = async (action: string) => {
+    const response = await fetch(`/api/plans/${encodeURIComponent(planId)}/${action}`, {
+      method: 'POST',
+      headers: token ? { Authorization: `Bearer ${token}` } : {},
+      credentials: 'include',
+    });
+    const body = await response.json();
+    if (!response.ok) {
+      throw new Error(body.error || response.statusText);
+    }
+    window.location.assign(body.url);
+  };
+  const updatePaymentMethod = useMutation({ mutationFn: () => openGatewayPage('payment-method') });
+  const settle = useMutation({ mutationFn: () => openGatewayPage('settlement') });
+
+  const queryClient = useQueryClient();
+  const [rescheduleSequence, setRescheduleSequence] = useState<string>();
+  const [shiftDays, setShiftDays] = useState('7');
+  const [collectionDay, setCollectionDay] = useState('1');
+  const reschedule = useMutation({
+    mutationFn: async (request: RescheduleRequest) => {
+      const response = await fetch(`/api/plans/${encodeURIComponent(planId)}/reschedule`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) },
+        credentials: 'include',
+        body: JSON.stringify(request),
+      });
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error(body.error || response.statusText);
+      }
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['/api/plans', planId] }),
+  });
+  const upcomingInstallments = plan?.installments.filter((installment) => installment.status === 'scheduled') ?? [];
+  const selectedSequence = rescheduleSequence ?? upcomingInstallments[0]?.sequence.toString();
+  const canUpdatePaymentMethod =
+    !!plan && plan.paymentType !== 'full' && (plan.status === 'active' || plan.status === 'past_due');
+  const updateLabel = plan?.paymentMethod === 'bacs_debit' ? 'Update Bank Details' : 'Update Card';
+
+  return (
+    <div className="min-h-screen bg-neutral-50 flex items-center justify-center">
+      <div className="max-w-2xl w-full mx-auto px-4 sm:px-6 lg:px-8">
+        <Card className="p-8">
+          <CardContent className="p-0">
+            {isLoading ? (
+              <div className="text-center">
+                <div className="animate-spin w-10 h-10 border-4 border-blue-600 border-t-transparent rounded-full mx-auto mb-6" />
+                <p className="text-lg text-neutral-600">Loading your payment plan...</p>
+              </div>
+            ) : error || !plan ? (
+              <div className="text-center">
+                <AlertCircle className="w-14 h-14 text-red-600 mx-auto mb-6" />
+                <h1 className="text-2xl font-bold text-neutral-800 mb-4">We couldn't load this plan</h1>
+                <p className="text-neutral-600 mb-8">
+                  {error instanceof Error ? error.message : 'Please use the link from your payment confirmation.'}
+                </p>
+              </div>
+            ) : (
+              <>
+                <h1 className="text-2xl font-bold text-neutral-800 mb-2">Your Payment Plan</h1>
+                <p className="text-neutral-600 mb-6">
+                  PCN {plan.pcnNumber} · {plan.vehicleRegistration} · {planStatusLabels[plan.status] ?? plan.status}
+                </p>
+
+                <div className="space-y-4 mb-6">
+                  <div className="flex justify-between items-center pb-3 border-b border-gray-200">
+                    <span className="text-neutral-600">Total Amount</span>
+                    <span className="font-semibold text-neutral-800">{formatPence(plan.totalAmount)}</span>
+                  </div>
+                  <div className="flex justify-between items-center pb-3 border-b border-gray-200">
+                    <span className="text-neutral-600">Paid So Far</span>
+                    <span className="font-semibold text-green-600">{formatPence(plan.amountPaid)}</span>
+                  </div>
+                  {plan.amountRefunded > 0 && (
+                    <div className="flex justify-between items-center pb-3 border-b border-gray-200">
+                      <span className="text-neutral-600">Refunded</span>
+                      <span className="font-semibold text-neutral-800">{formatPence(plan.amountRefunded)}</span>
+                    </div>
+                  )}
+                  {paymentMethodUpdated && (
+                  <p className="text-sm text-green-700 bg-green-50 rounded-lg p-3 mb-6">
+                    Your new payment details are saved. Your remaining payments, including any that failed, will be
+                    taken from them.
+                  </p>
+                )}
+                {settlementPaid && !plan.settledEarlyAt && (
+                  <p className="text-sm text-green-700 bg-green-50 rounded-lg p-3 mb-6">
+                    Thank you. Your payment is being applied to the plan and will show here shortly.
+                  </p>
+                )}
+                {plan.settledEarlyAt && (
+                  <p className="text-sm text-green-700 bg-green-50 rounded-lg p-3 mb-6">
+                    You settled the rest of this plan on {formatDate(plan.settledEarlyAt)}. No more payments will be taken.
+                  </p>
+                )}
+                {plan.status === 'past_due' && (
+                  <p className="text-sm text-red-700 bg-red-50 rounded-lg p-3 mb-6">
+                    A payment didn't go through. We'll try again on the date shown below; please make sure your card or
+                    account can cover it, or update your payment details and we'll try again straight away.
+                  </p>
+                )}
+                {plan.status === 'defaulted' && (
+                  <p className="text-sm text-red-700 bg-red-50 rounded-lg p-3 mb-6">
+                    This plan was cancelled after repeated failed payments. The full penalty charge, less what you have
+                    already paid, is now due on the PCN and can be paid from the portal.
+                  </p>
+                )}
+                {plan.amountProcessing > 0 && (
+                    <div className="flex justify-between items-center pb-3 border-b border-gray-200">
+                      <span className="text-neutral-600">Processing</span>
+                      <span className="font-semibold text-amber-600">{formatPence(plan.amountProcessing)}</span>
+                    </div>
+                  )}
+                  <div className="flex justify-between items-center pb-3 border-b border-gray-200">
+                    <span className="text-neutral-600">Balance Outstanding</span>
+                    <span className="font-semibold text-neutral-800">{formatPence(plan.balanceOutstanding)}</span>
+                  </div>
+                  <div className="flex justify-between items-center pb-3 border-b border-gray-200">
+                    <span className="text-neutral-600">Paid By</span>
+                    <span className="font-semibold text-neutral-800">
+                      {paymentMethodLabels[plan.paymentMethod as PaymentMethod] ?? plan.paymentMethod}
+                    </span>
+                  </div>
+                  <div className="flex justify-between items-center">
+                    <span className="text-neutral-600">Next Payment</span>
+                    <span className="font-semibold text-neutral-800">
+                      {plan.nextChargeDate ? formatDate(plan.nextChargeDate) : 'None'}
+                    </span>
+                  </div>
+                </div>
+
+                {plan.amountProcessing > 0 && (
+                  <p className="text-sm text-neutral-600 mb-6">
+                    Direct Debit payments usually take 3 working days to clear. They count towards your balance once they have.
+                  </p>
+                )}
+
+                {plan.settlementAmount !== null && (
+                  <div className="mb-4">
+                    <Button
+                      className="w-full bg-blue-600 hover:bg-blue-700"
+                      disabled={settle.isPending}
+                      onClick={() => settle.mutate()}
+                    >
+                      {settle.isPending ? 'Opening...' : `Settle Now (${formatPence(plan.settlementAmount)})`}
+                    </Button>
+                    <p className="text-xs text-neutral-500 mt-2">
+                      Pay the rest of the plan by card in one go. No further installments will be taken.
+                    </p>
+                    {settle.error && <p className="text-sm text-red-700 mt-2">{settle.error.message}</p>}
+                  </div>
+                )}
+
+                {canUpdatePaymentMethod && (
+                  <div className="mb-6">
+                    <Button
+                      variant="outline"
+                      className="w-full inline-flex items-center justify-center space-x-2"
+                      disabled={updatePaymentMethod.isPending}
+                      onClick={() => updatePaymentMethod.mutate()}
+                    >
+                      <CreditCard className="w-4 h-4" />
+                      <span>{updatePaymentMethod.isPending ? 'Opening...' : updateLabel}</span>
+                    </Button>
+                    {updatePaymentMethod.error && (
+                      <p className="text-sm text-red-700 mt-2">{updatePaymentMethod.error.message}</p>
+                    )}
+                  </div>
+                )}
+
+                {plan.reschedule && selectedSequence && (
+                  <div className="border border-gray-200 rounded-lg p-4 mb-6">
+                    <h4 className="font-medium text-neutral-800 mb-1 flex items-center space-x-2">
+                      <CalendarClock className="w-4 h-4" />
+                      <span>Change Payment Dates</span>
+                    </h4>
+                    {plan.reschedule.changesLeft === 0 ? (
+                      <p className="text-sm text-neutral-600">You have made all the changes allowed on this plan.</p>
+                    ) : (
+                      <>
+                        <p className="text-xs text-neutral-500 mb-4">
+                          You can make {plan.reschedule.changesLeft} more {plan.reschedule.changesLeft === 1 ? 'change' : 'changes'}.
+                          Your last payment can't move past {formatDate(plan.reschedule.latestFinalDate)}.
+                        </p>
+                        <div className="grid grid-cols-2 gap-3 mb-3">
+                          <div>
+                            <Label htmlFor="reschedule-payment" className="text-sm text-neutral-600">Payment</Label>
+                            <Select value={selectedSequence} onValueChange={setRescheduleSequence}>
+                              <SelectTrigger id="reschedule-payment">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {upcomingInstallments.map((installment) => (
+                                  <SelectItem key={installment.sequence} value={installment.sequence.toString()}>
+                                    Payment {installment.sequence} ({formatDate(installment.dueDate)})
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                          <div>
+                            <Label htmlFor="reschedule-days" className="text-sm text-neutral-600">Move back by</Label>
+                            <Select value={shiftDays} onValueChange={setShiftDays}>
+                              <SelectTrigger id="reschedule-days">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {Array.from({ length: plan.reschedule.maxShiftDays }, (_, i) => i + 1).map((days) => (
+                                  <SelectItem key={days} value={days.toString()}>
+                                    {days} {days === 1 ? 'day' : 'days'}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                        </div>
+                        <div className="grid grid-cols-2 gap-3 mb-3">
+                          <Button
+                            variant="outline"
+                            disabled={reschedule.isPending}
+                            onClick={() => reschedule.mutate({ type: 'shift', sequence: Number(selectedSequence), days: Number(shiftDays) })}
+                          >
+                            Move Payment
+                          </Button>
+                          <Button
+                            variant="outline"
+                            disabled={reschedule.isPending}
+                            onClick={() => reschedule.mutate({ type: 'skip', sequence: Number(selectedSequence) })}
+                          >
+                            Skip Payment
+                          </Button>
+                        </div>
+                        <p className="text-xs text-neutral-500 mb-3">
+                          Skipping moves this payment and every one after it back by a {plan.interval}.
+                        </p>
+                        {plan.interval === 'month' && (
+                          <div className="grid grid-cols-2 gap-3 items-end">
+                            <div>
+                              <Label htmlFor="collection-day" className="text-sm text-neutral-600">Collection day</Label>
+                              <Select value={collectionDay} onValueChange={setCollectionDay}>
+                                <SelectTrigger id="collection-day">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {Array.from({ length: MAX_COLLECTION_DAY }, (_, i) => i + 1).map((day) => (
+                                    <SelectItem key={day} value={day.toString()}>
+                                      Day {day} of the month
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            </div>
+                            <Button
+                              variant="outline"
+                              disabled={reschedule.isPending}
+                              onClick={() => reschedule.mutate({ type: 'collection_day', day: Number(collectionDay) })}
+                            >
+                              Change Day
+                            </Button>
+                          </div>
+                        )}
+                      </>
+                    )}
+                    {reschedule.isSuccess && (
+                      <p className="text-sm text-green-700 mt-3">Your payment dates have been changed. We've emailed you the new dates.</p>
+                    )}
+                    {reschedule.error && <p className="text-sm text-red-700 mt-3">{reschedule.error.message}</p>}
+                  </div>
+                )}
+
+                <div className="bg-neutral-50 rounded-lg p-4 mb-8">
+                  <h4 className="font-medium text-neutral-800 mb-3">Installments</h4>
+                  <div className="space-y-2 text-sm">
+                    {plan.installments.map((installment) => (
+                      <div key={installment.sequence} className="flex justify-between">
+                        <span className="text-neutral-600">
+                          {plan.paymentType === 'deposit' && installment.sequence === 1 ? 'Deposit' : `Payment ${installment.sequence}`} ({formatDate(installment.paidAt ?? installment.dueDate)})
+                        </span>
+                        <span className={installment.status === 'paid' ? 'font-medium text-green-600' : installment.status === 'failed' || installment.status === 'charged_back' ? 'font-medium text-red-600' : installment.status === 'processing' ? 'font-medium text-amber-600' : 'font-medium'}>
+                          {formatPence(installment.amount)} · {installmentStatusLabels[installment.status] ?? installment.status}
+                          {installment.status === 'failed' && installment.nextRetryAt && <> · retry {formatDate(installment.nextRetryAt)}</>}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              </>
+            )}
+
+            <div className="text-center">
+              <Link href="/">
+                <Button className="inline-flex items-center space-x-2 bg-blue-600 hover:bg-blue-700">
+                  <ArrowLeft className="w-4 h-4" />
+                  <span>Return to Portal</span>
+                </Button>
+              </Link>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
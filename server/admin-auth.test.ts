@@ -0,0 +1,52 @@
+import type { NextFunction, Request, Response } from "express";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { loadAdminKeys } from "./admin-auth";
+
+describe("loadAdminKeys", () => {
+  it("maps each key to its operator", () => {
+    expect(loadAdminKeys(" alice:key-a , bob:key-b")).toEqual(
+      new Map([
+        ["key-a", "alice"],
+        ["key-b", "bob"],
+      ]),
+    );
+  });
+
+  it("skips entries without a name or key", () => {
+    expect(loadAdminKeys("alice:,bob: ,:key-c,dave,erin:key-e,")).toEqual(new Map([["key-e", "erin"]]));
+  });
+
+  it("refuses a key shared by two operators", () => {
+    expect(() => loadAdminKeys("alice:key-a,bob:key-a")).toThrow("alice and bob share a key");
+  });
+});
+
+describe("requireAdmin", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  // The keys are read when the module loads
+  async function authenticate(key: string | undefined) {
+    vi.stubEnv("ADMIN_API_KEYS", "alice:,bob:key-b");
+    vi.resetModules();
+    const { requireAdmin } = await import("./admin-auth");
+    const req = { headers: key === undefined ? {} : { "x-admin-key": key } } as Request;
+    const res = { status: vi.fn().mockReturnThis(), json: vi.fn() };
+    const next = vi.fn() as NextFunction;
+    requireAdmin(req, res as unknown as Response, next);
+    return { req, res, next };
+  }
+
+  it("lets an operator in with their key", async () => {
+    const { req, next } = await authenticate("key-b");
+    expect(next).toHaveBeenCalled();
+    expect(req.adminName).toBe("bob");
+  });
+
+  it.each([undefined, "", "key-a"])("refuses the key %j", async (key) => {
+    const { res, next } = await authenticate(key);
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(401);
+  });
+});
@@ -0,0 +1,52 @@
+import type { NextFunction, Request, Response } from "express";
+import { timingSafeEqual } from "crypto";
+
+declare global {
+  namespace Express {
+    interface Request {
+      adminName?: string;
+    }
+  }
+}
+
+// ADMIN_API_KEYS holds comma-separated `name:key` pairs, one per operator, so
+// admin actions can be attributed to the person who took them. Entries
+// without a name or key are skipped; a key shared by two operators is refused.
+export function loadAdminKeys(value = process.env.ADMIN_API_KEYS || ""): Map<string, string> {
+  const keys = new Map<string, string>();
+  for (const entry of value.split(",")) {
+    const separator = entry.indexOf(":");
+    const name = entry.slice(0, separator).trim();
+    const key = entry.slice(separator + 1).trim();
+    if (separator < 0 || !name || !key) continue;
+    if (keys.has(key)) {
+      throw new Error(`Invalid ADMIN_API_KEYS: ${keys.get(key)} and ${name} share a key`);
+    }
+    keys.set(key, name);
+  }
+  return keys;
+}
+
+const adminKeys = loadAdminKeys();
+
+function findAdmin(presentedKey: string): string | undefined {
+  const presented = Buffer.from(presentedKey);
+  for (const [key, name] of Array.from(adminKeys.entries())) {
+    const expected = Buffer.from(key);
+    if (expected.length === presented.length && timingSafeEqual(expected, presented)) {
+      return name;
+    }
+  }
+  return undefined;
+}
+
+export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  const presentedKey = req.headers["x-admin-key"];
+  const adminName = typeof presentedKey === "string" ? findAdmin(presentedKey) : undefined;
+  if (!adminName) {
+    return res.status(401).json({ error: "Admin authentication required" });
+  }
+
+  req.adminName = adminName;
+  next();
+}
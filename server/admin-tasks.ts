@@ -0,0 +1,24 @@
+import type { AdminTask } from "@shared/schema";
+import { HttpError } from "./errors";
+import { storage } from "./storage";
+
+// Mark a task done. completedBy is the operator who did the work, or null when
+// it no longer needs doing, e.g. because the dispute it was for has closed.
+export async function completeAdminTask(id: string, completedBy: string | null): Promise<AdminTask> {
+  const task = await storage.getAdminTask(id);
+  if (!task) {
+    throw new HttpError(404, "Task not found");
+  }
+  if (task.status !== "open") {
+    throw new HttpError(409, "This task has already been completed");
+  }
+  return storage.updateAdminTask(id, { status: "done", completedBy, completedAt: new Date() });
+}
+
+export async function completeDisputeTasks(disputeId: string, completedBy: string | null): Promise<void> {
+  for (const task of await storage.getAdminTasksByDispute(disputeId)) {
+    if (task.status === "open") {
+      await storage.updateAdminTask(task.id, { status: "done", completedBy, completedAt: new Date() });
+    }
+  }
+}
@@ -0,0 +1,305 @@
+import type { CheckoutAttempt, CheckoutRequest, CheckoutSessionSummary } from "@shared/schema";
+import {
+  getFirstPaymentDate,
+  getFirstPaymentDateError,
+  getInstallmentAmounts,
+  isPlanAllowed,
+} from "@shared/payment-plans";
+import { toPounds } from "@shared/installments";
+import { getAmountToCharge, getPcnCharges } from "@shared/pcn-charges";
+import { HttpError } from "./errors";
+import { escalationRules } from "./escalation-config";
+import { gateway } from "./gateway";
+import { closePlan, createPlanLedger } from "./ledger";
+import { findPayablePcn } from "./pcn-registry";
+import { planRules } from "./plan-config";
+import { storage } from "./storage";
+import { getDomainUrl } from "./urls";
+import type { CheckoutUiMode } from "./payment-gateway";
+import { issuePlanAccessToken } from "./plan-access";
+
+// Checkouts left unfinished for this long are expired and their plans cancelled
+const ABANDONED_AFTER_MS = 24 * 60 * 60 * 1000;
+
+// The payment step is embedded in the portal when it has the publishable key
+// it loads Stripe.js with, and otherwise is the full-page redirect to the
+// gateway's checkout. CHECKOUT_UI_MODE=hosted always redirects.
+function loadCheckoutUiMode(): CheckoutUiMode {
+  const hasPublishableKey = !!process.env.VITE_STRIPE_PUBLIC_KEY;
+  if (process.env.CHECKOUT_UI_MODE === "embedded" && !hasPublishableKey) {
+    console.warn("CHECKOUT_UI_MODE=embedded needs VITE_STRIPE_PUBLIC_KEY; using the hosted checkout");
+  }
+  return process.env.CHECKOUT_UI_MODE !== "hosted" && hasPublishableKey ? "embedded" : "hosted";
+}
+
+const checkoutUiMode = loadCheckoutUiMode();
+
+export interface CheckoutResponse {
+  sessionId: string;
+  // One of these is set, depending on the checkout UI mode
+  url: string | null;
+  clientSecret: string | null;
+  customerId: string | null;
+  pcnId: string;
+  planId: string;
+}
+
+// Create (or return the existing) checkout for one "Pay" attempt. The browser
+// sends the same idempotency key for retries and double clicks, so only the
+// first request creates a customer, ledger plan and checkout. Drivers either
+// pay the PCN in full or set up an installment plan, which may start later
+// or be collected on a day of the month that suits them, or one that opens
+// with a deposit.
+export async function createCheckout(request: CheckoutRequest): Promise<CheckoutResponse> {
+  const existing = await storage.getCheckoutAttemptByKey(request.idempotencyKey);
+  if (existing) {
+    return resumeAttempt(existing, request);
+  }
+
+  // The amount charged always comes from the registry, never the browser
+  const pcn = await findPayablePcn(request.pcnNumber, request.vehicleRegistration);
+  const { email, interval, paymentType, paymentMethod } = request;
+  const installmentCount = paymentType === "full" ? 1 : request.installmentCount;
+  const charges = getPcnCharges(pcn, escalationRules);
+  const amount = getAmountToCharge(charges, paymentType, planRules);
+  if (amount !== request.expectedAmount) {
+    throw new HttpError(409, "The amount due on this PCN has changed. Please review it and try again.");
+  }
+  if (paymentType === "full" && paymentMethod !== "card") {
+    throw new HttpError(400, "Direct Debit is only available for payment plans");
+  }
+  if (paymentType !== "full" && !charges.plansAllowed) {
+    throw new HttpError(400, `Payment plans are not available for PCNs at the ${charges.stageLabel} stage`);
+  }
+  if (paymentType !== "full" && !isPlanAllowed(amount, { installmentCount, interval, paymentType }, planRules)) {
+    throw new HttpError(400, "The selected payment plan is not available for this amount");
+  }
+  if (paymentType !== "installments" && (request.firstPaymentDate || request.collectionDay)) {
+    throw new HttpError(
+      400,
+      paymentType === "full" ? "A payment in full is always taken today" : "The deposit is always taken today",
+    );
+  }
+  if (request.collectionDay && interval !== "month") {
+    throw new HttpError(400, "A collection day can only be chosen for monthly plans");
+  }
+  const now = new Date();
+  const firstPaymentDate = getFirstPaymentDate(now, request);
+  const startError = getFirstPaymentDateError(now, firstPaymentDate, interval, planRules);
+  if (startError) {
+    throw new HttpError(400, startError);
+  }
+
+  const attempt = await storage.createCheckoutAttempt({
+    idempotencyKey: request.idempotencyKey,
+    pcnId: pcn.id,
+  });
+  if (!attempt) {
+    // Another request with the same key got there first
+    const winner = await storage.getCheckoutAttemptByKey(request.idempotencyKey);
+    return resumeAttempt(winner!, request);
+  }
+
+  try {
+    // Only one checkout per PCN may be payable at a time
+    await abandonCheckoutsForPcn(pcn.id, attempt.id);
+
+    let customer = await storage.getCustomerByEmail(email);
+    if (!customer) {
+      customer = await storage.createCustomer({ email });
+    }
+
+    // Ensure the payment gateway knows this customer
+    if (!customer.stripeCustomerId) {
+      customer = await storage.updateCustomerStripeInfo(customer.id, await gateway.createCustomer(customer));
+    }
+
+    const domainURL = getDomainUrl();
+    const installmentAmounts = getInstallmentAmounts(amount, paymentType, installmentCount, planRules);
+    const { plan } = await createPlanLedger({
+      pcnId: pcn.id,
+      type: paymentType,
+      paymentMethod,
+      totalAmount: amount,
+      installmentAmounts,
+      interval,
+      startDate: firstPaymentDate,
+      // The request schema only accepts checkouts where the terms were ticked
+      termsAcceptedAt: now,
+    });
+    await storage.updateCheckoutAttempt(attempt.id, { planId: plan.id });
+
+    const checkoutRequest = {
+      customer,
+      gatewayCustomerId: customer.stripeCustomerId!,
+      pcn,
+      plan,
+      uiMode: checkoutUiMode,
+      metadata: {
+        customerId: customer.id,
+        pcnId: pcn.id,
+        planId: plan.id,
+        attemptId: attempt.id,
+        paymentType,
+        paymentMethod,
+        pcnNumber: pcn.pcnNumber,
+        vehicleRegistration: pcn.vehicleRegistration,
+        totalPayments: installmentCount.toString(),
+        interval,
+        penaltyAmount: toPounds(amount),
+        fullAmount: toPounds(charges.fullAmount),
+        stage: charges.stage,
+        installmentAmounts: installmentAmounts.map(toPounds).join(","),
+      },
+      successUrl: `${domainURL}/payment-success?session_id={CHECKOUT_SESSION_ID}`,
+      cancelUrl: `${domainURL}/`,
+      idempotencyKey: `checkout-${attempt.id}`,
+    };
+    const session =
+      paymentType === "full"
+        ? await gateway.createPaymentCheckout(checkoutRequest)
+        : await gateway.createPlanCheckout({
+            ...checkoutRequest,
+            installmentAmounts,
+            interval,
+            paymentMethod,
+            firstPaymentDate: firstPaymentDate > now ? firstPaymentDate : null,
+          });
+
+    await storage.updateCheckoutAttempt(attempt.id, {
+      checkoutId: session.id,
+      checkoutUrl: session.url,
+      checkoutClientSecret: session.clientSecret,
+      status: "open",
+    });
+
+    return {
+      sessionId: session.id,
+      url: session.url,
+      clientSecret: session.clientSecret,
+      customerId: customer.id,
+      pcnId: pcn.id,
+      planId: plan.id,
+    };
+  } catch (error) {
+    await storage.updateCheckoutAttempt(attempt.id, { status: "failed" });
+    throw error;
+  }
+}
+
+async function resumeAttempt(attempt: CheckoutAttempt, request: CheckoutRequest): Promise<CheckoutResponse> {
+  const pcn = await storage.getPcnByNumber(request.pcnNumber);
+  if (!pcn || pcn.id !== attempt.pcnId) {
+    throw new HttpError(422, "This payment attempt was started for a different PCN");
+  }
+  const plan = attempt.planId ? await storage.getPaymentPlan(attempt.planId) : undefined;
+  const planChanged =
+    plan &&
+    (plan.type !== request.paymentType ||
+      plan.paymentMethod !== request.paymentMethod ||
+      (plan.type !== "full" &&
+        (plan.installmentCount !== request.installmentCount || plan.interval !== request.interval)));
+  if (planChanged) {
+    throw new HttpError(422, "This payment attempt was started with a different payment plan");
+  }
+
+  switch (attempt.status) {
+    case "open":
+    case "completed":
+      return {
+        sessionId: attempt.checkoutId!,
+        url: attempt.checkoutUrl,
+        clientSecret: attempt.checkoutClientSecret,
+        customerId: pcn.customerId,
+        pcnId: pcn.id,
+        planId: attempt.planId!,
+      };
+    case "in_progress":
+      throw new HttpError(409, "Your payment is already being set up. Please wait a moment and try again.");
+    default:
+      // The browser starts a new attempt (and key) after an error
+      throw new HttpError(409, "This payment attempt can no longer be used. Please try again.");
+  }
+}
+
+// The success page's view of a checkout, built from the gateway's record of
+// what was actually paid and scheduled rather than from the browser
+export async function getCheckoutSessionSummary(sessionId: string): Promise<CheckoutSessionSummary> {
+  const checkout = await gateway.getCheckout(sessionId);
+  const plan = checkout?.metadata.planId ? await storage.getPaymentPlan(checkout.metadata.planId) : undefined;
+  const pcn = plan ? await storage.getPcn(plan.pcnId) : undefined;
+  if (!checkout || !plan || !pcn) {
+    throw new HttpError(404, "Checkout session not found");
+  }
+  if (checkout.status !== "complete") {
+    throw new HttpError(409, "This checkout has not been completed");
+  }
+
+  const summary: CheckoutSessionSummary = {
+    sessionId: checkout.id,
+    planId: plan.id,
+    planAccessToken: issuePlanAccessToken(plan.id),
+    paymentType: plan.type,
+    paymentMethod: plan.paymentMethod,
+    pcnNumber: pcn.pcnNumber,
+    vehicleRegistration: pcn.vehicleRegistration,
+    email: checkout.customerEmail,
+    totalAmount: plan.totalAmount,
+    amountPaid: checkout.payments.reduce((sum, payment) => sum + payment.amount, 0),
+    installmentCount: plan.installmentCount,
+    interval: plan.interval,
+    scheduleReady: checkout.upcoming !== null,
+    charges: [
+      ...checkout.payments.map((payment) => ({ date: payment.paidAt, amount: payment.amount, status: "paid" as const })),
+      ...checkout.processing.map((payment) => ({
+        date: payment.submittedAt,
+        amount: payment.amount,
+        status: "processing" as const,
+      })),
+      ...(checkout.upcoming ?? []).map((charge) => ({
+        date: charge.dueDate,
+        amount: charge.amount,
+        status: "scheduled" as const,
+      })),
+    ],
+  };
+  return summary;
+}
+
+// Expire a checkout that will never be used and cancel the plan recorded for it
+async function abandonAttempt(attempt: CheckoutAttempt): Promise<void> {
+  if (attempt.checkoutId) {
+    try {
+      await gateway.expireCheckout(attempt.checkoutId);
+    } catch (error: any) {
+      console.warn(`Could not expire checkout ${attempt.checkoutId}:`, error.message);
+    }
+  }
+  await storage.updateCheckoutAttempt(attempt.id, { status: "abandoned" });
+  await cancelPendingPlan(attempt.planId);
+}
+
+export async function abandonCheckoutsForPcn(pcnId: string, keepAttemptId: string): Promise<void> {
+  const attempts = await storage.getCheckoutAttemptsByPcn(pcnId);
+  for (const attempt of attempts) {
+    if (attempt.id !== keepAttemptId && attempt.status === "open") {
+      await abandonAttempt(attempt);
+    }
+  }
+}
+
+export async function cancelPendingPlan(planId: string | null | undefined): Promise<void> {
+  const plan = planId ? await storage.getPaymentPlan(planId) : undefined;
+  if (plan?.status === "pending") {
+    await closePlan(plan);
+  }
+}
+
+// Clean up checkouts the driver walked away from
+export async function sweepAbandonedCheckouts(now = new Date()): Promise<number> {
+  const attempts = await storage.getUnfinishedCheckoutAttempts(new Date(now.getTime() - ABANDONED_AFTER_MS));
+  for (const attempt of attempts) {
+    await abandonAttempt(attempt);
+  }
+  return attempts.length;
+}
@@ -0,0 +1,61 @@
+import type { NextFunction, Request, Response, RequestHandler } from "express";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+import { randomBytes } from "crypto";
+
+declare module "express-session" {
+  interface SessionData {
+    // Plans whose checkout was completed in this browser
+    planIds?: string[];
+  }
+}
+
+const THIRTY_DAYS_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Cookie session for drivers. There are no passwords and the email typed at
+// checkout isn't verified, so a session only covers the plans the driver
+// came back from a completed checkout for, never everything the customer has.
+// Sessions live in Postgres when DATABASE_URL is set and in memory otherwise.
+export function customerSession(): RequestHandler {
+  let secret = process.env.SESSION_SECRET;
+  if (!secret) {
+    console.warn("SESSION_SECRET is not set: customer sessions will end when the server restarts");
+    secret = randomBytes(32).toString("hex");
+  }
+
+  const store = process.env.DATABASE_URL
+    ? new (connectPg(session))({ conString: process.env.DATABASE_URL, createTableIfMissing: true })
+    : new (createMemoryStore(session))({ checkPeriod: 24 * 60 * 60 * 1000 });
+
+  return session({
+    store,
+    secret,
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      maxAge: THIRTY_DAYS_MS,
+    },
+  });
+}
+
+export function signInToPlan(req: Request, planId: string) {
+  const planIds = req.session.planIds ?? [];
+  if (!planIds.includes(planId)) {
+    req.session.planIds = [...planIds, planId];
+  }
+}
+
+export function hasPlanSession(req: Request, planId: string): boolean {
+  return !!req.session?.planIds?.includes(planId);
+}
+
+export function requireCustomerSession(req: Request, res: Response, next: NextFunction) {
+  if (!req.session?.planIds?.length) {
+    return res.status(401).json({ error: "Customer session required" });
+  }
+  next();
+}
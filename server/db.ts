@@ -0,0 +1,15 @@
+import { drizzle } from "drizzle-orm/node-postgres";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import pg from "pg";
+import * as schema from "@shared/schema";
+
+// Any Postgres driver drizzle supports; the storage tests run on an
+// in-process PGlite database
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+// Plain node-postgres driver so the same code runs against Neon, Azure
+// Database for PostgreSQL and a local/embedded Postgres alike.
+export function createDb(connectionString: string): Database {
+  const pool = new pg.Pool({ connectionString });
+  return drizzle(pool, { schema });
+}
@@ -0,0 +1,125 @@
+import { randomUUID } from "crypto";
+import { describe, expect, it } from "vitest";
+import { getAmountToCharge, getPcnCharges } from "@shared/pcn-charges";
+import { createCheckout } from "./checkout";
+import { recordDisputeUpdate } from "./disputes";
+import { escalationRules } from "./escalation-config";
+import type { FakeGateway } from "./fake-gateway";
+import { gateway } from "./gateway";
+import { getBalanceOutstanding } from "./ledger";
+import { planRules } from "./plan-config";
+import { storage } from "./storage";
+import { processPaymentEvent } from "./webhooks";
+
+const fakeGateway = gateway as FakeGateway;
+fakeGateway.setEventHandler(processPaymentEvent);
+
+// A three-payment monthly card plan of £30 payments with its first payment
+// taken, or every payment when it should already have completed
+async function startPlan({ completed = false } = {}) {
+  const pcn = await storage.createPcn({ pcnNumber: `PCN-${randomUUID()}`, vehicleRegistration: "AB12CDE", amountDue: 9000 });
+  const checkout = await createCheckout({
+    email: `${randomUUID()}@example.com`,
+    pcnNumber: pcn.pcnNumber,
+    vehicleRegistration: pcn.vehicleRegistration,
+    installmentCount: 3,
+    interval: "month",
+    paymentType: "installments",
+    paymentMethod: "card",
+    expectedAmount: getAmountToCharge(getPcnCharges(pcn, escalationRules), "installments", planRules),
+    idempotencyKey: randomUUID(),
+    acceptedTerms: true,
+  });
+  await fakeGateway.completeCheckout(checkout.sessionId, { failFuturePayments: false });
+  if (completed) {
+    await fakeGateway.advanceClock(65);
+  }
+  const [first] = await storage.getInstallmentsByPlan(checkout.planId);
+  return { pcnId: pcn.id, planId: checkout.planId, invoiceId: first.stripeInvoiceId! };
+}
+
+async function reload(planId: string) {
+  const plan = (await storage.getPaymentPlan(planId))!;
+  const installments = await storage.getInstallmentsByPlan(planId);
+  const [dispute] = await storage.getDisputesByPlan(planId);
+  const tasks = dispute ? await storage.getAdminTasksByDispute(dispute.id) : [];
+  return { plan, installments, dispute, tasks, statuses: installments.map((installment) => installment.status) };
+}
+
+describe("chargebacks", () => {
+  it("flag the plan and open a task due at the evidence deadline", async () => {
+    const { planId, invoiceId } = await startPlan();
+
+    const opened = await fakeGateway.openDispute(invoiceId, "fraudulent");
+
+    const { plan, dispute, tasks } = await reload(planId);
+    expect(plan.disputedAt).toBeInstanceOf(Date);
+    expect(dispute).toMatchObject({ stripeDisputeId: opened.id, amount: 3000, status: "needs_response", closedAt: null });
+    expect(tasks).toMatchObject([{ type: "dispute_response", status: "open", dueAt: opened.evidenceDueBy }]);
+  });
+
+  it("change nothing in the ledger when won", async () => {
+    const { pcnId, planId, invoiceId } = await startPlan();
+    const opened = await fakeGateway.openDispute(invoiceId, "fraudulent");
+
+    await fakeGateway.closeDispute(opened.id, "won");
+
+    const { plan, dispute, tasks, statuses } = await reload(planId);
+    expect(dispute.status).toBe("won");
+    expect(dispute.closedAt).toBeInstanceOf(Date);
+    expect(tasks.map((task) => task.status)).toEqual(["done"]);
+    expect(plan).toMatchObject({ status: "active", disputedAt: null });
+    expect(statuses).toEqual(["paid", "scheduled", "scheduled"]);
+    expect((await storage.getPcn(pcnId))?.amountPaid).toBe(0);
+  });
+
+  it("put the payment back in a running plan's balance when lost", async () => {
+    const { planId, invoiceId } = await startPlan();
+    const opened = await fakeGateway.openDispute(invoiceId, "fraudulent");
+
+    await fakeGateway.closeDispute(opened.id, "lost");
+
+    const { plan, installments, tasks, statuses } = await reload(planId);
+    expect(statuses).toEqual(["charged_back", "scheduled", "scheduled"]);
+    expect(plan).toMatchObject({ status: "active", disputedAt: null });
+    expect(tasks.map((task) => task.status)).toEqual(["done"]);
+    expect(getBalanceOutstanding(plan, installments, await storage.getRefundsByPlan(planId))).toBe(9000);
+  });
+
+  it("reopen the PCN of a completed plan when lost", async () => {
+    const { pcnId, planId, invoiceId } = await startPlan({ completed: true });
+    expect((await storage.getPcn(pcnId))?.status).toBe("settled");
+    const opened = await fakeGateway.openDispute(invoiceId, "fraudulent");
+
+    await fakeGateway.closeDispute(opened.id, "lost");
+
+    const { plan, statuses } = await reload(planId);
+    expect(statuses).toEqual(["charged_back", "paid", "paid"]);
+    expect(plan.status).toBe("cancelled");
+    // The two payments kept count towards the PCN; the one taken back is owed
+    expect(await storage.getPcn(pcnId)).toMatchObject({ status: "unpaid", amountPaid: 6000 });
+  });
+
+  it("are only charged back once", async () => {
+    const { pcnId, planId, invoiceId } = await startPlan({ completed: true });
+    const opened = await fakeGateway.openDispute(invoiceId, "fraudulent");
+    await fakeGateway.closeDispute(opened.id, "lost");
+
+    // A late or repeated update for a dispute that has already closed
+    const plan = (await storage.getPaymentPlan(planId))!;
+    await recordDisputeUpdate(plan, {
+      type: "dispute.updated",
+      id: `evt_${randomUUID()}`,
+      disputeId: opened.id,
+      invoiceId,
+      amount: 3000,
+      reason: "fraudulent",
+      status: "lost",
+      evidenceDueBy: null,
+      metadata: {},
+    });
+
+    expect((await reload(planId)).statuses).toEqual(["charged_back", "paid", "paid"]);
+    expect((await storage.getPcn(pcnId))?.amountPaid).toBe(6000);
+  });
+});
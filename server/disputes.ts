@@ -0,0 +1,140 @@
+import type { Dispute, DisputeStatus, PaymentPlan } from "@shared/schema";
+import { formatPence } from "@shared/installments";
+import { billingIntervalLabels, paymentMethodLabels, type BillingInterval, type PaymentMethod } from "@shared/payment-plans";
+import { completeDisputeTasks } from "./admin-tasks";
+import { HttpError } from "./errors";
+import { gateway } from "./gateway";
+import { recordChargeback } from "./ledger";
+import type { DisputeEvidence, DisputeUpdatedEvent } from "./payment-gateway";
+import { storage } from "./storage";
+
+function isClosedStatus(status: DisputeStatus): boolean {
+  return status === "won" || status === "lost";
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// Record a chargeback against its plan the first time the gateway reports it:
+// the plan is flagged and an operator gets a task to respond before the
+// evidence deadline. Later events move the dispute on; the outcome closes it,
+// and a lost dispute puts the payment back on the ledger as owed.
+export async function recordDisputeUpdate(plan: PaymentPlan, event: DisputeUpdatedEvent): Promise<void> {
+  const evidenceDueBy = event.evidenceDueBy ? new Date(event.evidenceDueBy) : null;
+  let dispute = await storage.getDisputeByStripeId(event.disputeId);
+  if (!dispute) {
+    dispute = await storage.createDispute({
+      planId: plan.id,
+      pcnId: plan.pcnId,
+      stripeDisputeId: event.disputeId,
+      stripeInvoiceId: event.invoiceId,
+      amount: event.amount,
+      reason: event.reason,
+      status: event.status,
+      evidenceDueBy,
+    });
+    await storage.updatePaymentPlan(plan.id, { disputedAt: new Date() });
+
+    if (event.status === "needs_response") {
+      const pcn = await storage.getPcn(plan.pcnId);
+      await storage.createAdminTask({
+        type: "dispute_response",
+        planId: plan.id,
+        disputeId: dispute.id,
+        summary: `Respond to a ${formatPence(event.amount)} chargeback (${event.reason}) on PCN ${pcn?.pcnNumber ?? plan.pcnId}`,
+        dueAt: evidenceDueBy,
+      });
+    }
+  } else if (dispute.closedAt) {
+    // The outcome has already been applied
+    return;
+  } else {
+    dispute = await storage.updateDispute(dispute.id, { status: event.status, evidenceDueBy });
+  }
+
+  if (isClosedStatus(event.status)) {
+    await closeDispute(plan, dispute, event.status);
+  }
+}
+
+async function closeDispute(plan: PaymentPlan, dispute: Dispute, status: DisputeStatus): Promise<void> {
+  await storage.updateDispute(dispute.id, { status, closedAt: new Date() });
+  await completeDisputeTasks(dispute.id, null);
+
+  if (status === "lost") {
+    await recordChargeback(plan, dispute.stripeInvoiceId, dispute.amount);
+  }
+  const stillOpen = (await storage.getDisputesByPlan(plan.id)).some((other) => !other.closedAt);
+  if (!stillOpen) {
+    await storage.updatePaymentPlan(plan.id, { disputedAt: null });
+  }
+}
+
+// Everything the card issuer needs to see that the driver owed the money and
+// agreed to pay it this way: the terms they accepted, the PCN and every
+// payment and refund on the plan. Operators can add notes of their own.
+export async function assembleEvidence(dispute: Dispute, notes?: string): Promise<DisputeEvidence> {
+  const plan = await storage.getPaymentPlan(dispute.planId);
+  const pcn = await storage.getPcn(dispute.pcnId);
+  if (!plan || !pcn) {
+    throw new Error(`Dispute ${dispute.id} has no plan or PCN`);
+  }
+  const customer = pcn.customerId ? await storage.getCustomer(pcn.customerId) : undefined;
+  const planInstallments = await storage.getInstallmentsByPlan(plan.id);
+  const planRefunds = await storage.getRefundsByPlan(plan.id);
+
+  const method = paymentMethodLabels[plan.paymentMethod as PaymentMethod] ?? plan.paymentMethod;
+  const frequency = billingIntervalLabels[plan.interval as BillingInterval]?.adjective ?? plan.interval;
+  const schedule =
+    plan.type === "full"
+      ? `a single payment of ${formatPence(plan.totalAmount)}`
+      : plan.type === "deposit"
+        ? `a deposit of ${formatPence(planInstallments[0]?.amount ?? 0)} followed by ${plan.installmentCount - 1} ${frequency} payments, totalling ${formatPence(plan.totalAmount)}`
+        : `${plan.installmentCount} ${frequency} payments totalling ${formatPence(plan.totalAmount)}`;
+  const acceptedAt = plan.termsAcceptedAt ?? plan.createdAt;
+
+  const paymentHistory = [
+    ...planInstallments.map(
+      (installment) =>
+        `Payment ${installment.sequence}: ${formatPence(installment.amount)} due ${formatDate(installment.dueDate)}, ${installment.status}` +
+        (installment.paidAt ? ` (paid ${formatDate(installment.paidAt)})` : "") +
+        (installment.failureCount > 0 ? `, ${installment.failureCount} failed attempt(s)` : ""),
+    ),
+    ...planRefunds
+      .filter((refund) => refund.status !== "failed")
+      .map((refund) => `Refund: ${formatPence(refund.amount)} on ${formatDate(refund.createdAt)} (${refund.reason})`),
+  ].join("\n");
+
+  return {
+    customerEmail: customer?.email ?? null,
+    productDescription: `Payment of penalty charge notice ${pcn.pcnNumber} for vehicle ${pcn.vehicleRegistration}`,
+    serviceDate: formatDate(pcn.issuedAt),
+    termsAcceptance: `On ${acceptedAt.toISOString()} the driver accepted the terms and conditions on the PCN payment portal and authorised ${schedule} by ${method}.`,
+    pcnRecord: `PCN ${pcn.pcnNumber} was issued on ${formatDate(pcn.issuedAt)} to vehicle ${pcn.vehicleRegistration} for ${formatPence(pcn.amountDue)}. The driver chose to pay it through the portal.`,
+    paymentHistory,
+    notes: notes?.trim() || undefined,
+  };
+}
+
+// Send the assembled evidence through the gateway. It can only be sent once,
+// while the dispute still needs a response.
+export async function submitDisputeEvidence(id: string, admin: string, notes?: string): Promise<Dispute> {
+  const dispute = await storage.getDispute(id);
+  if (!dispute) {
+    throw new HttpError(404, "Dispute not found");
+  }
+  if (dispute.status !== "needs_response" || dispute.closedAt) {
+    throw new HttpError(409, "Evidence can only be submitted while the dispute needs a response");
+  }
+
+  const evidence = await assembleEvidence(dispute, notes);
+  await gateway.submitDisputeEvidence(dispute.stripeDisputeId, evidence);
+  const updated = await storage.updateDispute(dispute.id, {
+    status: "under_review",
+    evidenceSubmittedAt: new Date(),
+    evidenceSubmittedBy: admin,
+  });
+  await completeDisputeTasks(dispute.id, admin);
+  return updated;
+}
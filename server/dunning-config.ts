@@ -0,0 +1,34 @@
+import { z } from "zod";
+
+// How failed installments are chased before a plan defaults
+export const dunningPolicySchema = z.object({
+  // Days from each failed attempt to the next retry; the last value repeats
+  retryDelaysDays: z.array(z.number().int().positive()).min(1),
+  // Failed attempts on one installment (the original charge included) after
+  // which the plan defaults
+  maxFailures: z.number().int().positive(),
+});
+
+export type DunningPolicy = z.infer<typeof dunningPolicySchema>;
+
+export const defaultDunningPolicy: DunningPolicy = {
+  retryDelaysDays: [3, 5, 7],
+  maxFailures: 4,
+};
+
+// e.g. DUNNING_RETRY_DAYS=2,4 DUNNING_MAX_FAILURES=3
+function loadDunningPolicy(): DunningPolicy {
+  const retryDays = process.env.DUNNING_RETRY_DAYS?.split(",").map((day) => Number(day.trim()));
+  const maxFailures = process.env.DUNNING_MAX_FAILURES;
+
+  const parsed = dunningPolicySchema.safeParse({
+    retryDelaysDays: retryDays ?? defaultDunningPolicy.retryDelaysDays,
+    maxFailures: maxFailures ? Number(maxFailures) : defaultDunningPolicy.maxFailures,
+  });
+  if (!parsed.success) {
+    throw new Error(`Invalid dunning configuration: ${parsed.error.message}`);
+  }
+  return parsed.data;
+}
+
+export const dunningPolicy = loadDunningPolicy();
@@ -0,0 +1,136 @@
+import { randomUUID } from "crypto";
+import { addDays, addHours } from "date-fns";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { handleFailedInstallment, runDueRetries } from "./dunning";
+import { gateway } from "./gateway";
+import { createPlanLedger, recordInstallmentFailed, recordInstallmentPaid } from "./ledger";
+import { storage } from "./storage";
+
+// A running card plan whose first installment has been paid and whose second
+// has just failed
+async function createFailingPlan() {
+  const customer = await storage.createCustomer({ email: `${randomUUID()}@example.com` });
+  const pcn = await storage.createPcn({
+    pcnNumber: `PCN-${randomUUID()}`,
+    vehicleRegistration: "AB12CDE",
+    amountDue: 9000,
+    discountPercent: 50,
+  });
+  await storage.updatePcn(pcn.id, { customerId: customer.id });
+  const { plan } = await createPlanLedger({
+    pcnId: pcn.id,
+    type: "installments",
+    paymentMethod: "card",
+    totalAmount: 9000,
+    installmentAmounts: [3000, 3000, 3000],
+    interval: "month",
+    startDate: new Date(),
+    termsAcceptedAt: new Date(),
+  });
+  await recordInstallmentPaid(plan, `in_${randomUUID()}`, new Date());
+  const invoiceId = `in_${randomUUID()}`;
+  const failed = await recordInstallmentFailed((await storage.getPaymentPlan(plan.id))!, invoiceId);
+  return { pcn, plan: (await storage.getPaymentPlan(plan.id))!, installment: failed! };
+}
+
+// Counts one more failed attempt on the installment and hands it to dunning
+async function failAgain(planId: string, invoiceId: string, failedAt: Date) {
+  const plan = (await storage.getPaymentPlan(planId))!;
+  const installment = await recordInstallmentFailed(plan, invoiceId);
+  await handleFailedInstallment(plan, installment!, failedAt);
+  return (await storage.getInstallmentsByPlan(planId)).find((i) => i.stripeInvoiceId === invoiceId)!;
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("handleFailedInstallment", () => {
+  it("schedules a retry under the policy and emails the driver", async () => {
+    const { plan, installment } = await createFailingPlan();
+    const failedAt = new Date(2026, 4, 1, 9);
+
+    await handleFailedInstallment(plan, installment, failedAt);
+
+    const [retrying] = (await storage.getInstallmentsByPlan(plan.id)).filter((i) => i.status === "failed");
+    expect(retrying.nextRetryAt).toEqual(addDays(failedAt, 3));
+    const notifications = await storage.getNotificationsByPlan(plan.id);
+    expect(notifications).toMatchObject([{ type: "installment_failed", installmentId: installment.id }]);
+    expect(notifications[0].body).toContain("If the next 3 attempts fail");
+  });
+
+  it("waits longer after each failure, repeating the last delay", async () => {
+    const { plan, installment } = await createFailingPlan();
+    const failedAt = new Date(2026, 4, 1, 9);
+    await handleFailedInstallment(plan, installment, failedAt);
+
+    expect((await failAgain(plan.id, installment.stripeInvoiceId!, failedAt)).nextRetryAt).toEqual(addDays(failedAt, 5));
+    expect((await failAgain(plan.id, installment.stripeInvoiceId!, failedAt)).nextRetryAt).toEqual(addDays(failedAt, 7));
+  });
+
+  it("defaults the plan once an installment has failed too many times", async () => {
+    const { pcn, plan, installment } = await createFailingPlan();
+    const cancelPlan = vi.spyOn(gateway, "cancelPlan");
+    const failedAt = new Date();
+    await handleFailedInstallment(plan, installment, failedAt);
+    await failAgain(plan.id, installment.stripeInvoiceId!, failedAt);
+    await failAgain(plan.id, installment.stripeInvoiceId!, failedAt);
+    expect((await storage.getPaymentPlan(plan.id))?.status).toBe("past_due");
+
+    await failAgain(plan.id, installment.stripeInvoiceId!, failedAt);
+
+    expect((await storage.getPaymentPlan(plan.id))?.status).toBe("defaulted");
+    expect((await storage.getInstallmentsByPlan(plan.id)).map((i) => i.status)).toEqual(["paid", "cancelled", "cancelled"]);
+    expect(cancelPlan).toHaveBeenCalledWith(expect.objectContaining({ id: plan.id }));
+    // The discount is lost and what was paid stays with the PCN
+    expect(await storage.getPcn(pcn.id)).toMatchObject({ discountPercent: 0, amountPaid: 3000 });
+    const notifications = await storage.getNotificationsByPlan(plan.id);
+    expect(notifications.at(-1)?.type).toBe("plan_defaulted");
+  });
+});
+
+describe("runDueRetries", () => {
+  it("retries installments whose retry date has come", async () => {
+    const { plan, installment } = await createFailingPlan();
+    const retryInstallment = vi.spyOn(gateway, "retryInstallment").mockResolvedValue();
+    const now = new Date();
+    await handleFailedInstallment(plan, installment, addDays(now, -3));
+
+    expect(await runDueRetries(now)).toBeGreaterThanOrEqual(1);
+    expect(retryInstallment).toHaveBeenCalledWith(installment.stripeInvoiceId);
+    expect((await storage.getInstallmentsByPlan(plan.id)).find((i) => i.id === installment.id)?.nextRetryAt).toBeNull();
+  });
+
+  it("leaves installments not yet due alone", async () => {
+    const { plan, installment } = await createFailingPlan();
+    const retryInstallment = vi.spyOn(gateway, "retryInstallment").mockResolvedValue();
+    const now = new Date();
+    await handleFailedInstallment(plan, installment, now);
+
+    await runDueRetries(now);
+    expect(retryInstallment).not.toHaveBeenCalledWith(installment.stripeInvoiceId);
+  });
+
+  it("tries again an hour later when the gateway can't retry", async () => {
+    const { plan, installment } = await createFailingPlan();
+    vi.spyOn(gateway, "retryInstallment").mockRejectedValue(new Error("Stripe is unavailable"));
+    const now = new Date();
+    await handleFailedInstallment(plan, installment, addDays(now, -3));
+
+    await runDueRetries(now);
+    expect((await storage.getInstallmentsByPlan(plan.id)).find((i) => i.id === installment.id)?.nextRetryAt).toEqual(
+      addHours(now, 1),
+    );
+  });
+
+  it("doesn't retry installments of a plan that has closed", async () => {
+    const { plan, installment } = await createFailingPlan();
+    const retryInstallment = vi.spyOn(gateway, "retryInstallment").mockResolvedValue();
+    const now = new Date();
+    await handleFailedInstallment(plan, installment, addDays(now, -3));
+    await storage.updatePaymentPlan(plan.id, { status: "cancelled" });
+
+    await runDueRetries(now);
+    expect(retryInstallment).not.toHaveBeenCalledWith(installment.stripeInvoiceId);
+  });
+});
@@ -0,0 +1,96 @@
+import { addDays, addHours } from "date-fns";
+import type { Installment, PaymentPlan } from "@shared/schema";
+import { formatPence } from "@shared/installments";
+import { getPcnCharges } from "@shared/pcn-charges";
+import { dunningPolicy } from "./dunning-config";
+import { escalationRules } from "./escalation-config";
+import { gateway } from "./gateway";
+import { recordPlanDefault } from "./ledger";
+import { notifyDriver } from "./notifications";
+import { getPaymentMethodUpdateUrl } from "./plan-access";
+import { storage } from "./storage";
+import { getDomainUrl } from "./urls";
+
+// Days to wait after the nth failed attempt before retrying
+function retryDelayDays(failureCount: number): number {
+  const delays = dunningPolicy.retryDelaysDays;
+  return delays[Math.min(failureCount, delays.length) - 1];
+}
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString("en-GB", { day: "numeric", month: "long", year: "numeric" });
+}
+
+// After a failed collection attempt: schedule the next retry under the
+// operator's policy and tell the driver, or default the plan once the
+// installment has failed too many times.
+export async function handleFailedInstallment(plan: PaymentPlan, installment: Installment, failedAt: Date): Promise<void> {
+  if (installment.failureCount >= dunningPolicy.maxFailures) {
+    return defaultPlan(plan, installment);
+  }
+
+  const nextRetryAt = addDays(failedAt, retryDelayDays(installment.failureCount));
+  await storage.updateInstallment(installment.id, { nextRetryAt });
+
+  const attemptsLeft = dunningPolicy.maxFailures - installment.failureCount;
+  await notifyDriver(plan, installment, "installment_failed", (pcnNumber) => ({
+    subject: `Your payment for PCN ${pcnNumber} didn't go through`,
+    body: [
+      `We couldn't collect payment ${installment.sequence} of ${formatPence(installment.amount)} for PCN ${pcnNumber}.`,
+      `We'll try again on ${formatDate(nextRetryAt)}. If the next ${attemptsLeft === 1 ? "attempt fails" : `${attemptsLeft} attempts fail`}, your payment plan will be cancelled and the full penalty charge will be due.`,
+      `${plan.paymentMethod === "bacs_debit" ? "Update your bank details" : "Update your card"}: ${getPaymentMethodUpdateUrl(plan.id)}`,
+    ].join("\n\n"),
+  }));
+}
+
+async function defaultPlan(plan: PaymentPlan, installment: Installment): Promise<void> {
+  await recordPlanDefault(plan);
+  await gateway.cancelPlan(plan);
+
+  const pcn = await storage.getPcn(plan.pcnId);
+  const owed = pcn ? getPcnCharges(pcn, escalationRules).fullAmount : 0;
+  await notifyDriver(plan, installment, "plan_defaulted", (pcnNumber) => ({
+    subject: `Your payment plan for PCN ${pcnNumber} has been cancelled`,
+    body: [
+      `After ${installment.failureCount} failed attempts to collect payment ${installment.sequence}, your payment plan for PCN ${pcnNumber} has been cancelled and no more payments will be taken.`,
+      `${formatPence(owed)} is now due on the PCN, which is the full penalty charge less what you have already paid. Pay it at ${getDomainUrl()}`,
+    ].join("\n\n"),
+  }));
+}
+
+// Retry failed installments whose retry date has come. The outcome arrives as
+// an installment.* event like any other charge.
+export async function runDueRetries(now: Date = new Date()): Promise<number> {
+  const due = await storage.getInstallmentsDueForRetry(now);
+  for (const installment of due) {
+    // Cleared first so an overlapping run can't charge twice
+    await storage.updateInstallment(installment.id, { nextRetryAt: null });
+
+    const plan = await storage.getPaymentPlan(installment.planId);
+    if (!plan || (plan.status !== "active" && plan.status !== "past_due")) continue;
+    await retryInstallment(installment, now);
+  }
+  return due.length;
+}
+
+// Once the driver has saved new payment details, retry anything still waiting
+// for a dunning retry straight away rather than on its retry date
+export async function retryFailedInstallments(plan: PaymentPlan, now: Date = new Date()): Promise<void> {
+  const planInstallments = await storage.getInstallmentsByPlan(plan.id);
+  for (const installment of planInstallments) {
+    if (installment.status !== "failed" || !installment.nextRetryAt) continue;
+
+    await storage.updateInstallment(installment.id, { nextRetryAt: null });
+    await retryInstallment(installment, now);
+  }
+}
+
+async function retryInstallment(installment: Installment, now: Date): Promise<void> {
+  if (!installment.stripeInvoiceId) return;
+  try {
+    await gateway.retryInstallment(installment.stripeInvoiceId);
+  } catch (error: any) {
+    console.error(`Could not retry installment ${installment.id}:`, error.message);
+    await storage.updateInstallment(installment.id, { nextRetryAt: addHours(now, 1) });
+  }
+}
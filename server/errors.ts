@@ -0,0 +1,8 @@
+// Errors carrying the HTTP status the API should answer with. Route handlers
+// (and the error middleware in index.ts) read `status` off the error.
+export class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
@@ -0,0 +1,25 @@
+import { defaultEscalationRules, escalationRulesSchema, type EscalationRules } from "@shared/pcn-charges";
+
+// The issuer's escalation stages, as JSON in PCN_ESCALATION_RULES, e.g.
+// [{"stage":"pcn","label":"Penalty Charge Notice","startsAfterDays":0,"surchargePercent":0,"plansAllowed":true},
+//  {"stage":"charge_certificate","label":"Charge Certificate","startsAfterDays":56,"surchargePercent":50,"plansAllowed":false}]
+function loadEscalationRules(): EscalationRules {
+  const raw = process.env.PCN_ESCALATION_RULES;
+  if (!raw) {
+    return defaultEscalationRules;
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch (error: any) {
+    throw new Error(`Invalid PCN escalation configuration: ${error.message}`);
+  }
+  const parsed = escalationRulesSchema.safeParse(json);
+  if (!parsed.success) {
+    throw new Error(`Invalid PCN escalation configuration: ${parsed.error.message}`);
+  }
+  return parsed.data;
+}
+
+export const escalationRules = loadEscalationRules();
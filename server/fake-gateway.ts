@@ -0,0 +1,858 @@
+import type { Express } from "express";
+import type { IncomingHttpHeaders } from "http";
+import { randomUUID } from "crypto";
+import { addBusinessDays, addDays } from "date-fns";
+import type { Customer, DisputeStatus, PaymentPlan } from "@shared/schema";
+import { getInstallmentDueDates, type BillingInterval, type PaymentMethod } from "@shared/payment-plans";
+import { formatPence } from "@shared/installments";
+import type {
+  CheckoutCompletedEvent,
+  CheckoutResult,
+  DisputeEvidence,
+  GatewayCheckout,
+  GatewayEvent,
+  PaymentGateway,
+  PaymentCheckoutRequest,
+  PaymentMethodUpdateRequest,
+  PaymentMethodUpdatedEvent,
+  PlanCheckoutRequest,
+  RefundRequest,
+  RefundResult,
+  ScheduledCharge,
+  SettlementCheckoutRequest,
+} from "./payment-gateway";
+
+// Working days a Direct Debit takes to clear after it is submitted
+const BACS_CLEARING_DAYS = 3;
+
+// Days the operator has to respond to a new dispute
+const DISPUTE_RESPONSE_DAYS = 7;
+
+// Bank details entered on the fake Direct Debit form
+interface FakeBankDetails {
+  accountHolderName: string;
+  sortCode: string;
+  accountNumber: string;
+}
+
+interface FakeMandate {
+  reference: string;
+  accountHolderName: string;
+  sortCode: string;
+  accountNumberLast4: string;
+}
+
+interface FakeCheckout {
+  id: string;
+  mode: "payment" | "subscription";
+  paymentMethod: PaymentMethod;
+  gatewayCustomerId: string;
+  installmentAmounts: number[];
+  interval: BillingInterval;
+  // Installments start then instead of at checkout
+  firstPaymentDate?: Date;
+  metadata: Record<string, string>;
+  successUrl: string;
+  cancelUrl: string;
+  status: "open" | "complete" | "expired";
+  customerEmail: string;
+  // Set once the checkout is paid
+  subscriptionId?: string;
+  invoiceId?: string;
+}
+
+interface FakeSubscription {
+  id: string;
+  gatewayCustomerId: string;
+  paymentMethod: PaymentMethod;
+  // Set for Direct Debit subscriptions
+  mandate?: FakeMandate;
+  installmentAmounts: number[];
+  dueDates: Date[];
+  nextInstallment: number;
+  metadata: Record<string, string>;
+  status: "active" | "past_due" | "canceled";
+  // Set from the fake checkout page to rehearse failed installments
+  failPayments: boolean;
+}
+
+// A payment method update started from the plan page
+interface FakeSetup {
+  id: string;
+  subscriptionId: string;
+  paymentMethod: PaymentMethod;
+  metadata: Record<string, string>;
+  successUrl: string;
+  cancelUrl: string;
+  status: "open" | "complete";
+  // What the driver saved, applied to the subscription by applyPaymentMethodUpdate
+  failPayments?: boolean;
+  mandate?: FakeMandate;
+}
+
+interface FakeInvoice {
+  id: string;
+  // Unset for one-off payments
+  subscriptionId?: string;
+  amount: number;
+  // Direct Debits are "processing" until settlesAt, then paid or open (bounced)
+  status: "paid" | "open" | "processing" | "void";
+  createdAt: Date;
+  paidAt?: Date;
+  settlesAt?: Date;
+  failOnSettlement?: boolean;
+  refunded: number;
+}
+
+// A chargeback raised from the fake dispute routes
+interface FakeDispute {
+  id: string;
+  invoiceId: string;
+  subscriptionId?: string;
+  amount: number;
+  reason: string;
+  status: DisputeStatus;
+  evidenceDueBy: Date;
+  metadata: Record<string, string>;
+  evidence?: DisputeEvidence;
+}
+
+export interface CompleteCheckoutOptions {
+  failFuturePayments: boolean;
+  // Required for Direct Debit checkouts: the details the driver confirmed
+  mandate?: FakeBankDetails;
+}
+
+export interface CompleteSetupOptions {
+  failFuturePayments: boolean;
+  // Required for Direct Debit plans: the new bank account
+  bankDetails?: FakeBankDetails;
+}
+
+type EventHandler = (event: GatewayEvent) => Promise<unknown>;
+type ClockListener = (now: Date) => Promise<unknown>;
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+// Throws with a message for the form when the details are unusable
+function parseBankDetails(body: Record<string, unknown> | undefined): FakeBankDetails {
+  const accountHolderName = String(body?.accountHolderName ?? "").trim();
+  const sortCode = String(body?.sortCode ?? "").replace(/[\s-]/g, "");
+  const accountNumber = String(body?.accountNumber ?? "").replace(/\s/g, "");
+  if (!accountHolderName) {
+    throw new Error("Enter the name of the account holder");
+  }
+  if (!/^\d{6}$/.test(sortCode)) {
+    throw new Error("Sort code must be 6 digits");
+  }
+  if (!/^\d{8}$/.test(accountNumber)) {
+    throw new Error("Account number must be 8 digits");
+  }
+  return { accountHolderName, sortCode, accountNumber };
+}
+
+function toMandate(details: FakeBankDetails): FakeMandate {
+  return {
+    reference: `FAKE-${randomUUID().slice(0, 8).toUpperCase()}`,
+    accountHolderName: details.accountHolderName,
+    sortCode: details.sortCode,
+    accountNumberLast4: details.accountNumber.slice(-4),
+  };
+}
+
+// In-memory stand-in for Stripe. Checkout happens on a local page and
+// installments fall due on a clock that can be moved forward on demand;
+// events go straight to the portal's event pipeline instead of a webhook.
+export class FakeGateway implements PaymentGateway {
+  readonly name = "fake";
+  private clockOffsetMs = 0;
+  private checkouts = new Map<string, FakeCheckout>();
+  private subscriptions = new Map<string, FakeSubscription>();
+  private invoices = new Map<string, FakeInvoice>();
+  private setups = new Map<string, FakeSetup>();
+  private disputes = new Map<string, FakeDispute>();
+  private eventHandler?: EventHandler;
+  private clockListener?: ClockListener;
+
+  constructor(private baseUrl: string) {}
+
+  setEventHandler(handler: EventHandler) {
+    this.eventHandler = handler;
+  }
+
+  // Called after the clock moves, so work timed by the portal (such as
+  // dunning retries) runs against the fake clock too
+  setClockListener(listener: ClockListener) {
+    this.clockListener = listener;
+  }
+
+  now(): Date {
+    return new Date(Date.now() + this.clockOffsetMs);
+  }
+
+  async createCustomer(_customer: Customer): Promise<string> {
+    return `cus_fake_${randomUUID()}`;
+  }
+
+  async createPlanCheckout(request: PlanCheckoutRequest): Promise<CheckoutResult> {
+    return this.openCheckout({
+      id: `cs_fake_${randomUUID()}`,
+      mode: "subscription",
+      paymentMethod: request.paymentMethod,
+      gatewayCustomerId: request.gatewayCustomerId,
+      installmentAmounts: request.installmentAmounts,
+      interval: request.interval,
+      firstPaymentDate: request.firstPaymentDate ?? undefined,
+      metadata: request.metadata,
+      successUrl: request.successUrl,
+      cancelUrl: request.cancelUrl,
+      status: "open",
+      customerEmail: request.customer.email,
+    });
+  }
+
+  async createPaymentCheckout(request: PaymentCheckoutRequest): Promise<CheckoutResult> {
+    return this.openCheckout({
+      id: `cs_fake_${randomUUID()}`,
+      mode: "payment",
+      paymentMethod: "card",
+      gatewayCustomerId: request.gatewayCustomerId,
+      installmentAmounts: [request.plan.totalAmount],
+      interval: "month",
+      metadata: request.metadata,
+      successUrl: request.successUrl,
+      cancelUrl: request.cancelUrl,
+      status: "open",
+      customerEmail: request.customer.email,
+    });
+  }
+
+  async createSettlementCheckout(request: SettlementCheckoutRequest): Promise<CheckoutResult> {
+    return this.openCheckout({
+      id: `cs_fake_${randomUUID()}`,
+      mode: "payment",
+      paymentMethod: "card",
+      gatewayCustomerId: request.gatewayCustomerId,
+      installmentAmounts: [request.amount],
+      interval: "month",
+      metadata: request.metadata,
+      successUrl: request.successUrl,
+      cancelUrl: request.cancelUrl,
+      status: "open",
+      customerEmail: request.customer.email,
+    });
+  }
+
+  private openCheckout(checkout: FakeCheckout): CheckoutResult {
+    this.checkouts.set(checkout.id, checkout);
+    // Always a hosted page: there is nothing to embed
+    return { id: checkout.id, url: `${this.baseUrl}/fake-gateway/checkout/${checkout.id}`, clientSecret: null };
+  }
+
+  async getCheckout(checkoutId: string): Promise<GatewayCheckout | undefined> {
+    const checkout = this.checkouts.get(checkoutId);
+    if (!checkout) return undefined;
+
+    const invoices = Array.from(this.invoices.values()).filter(
+      (invoice) =>
+        invoice.id === checkout.invoiceId || (checkout.subscriptionId && invoice.subscriptionId === checkout.subscriptionId),
+    );
+    const subscription = checkout.subscriptionId ? this.subscriptions.get(checkout.subscriptionId) : undefined;
+    const upcoming =
+      subscription && subscription.status !== "canceled"
+        ? subscription.dueDates
+            .slice(subscription.nextInstallment)
+            .map((dueDate, i) => ({
+              amount: subscription.installmentAmounts[subscription.nextInstallment + i],
+              dueDate: dueDate.toISOString(),
+            }))
+        : [];
+
+    return {
+      id: checkout.id,
+      status: checkout.status,
+      customerEmail: checkout.customerEmail,
+      metadata: checkout.metadata,
+      payments: invoices
+        .filter((invoice) => invoice.status === "paid")
+        .map((invoice) => ({ amount: invoice.amount, paidAt: (invoice.paidAt ?? invoice.createdAt).toISOString() })),
+      processing: invoices
+        .filter((invoice) => invoice.status === "processing")
+        .map((invoice) => ({ amount: invoice.amount, submittedAt: invoice.createdAt.toISOString() })),
+      upcoming,
+    };
+  }
+
+  async expireCheckout(checkoutId: string): Promise<void> {
+    const checkout = this.checkouts.get(checkoutId);
+    if (checkout?.status === "open") {
+      checkout.status = "expired";
+      await this.emit({ type: "checkout.expired", checkoutId, metadata: checkout.metadata });
+    }
+  }
+
+  async startPlanSchedule(event: CheckoutCompletedEvent): Promise<{ scheduleId: string }> {
+    return { scheduleId: `sub_sched_fake_${event.subscriptionId}` };
+  }
+
+  async cancelPlan(plan: PaymentPlan): Promise<void> {
+    const subscription = plan.stripeSubscriptionId && this.subscriptions.get(plan.stripeSubscriptionId);
+    if (subscription && subscription.status !== "canceled") {
+      subscription.status = "canceled";
+      await this.emit({ type: "plan.ended", subscriptionId: subscription.id, metadata: subscription.metadata });
+    }
+  }
+
+  async createPaymentMethodUpdate(request: PaymentMethodUpdateRequest): Promise<{ id: string; url: string }> {
+    const subscription = request.plan.stripeSubscriptionId && this.subscriptions.get(request.plan.stripeSubscriptionId);
+    if (!subscription || subscription.status === "canceled") {
+      throw new Error(`Plan ${request.plan.id} has no active subscription`);
+    }
+
+    const setup: FakeSetup = {
+      id: `cs_fake_setup_${randomUUID()}`,
+      subscriptionId: subscription.id,
+      paymentMethod: request.paymentMethod,
+      metadata: request.metadata,
+      successUrl: request.successUrl,
+      cancelUrl: request.cancelUrl,
+      status: "open",
+    };
+    this.setups.set(setup.id, setup);
+    return { id: setup.id, url: `${this.baseUrl}/fake-gateway/setup/${setup.id}` };
+  }
+
+  async applyPaymentMethodUpdate(event: PaymentMethodUpdatedEvent, _plan: PaymentPlan): Promise<void> {
+    const setup = this.setups.get(event.checkoutId);
+    const subscription = setup && this.subscriptions.get(setup.subscriptionId);
+    if (!setup || setup.status !== "complete" || !subscription) {
+      throw new Error(`Checkout ${event.checkoutId} did not save a payment method`);
+    }
+    subscription.failPayments = setup.failPayments ?? false;
+    if (setup.mandate) {
+      subscription.mandate = setup.mandate;
+    }
+  }
+
+  async reschedulePlan(plan: PaymentPlan, charges: ScheduledCharge[]): Promise<void> {
+    const subscription = plan.stripeSubscriptionId && this.subscriptions.get(plan.stripeSubscriptionId);
+    if (!subscription || subscription.status === "canceled") {
+      throw new Error(`Plan ${plan.id} has no active subscription`);
+    }
+    const billed = subscription.nextInstallment;
+    if (charges.length !== subscription.installmentAmounts.length - billed) {
+      throw new Error(`Plan ${plan.id} has ${subscription.installmentAmounts.length - billed} installments left to bill`);
+    }
+
+    subscription.installmentAmounts = [...subscription.installmentAmounts.slice(0, billed), ...charges.map((charge) => charge.amount)];
+    subscription.dueDates = [...subscription.dueDates.slice(0, billed), ...charges.map((charge) => charge.dueDate)];
+  }
+
+  async voidInstallment(invoiceId: string): Promise<void> {
+    const invoice = this.invoices.get(invoiceId);
+    if (invoice?.status === "open") {
+      invoice.status = "void";
+    }
+  }
+
+  async refundPayment(request: RefundRequest): Promise<RefundResult> {
+    const invoice = this.invoices.get(request.invoiceId);
+    if (!invoice || invoice.status !== "paid") {
+      throw new Error(`No payment found for invoice ${request.invoiceId}`);
+    }
+
+    const amount = request.amount ?? invoice.amount - invoice.refunded;
+    if (amount <= 0 || invoice.refunded + amount > invoice.amount) {
+      throw new Error("Refund exceeds the amount paid");
+    }
+    invoice.refunded += amount;
+    return { id: `re_fake_${randomUUID()}`, status: "succeeded", amount };
+  }
+
+  async submitDisputeEvidence(disputeId: string, evidence: DisputeEvidence): Promise<void> {
+    const dispute = this.disputes.get(disputeId);
+    if (!dispute || dispute.status !== "needs_response") {
+      throw new Error(`Dispute ${disputeId} is not awaiting evidence`);
+    }
+    dispute.evidence = evidence;
+    dispute.status = "under_review";
+    await this.emitDispute(dispute);
+  }
+
+  async parseWebhook(_rawBody: Buffer, _headers: IncomingHttpHeaders): Promise<GatewayEvent | null> {
+    throw new Error("The fake payment gateway does not receive webhooks");
+  }
+
+  findCheckout(id: string): FakeCheckout | undefined {
+    return this.checkouts.get(id);
+  }
+
+  // Called from the fake checkout page: starts the subscription and takes the
+  // first installment straight away, as Stripe Checkout does. Direct Debits
+  // are only submitted here and clear a few working days later.
+  async completeCheckout(id: string, options: CompleteCheckoutOptions): Promise<string> {
+    const checkout = this.checkouts.get(id);
+    if (!checkout || checkout.status !== "open") {
+      throw new Error("Checkout is not open");
+    }
+    if (checkout.paymentMethod === "bacs_debit" && !options.mandate) {
+      throw new Error("The Direct Debit mandate has not been confirmed");
+    }
+    checkout.status = "complete";
+    const successUrl = checkout.successUrl.replace("{CHECKOUT_SESSION_ID}", checkout.id);
+
+    if (checkout.mode === "payment") {
+      const invoice: FakeInvoice = {
+        id: `in_fake_${randomUUID()}`,
+        amount: checkout.installmentAmounts[0],
+        status: "paid",
+        createdAt: this.now(),
+        paidAt: this.now(),
+        refunded: 0,
+      };
+      this.invoices.set(invoice.id, invoice);
+      checkout.invoiceId = invoice.id;
+      await this.emit({
+        type: "payment.completed",
+        checkoutId: checkout.id,
+        gatewayCustomerId: checkout.gatewayCustomerId,
+        invoiceId: invoice.id,
+        amount: invoice.amount,
+        paidAt: this.now().toISOString(),
+        metadata: checkout.metadata,
+      });
+      return successUrl;
+    }
+
+    const subscription: FakeSubscription = {
+      id: `sub_fake_${randomUUID()}`,
+      gatewayCustomerId: checkout.gatewayCustomerId,
+      paymentMethod: checkout.paymentMethod,
+      mandate: options.mandate && toMandate(options.mandate),
+      installmentAmounts: checkout.installmentAmounts,
+      dueDates: getInstallmentDueDates(
+        checkout.firstPaymentDate ?? this.now(),
+        checkout.installmentAmounts.length,
+        checkout.interval,
+      ),
+      nextInstallment: 0,
+      metadata: checkout.metadata,
+      status: "active",
+      failPayments: false,
+    };
+    this.subscriptions.set(subscription.id, subscription);
+    checkout.subscriptionId = subscription.id;
+
+    await this.emit({
+      type: "checkout.completed",
+      checkoutId: checkout.id,
+      gatewayCustomerId: checkout.gatewayCustomerId,
+      subscriptionId: subscription.id,
+      metadata: checkout.metadata,
+    });
+    await this.billDueInstallments();
+    subscription.failPayments = options.failFuturePayments;
+
+    return successUrl;
+  }
+
+  findSetup(id: string): FakeSetup | undefined {
+    return this.setups.get(id);
+  }
+
+  // Called from the fake payment method page
+  async completePaymentMethodUpdate(id: string, options: CompleteSetupOptions): Promise<string> {
+    const setup = this.setups.get(id);
+    if (!setup || setup.status !== "open") {
+      throw new Error("Checkout is not open");
+    }
+    if (setup.paymentMethod === "bacs_debit" && !options.bankDetails) {
+      throw new Error("The Direct Debit mandate has not been confirmed");
+    }
+    setup.status = "complete";
+    setup.failPayments = options.failFuturePayments;
+    setup.mandate = options.bankDetails && toMandate(options.bankDetails);
+
+    await this.emit({ type: "payment_method.updated", checkoutId: setup.id, metadata: setup.metadata });
+    return setup.successUrl;
+  }
+
+  // Stand-in for the driver's bank disputing a paid invoice
+  async openDispute(invoiceId: string, reason: string): Promise<FakeDispute> {
+    const invoice = this.invoices.get(invoiceId);
+    if (!invoice || invoice.status !== "paid" || invoice.refunded >= invoice.amount) {
+      throw new Error(`Invoice ${invoiceId} has no payment to dispute`);
+    }
+    if (Array.from(this.disputes.values()).some((dispute) => dispute.invoiceId === invoiceId)) {
+      throw new Error(`Invoice ${invoiceId} is already disputed`);
+    }
+
+    // One-off payments carry their checkout's metadata, as Stripe's invoices do
+    const subscription = invoice.subscriptionId ? this.subscriptions.get(invoice.subscriptionId) : undefined;
+    const checkout = Array.from(this.checkouts.values()).find((candidate) => candidate.invoiceId === invoiceId);
+    const dispute: FakeDispute = {
+      id: `dp_fake_${randomUUID()}`,
+      invoiceId,
+      subscriptionId: invoice.subscriptionId,
+      amount: invoice.amount - invoice.refunded,
+      reason,
+      status: "needs_response",
+      evidenceDueBy: addDays(this.now(), DISPUTE_RESPONSE_DAYS),
+      metadata: subscription?.metadata ?? checkout?.metadata ?? {},
+    };
+    this.disputes.set(dispute.id, dispute);
+    await this.emitDispute(dispute);
+    return dispute;
+  }
+
+  // The bank's decision. A lost dispute keeps the payment, so nothing is left
+  // on the invoice to refund.
+  async closeDispute(id: string, outcome: "won" | "lost"): Promise<FakeDispute> {
+    const dispute = this.disputes.get(id);
+    if (!dispute || dispute.status === "won" || dispute.status === "lost") {
+      throw new Error(`Dispute ${id} is not open`);
+    }
+    dispute.status = outcome;
+    if (outcome === "lost") {
+      const invoice = this.invoices.get(dispute.invoiceId);
+      if (invoice) {
+        invoice.refunded = invoice.amount;
+      }
+    }
+    await this.emitDispute(dispute);
+    return dispute;
+  }
+
+  private async emitDispute(dispute: FakeDispute) {
+    await this.emit({
+      type: "dispute.updated",
+      disputeId: dispute.id,
+      subscriptionId: dispute.subscriptionId,
+      invoiceId: dispute.invoiceId,
+      amount: dispute.amount,
+      reason: dispute.reason,
+      status: dispute.status,
+      evidenceDueBy: dispute.evidenceDueBy.toISOString(),
+      metadata: dispute.metadata,
+    });
+  }
+
+  async advanceClock(days: number): Promise<Date> {
+    this.clockOffsetMs += days * 24 * 60 * 60 * 1000;
+    await this.billDueInstallments();
+    await this.clockListener?.(this.now());
+    return this.now();
+  }
+
+  // Charge an open invoice again: a Direct Debit is resubmitted, a card is
+  // declined again while the driver asked for failures
+  async retryInstallment(invoiceId: string): Promise<void> {
+    const invoice = this.invoices.get(invoiceId);
+    const subscription = invoice?.subscriptionId ? this.subscriptions.get(invoice.subscriptionId) : undefined;
+    if (!invoice || !subscription || invoice.status !== "open") {
+      throw new Error(`Invoice ${invoiceId} is not awaiting payment`);
+    }
+
+    const base = { subscriptionId: subscription.id, invoiceId: invoice.id, metadata: subscription.metadata };
+    if (subscription.paymentMethod === "bacs_debit") {
+      invoice.status = "processing";
+      invoice.settlesAt = addBusinessDays(this.now(), BACS_CLEARING_DAYS);
+      invoice.failOnSettlement = subscription.failPayments;
+      await this.emit({ ...base, type: "installment.processing" });
+      return;
+    }
+    if (subscription.failPayments) {
+      await this.emit({ ...base, type: "installment.failed", failedAt: this.now().toISOString() });
+      return;
+    }
+
+    invoice.status = "paid";
+    invoice.paidAt = this.now();
+    if (!this.hasUnpaidInvoices(subscription.id)) {
+      subscription.status = "active";
+    }
+    await this.emit({ ...base, type: "installment.paid", amount: invoice.amount, paidAt: invoice.paidAt.toISOString() });
+    await this.endIfFinished(subscription);
+  }
+
+  // Like Stripe, a failed installment doesn't hold up the ones after it; it
+  // stays open until retried
+  private async billDueInstallments() {
+    const now = this.now();
+    for (const subscription of Array.from(this.subscriptions.values())) {
+      while (
+        subscription.status !== "canceled" &&
+        subscription.nextInstallment < subscription.installmentAmounts.length &&
+        subscription.dueDates[subscription.nextInstallment] <= now
+      ) {
+        const dueDate = subscription.dueDates[subscription.nextInstallment];
+        const directDebit = subscription.paymentMethod === "bacs_debit";
+        const invoice: FakeInvoice = {
+          id: `in_fake_${randomUUID()}`,
+          subscriptionId: subscription.id,
+          amount: subscription.installmentAmounts[subscription.nextInstallment],
+          status: directDebit ? "processing" : subscription.failPayments ? "open" : "paid",
+          createdAt: this.now(),
+          refunded: 0,
+        };
+        if (directDebit) {
+          invoice.settlesAt = addBusinessDays(dueDate, BACS_CLEARING_DAYS);
+          invoice.failOnSettlement = subscription.failPayments;
+        }
+        this.invoices.set(invoice.id, invoice);
+        subscription.nextInstallment++;
+
+        const base = { subscriptionId: subscription.id, invoiceId: invoice.id, metadata: subscription.metadata };
+        if (invoice.status === "processing") {
+          await this.emit({ ...base, type: "installment.processing" });
+        } else if (invoice.status === "open") {
+          subscription.status = "past_due";
+          await this.emit({ ...base, type: "installment.failed", failedAt: now.toISOString() });
+        } else {
+          invoice.paidAt = now;
+          await this.emit({ ...base, type: "installment.paid", amount: invoice.amount, paidAt: now.toISOString() });
+        }
+      }
+
+      await this.settleDirectDebits(subscription);
+      await this.endIfFinished(subscription);
+    }
+  }
+
+  // Direct Debits clear, or bounce when the driver asked for failures, once
+  // their clearing days have passed
+  private async settleDirectDebits(subscription: FakeSubscription) {
+    const now = this.now();
+    for (const invoice of Array.from(this.invoices.values())) {
+      if (invoice.subscriptionId !== subscription.id || invoice.status !== "processing" || invoice.settlesAt! > now) {
+        continue;
+      }
+
+      const base = { subscriptionId: subscription.id, invoiceId: invoice.id, metadata: subscription.metadata };
+      if (invoice.failOnSettlement) {
+        invoice.status = "open";
+        if (subscription.status !== "canceled") {
+          subscription.status = "past_due";
+        }
+        await this.emit({ ...base, type: "installment.failed", failedAt: invoice.settlesAt!.toISOString() });
+      } else {
+        invoice.status = "paid";
+        invoice.paidAt = invoice.settlesAt;
+        if (subscription.status === "past_due" && !this.hasUnpaidInvoices(subscription.id)) {
+          subscription.status = "active";
+        }
+        await this.emit({ ...base, type: "installment.paid", amount: invoice.amount, paidAt: invoice.settlesAt!.toISOString() });
+      }
+    }
+  }
+
+  // The subscription ends once every installment has been billed and paid
+  private async endIfFinished(subscription: FakeSubscription) {
+    if (
+      subscription.status === "active" &&
+      subscription.nextInstallment === subscription.installmentAmounts.length &&
+      !this.hasUnpaidInvoices(subscription.id)
+    ) {
+      subscription.status = "canceled";
+      await this.emit({ type: "plan.ended", subscriptionId: subscription.id, metadata: subscription.metadata });
+    }
+  }
+
+  // Open (failed) or still clearing
+  private hasUnpaidInvoices(subscriptionId: string): boolean {
+    return Array.from(this.invoices.values()).some(
+      (invoice) => invoice.subscriptionId === subscriptionId && (invoice.status === "open" || invoice.status === "processing"),
+    );
+  }
+
+  private async emit(event: DistributiveOmit<GatewayEvent, "id">) {
+    if (!this.eventHandler) {
+      throw new Error("Fake payment gateway has no event handler");
+    }
+    await this.eventHandler({ ...event, id: `evt_fake_${randomUUID()}` } as GatewayEvent);
+  }
+}
+
+type DistributiveOmit<T, K extends keyof T> = T extends unknown ? Omit<T, K> : never;
+
+function renderCheckoutPage(checkout: FakeCheckout, content: string): string {
+  const rows = checkout.installmentAmounts
+    .map((amount, i) => `<li>Payment ${i + 1}: ${formatPence(amount)}</li>`)
+    .join("");
+  return `<!DOCTYPE html>
+<html>
+  <head><title>Fake checkout</title></head>
+  <body style="font-family: sans-serif; max-width: 32rem; margin: 3rem auto;">
+    <h1>Fake checkout</h1>
+    <p>No real payment is taken. PCN ${escapeHtml(checkout.metadata.pcnNumber || "")}.</p>
+    ${checkout.firstPaymentDate ? `<p>Payments start on ${checkout.firstPaymentDate.toDateString()}.</p>` : ""}
+    <ul>${rows}</ul>
+    ${content}
+    <p><a href="${escapeHtml(checkout.cancelUrl)}">Cancel</a></p>
+  </body>
+</html>`;
+}
+
+// Local stand-ins for Stripe's hosted checkout page and a test clock.
+export function registerFakeGatewayRoutes(app: Express, gateway: FakeGateway) {
+  app.get("/fake-gateway/checkout/:id", (req, res) => {
+    const checkout = gateway.findCheckout(req.params.id);
+    if (!checkout || checkout.status !== "open") {
+      return res.status(404).send("Checkout not found or already completed");
+    }
+
+    // Direct Debits go through a mandate confirmation page before paying
+    const form =
+      checkout.paymentMethod === "bacs_debit"
+        ? `<form method="post" action="/fake-gateway/checkout/${checkout.id}/mandate">
+      <p><label>Account holder name <input name="accountHolderName" required></label></p>
+      <p><label>Sort code <input name="sortCode" placeholder="108800" required></label></p>
+      <p><label>Account number <input name="accountNumber" placeholder="00012345" required></label></p>
+      <p><label><input type="checkbox" name="failFuturePayments" value="true"> Bounce future Direct Debits</label></p>
+      <p><button type="submit">Continue</button></p>
+    </form>`
+        : `<form method="post" action="/fake-gateway/checkout/${checkout.id}/pay">
+      ${checkout.mode === "subscription" ? `<label><input type="checkbox" name="failFuturePayments" value="true"> Fail future installments</label>` : ""}
+      <p><button type="submit">${checkout.firstPaymentDate ? "Save card" : `Pay ${formatPence(checkout.installmentAmounts[0])}`}</button></p>
+    </form>`;
+    res.send(renderCheckoutPage(checkout, form));
+  });
+
+  // The mandate confirmation step: the driver checks their bank details and
+  // authorises the debits before the first one is submitted
+  app.post("/fake-gateway/checkout/:id/mandate", (req, res) => {
+    const checkout = gateway.findCheckout(req.params.id);
+    if (!checkout || checkout.status !== "open" || checkout.paymentMethod !== "bacs_debit") {
+      return res.status(404).send("Checkout not found or already completed");
+    }
+
+    let details: FakeBankDetails;
+    try {
+      details = parseBankDetails(req.body);
+    } catch (error: any) {
+      return res.status(400).send(`${escapeHtml(error.message)}. <a href="/fake-gateway/checkout/${checkout.id}">Go back</a>`);
+    }
+
+    const hidden = Object.entries({ ...details, failFuturePayments: req.body?.failFuturePayments === "true" ? "true" : "" })
+      .map(([name, value]) => `<input type="hidden" name="${name}" value="${escapeHtml(value)}">`)
+      .join("");
+    res.send(
+      renderCheckoutPage(
+        checkout,
+        `<h2>Confirm your Direct Debit</h2>
+    <p>Account holder: ${escapeHtml(details.accountHolderName)}<br>
+      Sort code: ${details.sortCode.replace(/(\d{2})(?=\d)/g, "$1-")}<br>
+      Account number: ****${details.accountNumber.slice(-4)}</p>
+    <p>You authorise the PCN operator to debit the payments above from this account. Your payments are
+      protected by the Direct Debit Guarantee.</p>
+    <form method="post" action="/fake-gateway/checkout/${checkout.id}/pay">
+      ${hidden}
+      <p><button type="submit">Confirm Direct Debit</button></p>
+    </form>
+    <p><a href="/fake-gateway/checkout/${checkout.id}">Change details</a></p>`,
+      ),
+    );
+  });
+
+  app.post("/fake-gateway/checkout/:id/pay", async (req, res) => {
+    try {
+      const checkout = gateway.findCheckout(req.params.id);
+      const redirectUrl = await gateway.completeCheckout(req.params.id, {
+        failFuturePayments: req.body?.failFuturePayments === "true",
+        mandate: checkout?.paymentMethod === "bacs_debit" ? parseBankDetails(req.body) : undefined,
+      });
+      res.redirect(303, redirectUrl);
+    } catch (error: any) {
+      res.status(400).send(error.message);
+    }
+  });
+
+  // Stand-in for a setup-mode checkout: saves a new card or bank account
+  // without taking a payment
+  app.get("/fake-gateway/setup/:id", (req, res) => {
+    const setup = gateway.findSetup(req.params.id);
+    if (!setup || setup.status !== "open") {
+      return res.status(404).send("Checkout not found or already completed");
+    }
+
+    const fields =
+      setup.paymentMethod === "bacs_debit"
+        ? `<p><label>Account holder name <input name="accountHolderName" required></label></p>
+      <p><label>Sort code <input name="sortCode" placeholder="108800" required></label></p>
+      <p><label>Account number <input name="accountNumber" placeholder="00012345" required></label></p>
+      <p>You authorise the PCN operator to debit your remaining payments from this account. Your payments are
+        protected by the Direct Debit Guarantee.</p>
+      <p><label><input type="checkbox" name="failFuturePayments" value="true"> Bounce future Direct Debits</label></p>`
+        : `<p><label><input type="checkbox" name="failFuturePayments" value="true"> New card declines too</label></p>`;
+    res.send(`<!DOCTYPE html>
+<html>
+  <head><title>Fake checkout</title></head>
+  <body style="font-family: sans-serif; max-width: 32rem; margin: 3rem auto;">
+    <h1>Update payment details</h1>
+    <p>No real payment is taken. PCN ${escapeHtml(setup.metadata.pcnNumber || "")}.</p>
+    <form method="post" action="/fake-gateway/setup/${setup.id}/complete">
+      ${fields}
+      <p><button type="submit">Save</button></p>
+    </form>
+    <p><a href="${escapeHtml(setup.cancelUrl)}">Cancel</a></p>
+  </body>
+</html>`);
+  });
+
+  app.post("/fake-gateway/setup/:id/complete", async (req, res) => {
+    const setup = gateway.findSetup(req.params.id);
+    try {
+      const redirectUrl = await gateway.completePaymentMethodUpdate(req.params.id, {
+        failFuturePayments: req.body?.failFuturePayments === "true",
+        bankDetails: setup?.paymentMethod === "bacs_debit" ? parseBankDetails(req.body) : undefined,
+      });
+      res.redirect(303, redirectUrl);
+    } catch (error: any) {
+      res.status(400).send(error.message);
+    }
+  });
+
+  // Raise a chargeback on a paid invoice: { invoiceId, reason }
+  app.post("/api/fake-gateway/disputes", async (req, res) => {
+    try {
+      const reason = typeof req.body?.reason === "string" && req.body.reason ? req.body.reason : "fraudulent";
+      const dispute = await gateway.openDispute(String(req.body?.invoiceId ?? ""), reason);
+      res.status(201).json({ id: dispute.id, status: dispute.status, evidenceDueBy: dispute.evidenceDueBy });
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  // Decide a dispute: { outcome: "won" | "lost" }
+  app.post("/api/fake-gateway/disputes/:id/close", async (req, res) => {
+    try {
+      const outcome = req.body?.outcome;
+      if (outcome !== "won" && outcome !== "lost") {
+        return res.status(400).json({ error: 'outcome must be "won" or "lost"' });
+      }
+      const dispute = await gateway.closeDispute(req.params.id, outcome);
+      res.json({ id: dispute.id, status: dispute.status });
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/fake-gateway/clock", (_req, res) => {
+    res.json({ now: gateway.now() });
+  });
+
+  // Move the fake clock forward to bill installments that fall due: { days }
+  app.post("/api/fake-gateway/clock/advance", async (req, res) => {
+    try {
+      const days = Number(req.body?.days);
+      if (!Number.isFinite(days) || days <= 0) {
+        return res.status(400).json({ error: "days must be a positive number" });
+      }
+      res.json({ now: await gateway.advanceClock(days) });
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+}
@@ -0,0 +1,32 @@
+import type { PaymentGateway } from "./payment-gateway";
+import { StripeGateway } from "./stripe-gateway";
+import { FakeGateway } from "./fake-gateway";
+import { getDomainUrl } from "./urls";
+
+// Stripe unless PAYMENT_GATEWAY=fake asks for the offline fake. The fake's
+// pages and test routes are unauthenticated, so it is never picked by default
+// and refuses to start in production.
+function createGateway(): PaymentGateway {
+  const provider = process.env.PAYMENT_GATEWAY || "stripe";
+  switch (provider) {
+    case "stripe":
+      if (!process.env.STRIPE_SECRET_KEY) {
+        throw new Error("Missing required Stripe secret: STRIPE_SECRET_KEY");
+      }
+      return new StripeGateway(
+        process.env.STRIPE_SECRET_KEY,
+        process.env.STRIPE_WEBHOOK_SECRET,
+        process.env.STRIPE_OPERATOR_ID,
+      );
+    case "fake":
+      if (process.env.NODE_ENV === "production") {
+        throw new Error("The fake payment gateway can't be used when NODE_ENV=production");
+      }
+      console.warn("Using the fake payment gateway: no real payments will be taken");
+      return new FakeGateway(getDomainUrl());
+    default:
+      throw new Error(`Unknown PAYMENT_GATEWAY: ${provider}`);
+  }
+}
+
+export const gateway = createGateway();
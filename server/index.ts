@@ -1,10 +1,25 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { customerSession } from "./customer-session";
 import { setupVite, serveStatic, log } from "./vite";
 
+declare module "http" {
+  interface IncomingMessage {
+    rawBody: unknown;
+  }
+}
+
 const app = express();
-app.use(express.json());
+app.use(express.json({
+  // Keep the unparsed body around so Stripe webhook signatures can be verified
+  verify: (req, _res, buf) => {
+    req.rawBody = buf;
+  },
+}));
 app.use(express.urlencoded({ extended: false }));
+// Azure App Service and Replit terminate TLS in front of the app
+app.set("trust proxy", 1);
+app.use(customerSession());
 
 app.use((req, res, next) => {
   const start = Date.now();
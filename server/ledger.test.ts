@@ -0,0 +1,226 @@
+import { randomUUID } from "crypto";
+import { describe, expect, it } from "vitest";
+import {
+  closePlan,
+  createPlanLedger,
+  getBalanceOutstanding,
+  recordInstallmentFailed,
+  recordInstallmentPaid,
+  recordInstallmentProcessing,
+  recordPlanCancellation,
+  recordSettlement,
+} from "./ledger";
+import { storage } from "./storage";
+
+async function createPlan(installmentAmounts = [3000, 3000, 3000]) {
+  const pcn = await storage.createPcn({
+    pcnNumber: `PCN-${randomUUID()}`,
+    vehicleRegistration: "AB12CDE",
+    amountDue: installmentAmounts.reduce((sum, amount) => sum + amount, 0),
+  });
+  const { plan, installments } = await createPlanLedger({
+    pcnId: pcn.id,
+    type: "installments",
+    paymentMethod: "card",
+    totalAmount: pcn.amountDue,
+    installmentAmounts,
+    interval: "month",
+    startDate: new Date(2026, 0, 31, 10),
+    termsAcceptedAt: new Date(),
+  });
+  return { pcn, plan, installments };
+}
+
+async function reload(planId: string) {
+  const plan = (await storage.getPaymentPlan(planId))!;
+  const installments = await storage.getInstallmentsByPlan(planId);
+  const pcn = (await storage.getPcn(plan.pcnId))!;
+  return { plan, installments, pcn, statuses: installments.map((installment) => installment.status) };
+}
+
+describe("createPlanLedger", () => {
+  it("records the plan and one installment per payment", async () => {
+    const { plan, installments } = await createPlan([3001, 3000, 3000]);
+    expect(plan).toMatchObject({ status: "pending", installmentCount: 3, totalAmount: 9001 });
+    expect(installments.map((installment) => [installment.sequence, installment.amount])).toEqual([
+      [1, 3001],
+      [2, 3000],
+      [3, 3000],
+    ]);
+    expect(installments.map((installment) => installment.dueDate.getDate())).toEqual([31, 28, 31]);
+  });
+});
+
+describe("recordInstallmentPaid", () => {
+  it("pays installments in order as new invoices arrive", async () => {
+    const { plan } = await createPlan();
+    await recordInstallmentPaid(plan, "in_1", new Date());
+    const { plan: active, statuses, installments } = await reload(plan.id);
+    expect(statuses).toEqual(["paid", "scheduled", "scheduled"]);
+    expect(installments[0].stripeInvoiceId).toBe("in_1");
+    expect(active.status).toBe("active");
+  });
+
+  it("ignores a redelivered invoice", async () => {
+    const { plan } = await createPlan();
+    await recordInstallmentPaid(plan, "in_1", new Date());
+    await recordInstallmentPaid(plan, "in_1", new Date());
+    expect((await reload(plan.id)).statuses).toEqual(["paid", "scheduled", "scheduled"]);
+  });
+
+  it("completes the plan and settles the PCN once everything is paid", async () => {
+    const { plan } = await createPlan();
+    for (const invoiceId of ["in_1", "in_2", "in_3"]) {
+      await recordInstallmentPaid(plan, invoiceId, new Date());
+    }
+    const { plan: completed, pcn } = await reload(plan.id);
+    expect(completed.status).toBe("completed");
+    expect(pcn.status).toBe("settled");
+  });
+
+  it("credits the PCN with payments that clear after the plan was cancelled", async () => {
+    const { plan } = await createPlan();
+    await recordInstallmentProcessing(plan, "in_1");
+    const cancelled = { ...plan, status: "cancelled" };
+    await storage.updatePaymentPlan(plan.id, { status: "cancelled" });
+    await recordInstallmentPaid(cancelled, "in_1", new Date());
+    const { statuses, pcn } = await reload(plan.id);
+    expect(statuses[0]).toBe("paid");
+    expect(pcn.amountPaid).toBe(3000);
+  });
+});
+
+describe("failed installments", () => {
+  it("marks the plan past due and matches the retried invoice by its id", async () => {
+    const { plan } = await createPlan();
+    await recordInstallmentPaid(plan, "in_1", new Date());
+    const failed = await recordInstallmentFailed(plan, "in_2");
+    expect(failed).toMatchObject({ sequence: 2, status: "failed", failureCount: 1, stripeInvoiceId: "in_2" });
+    expect((await reload(plan.id)).plan.status).toBe("past_due");
+
+    // A second failed attempt at the same invoice counts against the same installment
+    const again = await recordInstallmentFailed(plan, "in_2");
+    expect(again).toMatchObject({ sequence: 2, failureCount: 2 });
+
+    await recordInstallmentPaid(plan, "in_2", new Date());
+    const { plan: recovered, statuses } = await reload(plan.id);
+    expect(statuses).toEqual(["paid", "paid", "scheduled"]);
+    expect(recovered.status).toBe("active");
+  });
+
+  it("puts the next invoice on the next installment while a failed one waits for its retry", async () => {
+    const { plan } = await createPlan();
+    await recordInstallmentFailed(plan, "in_1");
+    await recordInstallmentPaid(plan, "in_2", new Date());
+    const { installments } = await reload(plan.id);
+    expect(installments.map((installment) => [installment.status, installment.stripeInvoiceId])).toEqual([
+      ["failed", "in_1"],
+      ["paid", "in_2"],
+      ["scheduled", null],
+    ]);
+    expect((await reload(plan.id)).plan.status).toBe("past_due");
+
+    await recordInstallmentPaid(plan, "in_1", new Date());
+    expect((await reload(plan.id)).statuses).toEqual(["paid", "paid", "scheduled"]);
+  });
+
+  it("doesn't record failures on a closed plan", async () => {
+    const { plan } = await createPlan();
+    expect(await recordInstallmentFailed({ ...plan, status: "defaulted" }, "in_1")).toBeUndefined();
+  });
+});
+
+describe("getBalanceOutstanding", () => {
+  async function balance(planId: string) {
+    const { plan, installments } = await reload(planId);
+    return getBalanceOutstanding(plan, installments, await storage.getRefundsByPlan(planId));
+  }
+
+  it("counts installments due or clearing", async () => {
+    const { plan } = await createPlan();
+    expect(await balance(plan.id)).toBe(9000);
+    await recordInstallmentPaid(plan, "in_1", new Date());
+    await recordInstallmentProcessing(plan, "in_2");
+    expect(await balance(plan.id)).toBe(6000);
+  });
+
+  it("doesn't count refunds of collected payments as owed", async () => {
+    const { plan } = await createPlan();
+    await recordInstallmentPaid(plan, "in_1", new Date());
+    const [first] = (await reload(plan.id)).installments;
+    await storage.createRefund({
+      planId: plan.id,
+      installmentId: first.id,
+      stripeInvoiceId: "in_1",
+      amount: 1000,
+      reason: "goodwill",
+      status: "succeeded",
+    });
+    expect(await balance(plan.id)).toBe(6000);
+
+    // What was refunded isn't owed again if the rest is charged back
+    await storage.updateInstallment(first.id, { status: "charged_back" });
+    expect(await balance(plan.id)).toBe(8000);
+  });
+
+  it("is nothing once the plan is cancelled", async () => {
+    const { plan } = await createPlan();
+    await recordInstallmentPaid(plan, "in_1", new Date());
+    await recordPlanCancellation((await reload(plan.id)).plan);
+    expect(await balance(plan.id)).toBe(0);
+  });
+});
+
+describe("recordSettlement", () => {
+  it("pays off outstanding installments and returns the surplus", async () => {
+    const { plan } = await createPlan();
+    await recordInstallmentPaid(plan, "in_1", new Date());
+    await recordInstallmentFailed(plan, "in_2");
+
+    const result = await recordSettlement(plan, "in_settle", 6500, new Date());
+    expect(result.covered.map((installment) => installment.sequence)).toEqual([2, 3]);
+    expect(result).toMatchObject({ surplus: 500, settled: true });
+    const { plan: settled, pcn } = await reload(plan.id);
+    expect(settled.status).toBe("completed");
+    expect(settled.settledEarlyAt).toBeInstanceOf(Date);
+    expect(pcn.status).toBe("settled");
+  });
+
+  it("refunds the whole payment on a closed plan", async () => {
+    const { plan } = await createPlan();
+    expect(await recordSettlement({ ...plan, status: "cancelled" }, "in_settle", 6000, new Date())).toEqual({
+      covered: [],
+      surplus: 6000,
+      settled: false,
+    });
+  });
+});
+
+describe("closing plans", () => {
+  it("cancels what wasn't collected and keeps the payments on the PCN", async () => {
+    const { plan } = await createPlan();
+    await recordInstallmentPaid(plan, "in_1", new Date());
+    await storage.createRefund({
+      planId: plan.id,
+      installmentId: (await reload(plan.id)).installments[0].id,
+      stripeInvoiceId: "in_1",
+      amount: 1000,
+      reason: "goodwill",
+      status: "succeeded",
+    });
+
+    const cancelled = await recordPlanCancellation((await reload(plan.id)).plan);
+    expect(cancelled.map((installment) => installment.sequence)).toEqual([2, 3]);
+    const { plan: closed, statuses, pcn } = await reload(plan.id);
+    expect(closed.status).toBe("cancelled");
+    expect(statuses).toEqual(["paid", "cancelled", "cancelled"]);
+    expect(pcn.amountPaid).toBe(2000);
+  });
+
+  it("completes a plan the gateway stopped billing once everything is paid", async () => {
+    const { plan } = await createPlan([4500, 4500]);
+    await recordInstallmentPaid(plan, "in_1", new Date());
+    await recordInstallmentPaid(plan, "in_2", new Date());
+    expect(await closePlan((await reload(plan.id)).plan)).toBe("completed");
+  });
+});
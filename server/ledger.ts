@@ -0,0 +1,340 @@
+import type {
+  Installment,
+  PaymentPlan,
+  PlanReschedule,
+  PlanStatus,
+  Refund,
+  RescheduledInstallment,
+  RescheduleType,
+} from "@shared/schema";
+import { getInstallmentDueDates, type BillingInterval, type PaymentMethod, type PaymentType } from "@shared/payment-plans";
+import { storage } from "./storage";
+
+interface NewPlan {
+  pcnId: string;
+  type: PaymentType;
+  paymentMethod: PaymentMethod;
+  totalAmount: number;
+  installmentAmounts: number[];
+  interval: BillingInterval;
+  startDate: Date;
+  termsAcceptedAt: Date;
+}
+
+// Record a plan and its expected installments before the driver pays, so the
+// ledger exists even if the checkout is abandoned.
+export async function createPlanLedger(newPlan: NewPlan): Promise<{ plan: PaymentPlan; installments: Installment[] }> {
+  const plan = await storage.createPaymentPlan({
+    pcnId: newPlan.pcnId,
+    type: newPlan.type,
+    paymentMethod: newPlan.paymentMethod,
+    totalAmount: newPlan.totalAmount,
+    installmentCount: newPlan.installmentAmounts.length,
+    interval: newPlan.interval,
+    termsAcceptedAt: newPlan.termsAcceptedAt,
+  });
+
+  const dueDates = getInstallmentDueDates(newPlan.startDate, newPlan.installmentAmounts.length, newPlan.interval);
+  const installments: Installment[] = [];
+  for (let i = 0; i < dueDates.length; i++) {
+    installments.push(
+      await storage.createInstallment({
+        planId: plan.id,
+        sequence: i + 1,
+        dueDate: dueDates[i],
+        amount: newPlan.installmentAmounts[i],
+      }),
+    );
+  }
+
+  return { plan, installments };
+}
+
+// Retried invoices keep their id, so match on it first; otherwise a new
+// invoice belongs to the earliest scheduled installment no invoice has been
+// raised for yet. A failed installment already has its invoice and is waiting
+// for that one to be retried, so a new invoice never lands on it.
+async function findInstallmentForInvoice(planId: string, stripeInvoiceId: string): Promise<Installment | undefined> {
+  const planInstallments = await storage.getInstallmentsByPlan(planId);
+  return (
+    planInstallments.find((installment) => installment.stripeInvoiceId === stripeInvoiceId) ||
+    planInstallments.find((installment) => installment.status === "scheduled" && !installment.stripeInvoiceId)
+  );
+}
+
+function isClosed(plan: PaymentPlan): boolean {
+  return plan.status === "completed" || plan.status === "cancelled" || plan.status === "defaulted";
+}
+
+// Payments on a plan that won't complete stay with the PCN, so the driver
+// only owes the rest
+async function creditPcn(pcnId: string, amount: number): Promise<void> {
+  const pcn = await storage.getPcn(pcnId);
+  if (pcn && amount > 0) {
+    await storage.updatePcn(pcnId, { amountPaid: pcn.amountPaid + amount });
+  }
+}
+
+// Paid towards the plan's installments and not refunded or charged back since
+async function amountKept(planId: string, planInstallments: Installment[]): Promise<number> {
+  const paid = planInstallments.filter((installment) => installment.status === "paid");
+  const paidIds = paid.map((installment) => installment.id);
+  const refunded = (await storage.getRefundsByPlan(planId))
+    .filter((refund) => refund.installmentId && paidIds.includes(refund.installmentId) && refund.status !== "failed")
+    .reduce((sum, refund) => sum + refund.amount, 0);
+  return paid.reduce((sum, installment) => sum + installment.amount, 0) - refunded;
+}
+
+// Still owed on a running plan: not yet collected, or collected and then
+// taken back by the driver's bank
+export function isOutstanding(installment: Installment): boolean {
+  return installment.status === "scheduled" || installment.status === "failed" || installment.status === "charged_back";
+}
+
+// What the driver still owes on the plan: installments due or clearing, less
+// anything already refunded against them (e.g. part of a payment that was
+// later charged back). Nothing is owed on a closed plan: what it didn't collect
+// was cancelled or moved onto the PCN.
+export function getBalanceOutstanding(plan: PaymentPlan, planInstallments: Installment[], planRefunds: Refund[]): number {
+  if (isClosed(plan)) {
+    return 0;
+  }
+  return planInstallments
+    .filter((installment) => isOutstanding(installment) || installment.status === "processing")
+    .reduce((sum, installment) => {
+      const credited = planRefunds
+        .filter((refund) => refund.installmentId === installment.id && refund.status !== "failed")
+        .reduce((total, refund) => total + refund.amount, 0);
+      return sum + Math.max(0, installment.amount - credited);
+    }, 0);
+}
+
+export async function recordInstallmentPaid(plan: PaymentPlan, stripeInvoiceId: string, paidAt: Date): Promise<void> {
+  const installment = await findInstallmentForInvoice(plan.id, stripeInvoiceId);
+  if (!installment) {
+    console.warn(`No outstanding installment on plan ${plan.id} for invoice ${stripeInvoiceId}`);
+    return;
+  }
+
+  // e.g. a Direct Debit that cleared after the plan defaulted
+  if (plan.status === "cancelled" || plan.status === "defaulted") {
+    if (installment.status !== "paid") {
+      await storage.updateInstallment(installment.id, { status: "paid", stripeInvoiceId, paidAt, nextRetryAt: null });
+      await creditPcn(plan.pcnId, installment.amount);
+    }
+    return;
+  }
+
+  if (installment.status !== "paid") {
+    await storage.updateInstallment(installment.id, { status: "paid", stripeInvoiceId, paidAt, nextRetryAt: null });
+  }
+
+  const planInstallments = await storage.getInstallmentsByPlan(plan.id);
+  const allPaid = planInstallments.every((i) => i.status === "paid");
+  const anyFailed = planInstallments.some((i) => i.status === "failed");
+  await storage.updatePaymentPlan(plan.id, { status: allPaid ? "completed" : anyFailed ? "past_due" : "active" });
+  if (allPaid) {
+    await storage.updatePcn(plan.pcnId, { status: "settled" });
+  }
+}
+
+// An early settlement pays off the plan's outstanding installments in order,
+// whole installments only. Whatever is left over, e.g. because an installment
+// was collected while the driver was paying, is the surplus to refund; on a
+// plan that has already closed that is the whole payment. Installments still
+// clearing are left to clear.
+export async function recordSettlement(
+  plan: PaymentPlan,
+  stripeInvoiceId: string,
+  amount: number,
+  paidAt: Date,
+): Promise<{ covered: Installment[]; surplus: number; settled: boolean }> {
+  if (isClosed(plan)) {
+    return { covered: [], surplus: amount, settled: false };
+  }
+
+  const covered: Installment[] = [];
+  let surplus = amount;
+  for (const installment of await storage.getInstallmentsByPlan(plan.id)) {
+    if (!isOutstanding(installment)) continue;
+    if (installment.amount > surplus) break;
+
+    covered.push(installment);
+    surplus -= installment.amount;
+    await storage.updateInstallment(installment.id, { status: "paid", stripeInvoiceId, paidAt, nextRetryAt: null });
+  }
+
+  const planInstallments = await storage.getInstallmentsByPlan(plan.id);
+  const allPaid = planInstallments.every((i) => i.status === "paid");
+  const anyFailed = planInstallments.some((i) => i.status === "failed");
+  const settled = !planInstallments.some(isOutstanding);
+  await storage.updatePaymentPlan(plan.id, {
+    status: allPaid ? "completed" : anyFailed ? "past_due" : "active",
+    settledEarlyAt: settled ? paidAt : null,
+  });
+  if (allPaid) {
+    await storage.updatePcn(plan.pcnId, { status: "settled" });
+  }
+  return { covered, surplus, settled };
+}
+
+// New due dates agreed for installments not yet collected, kept with the
+// dates they replaced
+export async function recordReschedule(
+  plan: PaymentPlan,
+  type: RescheduleType,
+  changes: RescheduledInstallment[],
+  requestedBy: string,
+): Promise<PlanReschedule> {
+  const planInstallments = await storage.getInstallmentsByPlan(plan.id);
+  for (const change of changes) {
+    const installment = planInstallments.find((candidate) => candidate.sequence === change.sequence);
+    if (installment) {
+      await storage.updateInstallment(installment.id, { dueDate: new Date(change.to) });
+    }
+  }
+  return storage.createPlanReschedule({ planId: plan.id, type, changes, requestedBy });
+}
+
+// A Direct Debit has been submitted for the installment but hasn't cleared yet
+export async function recordInstallmentProcessing(plan: PaymentPlan, stripeInvoiceId: string): Promise<void> {
+  const installment = await findInstallmentForInvoice(plan.id, stripeInvoiceId);
+  if (!installment) {
+    console.warn(`No outstanding installment on plan ${plan.id} for invoice ${stripeInvoiceId}`);
+    return;
+  }
+
+  // Settlement may be delivered before the processing event
+  if (installment.status !== "paid") {
+    await storage.updateInstallment(installment.id, { status: "processing", stripeInvoiceId });
+  }
+}
+
+// Counts the failed attempt against the installment; dunning decides what
+// happens next. Resolves to the updated installment.
+export async function recordInstallmentFailed(
+  plan: PaymentPlan,
+  stripeInvoiceId: string,
+): Promise<Installment | undefined> {
+  const installment = await findInstallmentForInvoice(plan.id, stripeInvoiceId);
+  if (!installment) {
+    console.warn(`No outstanding installment on plan ${plan.id} for invoice ${stripeInvoiceId}`);
+    return undefined;
+  }
+  if (isClosed(plan)) {
+    return undefined;
+  }
+
+  const failed = await storage.updateInstallment(installment.id, {
+    status: "failed",
+    stripeInvoiceId,
+    failureCount: installment.failureCount + 1,
+    nextRetryAt: null,
+  });
+  await storage.updatePaymentPlan(plan.id, { status: "past_due" });
+  return failed;
+}
+
+// A plan defaults after too many failed payments: nothing more is collected
+// on it, the early-payment discount is lost and the PCN's full amount, less
+// what was paid, is owed again.
+export async function recordPlanDefault(plan: PaymentPlan): Promise<void> {
+  const planInstallments = await storage.getInstallmentsByPlan(plan.id);
+  for (const installment of planInstallments) {
+    if (installment.status !== "paid" && installment.status !== "charged_back") {
+      await storage.updateInstallment(installment.id, { status: "cancelled", nextRetryAt: null });
+    }
+  }
+  await storage.updatePaymentPlan(plan.id, { status: "defaulted" });
+
+  await creditPcn(plan.pcnId, await amountKept(plan.id, planInstallments));
+  await storage.updatePcn(plan.pcnId, { discountPercent: 0 });
+}
+
+// Refunds and chargebacks from a plan whose payments were already credited to
+// its PCN come off that credit, so the driver owes them again
+export async function debitPcn(plan: PaymentPlan, amount: number): Promise<void> {
+  if (plan.status !== "cancelled" && plan.status !== "defaulted") return;
+  const pcn = await storage.getPcn(plan.pcnId);
+  if (pcn && amount > 0) {
+    await storage.updatePcn(plan.pcnId, { amountPaid: Math.max(0, pcn.amountPaid - amount) });
+  }
+}
+
+// An operator stopped the plan, e.g. because its PCN was cancelled on appeal.
+// Installments not yet collected are cancelled (ones still clearing are left
+// to clear) and whatever was paid and not refunded stays with the PCN.
+// Resolves to the cancelled installments.
+export async function recordPlanCancellation(plan: PaymentPlan): Promise<Installment[]> {
+  if (isClosed(plan)) {
+    return [];
+  }
+
+  const planInstallments = await storage.getInstallmentsByPlan(plan.id);
+  const outstanding = planInstallments.filter(
+    (installment) => installment.status === "scheduled" || installment.status === "failed",
+  );
+  for (const installment of outstanding) {
+    await storage.updateInstallment(installment.id, { status: "cancelled", nextRetryAt: null });
+  }
+  await storage.updatePaymentPlan(plan.id, { status: "cancelled" });
+  await creditPcn(plan.pcnId, await amountKept(plan.id, planInstallments));
+  return outstanding;
+}
+
+// A lost dispute: the driver's bank has taken back the payment on the
+// invoice, so the installments it paid for are owed again. A running plan
+// carries on with them outstanding (they can be settled early); on a plan that
+// has closed they go back onto the PCN, reopening it if the plan had completed.
+// Resolves to the installments charged back.
+export async function recordChargeback(plan: PaymentPlan, stripeInvoiceId: string, amount: number): Promise<Installment[]> {
+  const chargedBack = (await storage.getInstallmentsByPlan(plan.id)).filter(
+    (installment) => installment.stripeInvoiceId === stripeInvoiceId && installment.status === "paid",
+  );
+  for (const installment of chargedBack) {
+    await storage.updateInstallment(installment.id, { status: "charged_back" });
+  }
+  const installmentsAmount = chargedBack.reduce((sum, installment) => sum + installment.amount, 0);
+  if (installmentsAmount !== amount) {
+    console.warn(`Chargeback of ${amount} on invoice ${stripeInvoiceId} doesn't match its installments (${installmentsAmount}); needs manual review`);
+  }
+  if (chargedBack.length === 0) {
+    return [];
+  }
+
+  if (plan.status === "completed") {
+    await storage.updatePaymentPlan(plan.id, { status: "cancelled" });
+    await creditPcn(plan.pcnId, await amountKept(plan.id, await storage.getInstallmentsByPlan(plan.id)));
+    await storage.updatePcn(plan.pcnId, { status: "unpaid" });
+  } else {
+    await debitPcn(plan, installmentsAmount);
+  }
+  return chargedBack;
+}
+
+// Close a plan once Stripe stops billing it. Anything not yet collected will
+// never be, so it is cancelled in the ledger. Plans already closed are
+// left as they are.
+export async function closePlan(plan: PaymentPlan): Promise<PlanStatus> {
+  if (isClosed(plan)) {
+    return plan.status as PlanStatus;
+  }
+
+  const planInstallments = await storage.getInstallmentsByPlan(plan.id);
+  const uncollected = planInstallments.filter(
+    (installment) => installment.status !== "paid" && installment.status !== "charged_back",
+  );
+  for (const installment of uncollected) {
+    await storage.updateInstallment(installment.id, { status: "cancelled", nextRetryAt: null });
+  }
+
+  // Charged back installments are owed on the PCN instead
+  const status: PlanStatus = planInstallments.every((installment) => installment.status === "paid") ? "completed" : "cancelled";
+  await storage.updatePaymentPlan(plan.id, { status });
+  if (status === "completed") {
+    await storage.updatePcn(plan.pcnId, { status: "settled" });
+  } else {
+    await creditPcn(plan.pcnId, await amountKept(plan.id, planInstallments));
+  }
+  return status;
+}
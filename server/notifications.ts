@@ -0,0 +1,74 @@
+import type { InsertNotification, Installment, Notification, NotificationType, PaymentPlan } from "@shared/schema";
+import { storage } from "./storage";
+
+interface NotificationTransport {
+  send(notification: Notification): Promise<void>;
+}
+
+// Without a mail service the messages are only written to the log
+class LogTransport implements NotificationTransport {
+  async send(notification: Notification): Promise<void> {
+    console.log(`Notification to ${notification.recipient}: ${notification.subject}\n${notification.body}`);
+  }
+}
+
+// Hands each message to the operator's mail service as JSON
+class WebhookTransport implements NotificationTransport {
+  constructor(private url: string) {}
+
+  async send(notification: Notification): Promise<void> {
+    const response = await fetch(this.url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        id: notification.id,
+        type: notification.type,
+        to: notification.recipient,
+        subject: notification.subject,
+        text: notification.body,
+      }),
+    });
+    if (!response.ok) {
+      throw new Error(`Notification webhook responded with ${response.status}`);
+    }
+  }
+}
+
+const transport: NotificationTransport = process.env.NOTIFICATION_WEBHOOK_URL
+  ? new WebhookTransport(process.env.NOTIFICATION_WEBHOOK_URL)
+  : new LogTransport();
+
+// Record a message for a driver, then try to deliver it. A delivery failure
+// is logged and leaves sentAt empty; it never holds up payment processing.
+export async function notify(notification: InsertNotification): Promise<Notification> {
+  const record = await storage.createNotification(notification);
+  try {
+    await transport.send(record);
+    return await storage.markNotificationSent(record.id);
+  } catch (error: any) {
+    console.error(`Could not send notification ${record.id}:`, error.message);
+    return record;
+  }
+}
+
+// Message whoever pays the plan. The message is built once the PCN is known.
+export async function notifyDriver(
+  plan: PaymentPlan,
+  installment: Installment | null,
+  type: NotificationType,
+  message: (pcnNumber: string) => { subject: string; body: string },
+): Promise<void> {
+  const pcn = await storage.getPcn(plan.pcnId);
+  const customer = pcn?.customerId ? await storage.getCustomer(pcn.customerId) : undefined;
+  if (!pcn || !customer) {
+    console.warn(`No customer to notify about plan ${plan.id}`);
+    return;
+  }
+  await notify({
+    planId: plan.id,
+    installmentId: installment?.id ?? null,
+    type,
+    recipient: customer.email,
+    ...message(pcn.pcnNumber),
+  });
+}
@@ -0,0 +1,243 @@
+import type { IncomingHttpHeaders } from "http";
+import type { Customer, DisputeStatus, PaymentPlan, Pcn } from "@shared/schema";
+import type { BillingInterval, PaymentMethod } from "@shared/payment-plans";
+
+// Everything the portal needs from a payment provider. Stripe is used in
+// production; the in-memory fake lets the whole flow run without a network.
+
+// "hosted" redirects to the provider's checkout page; "embedded" mounts it in
+// the portal using the returned client secret
+export type CheckoutUiMode = "hosted" | "embedded";
+
+export interface PlanCheckoutRequest {
+  customer: Customer;
+  gatewayCustomerId: string;
+  pcn: Pcn;
+  plan: PaymentPlan;
+  installmentAmounts: number[];
+  interval: BillingInterval;
+  // Bacs Direct Debit checkouts collect and confirm a mandate instead of card details
+  paymentMethod: PaymentMethod;
+  // When set, checkout only saves the payment details and the first
+  // installment is taken on this date, which later ones follow on from
+  firstPaymentDate: Date | null;
+  metadata: Record<string, string>;
+  uiMode: CheckoutUiMode;
+  // {CHECKOUT_SESSION_ID} is replaced with the checkout id on success
+  successUrl: string;
+  // Unused by embedded checkouts, which stay on the portal page
+  cancelUrl: string;
+  // Retries with the same key must not create duplicate provider objects
+  idempotencyKey: string;
+}
+
+// A one-off card payment of the whole PCN, recorded as a single-installment plan
+export type PaymentCheckoutRequest = Omit<
+  PlanCheckoutRequest,
+  "installmentAmounts" | "interval" | "paymentMethod" | "firstPaymentDate"
+>;
+
+// A one-off card payment of whatever is left on a running plan
+export interface SettlementCheckoutRequest extends PaymentCheckoutRequest {
+  amount: number;
+}
+
+// A hosted page where the driver replaces the card (or bank account) a plan
+// is collected from
+export interface PaymentMethodUpdateRequest {
+  plan: PaymentPlan;
+  gatewayCustomerId: string;
+  paymentMethod: PaymentMethod;
+  metadata: Record<string, string>;
+  successUrl: string;
+  cancelUrl: string;
+}
+
+// Exactly one of url (hosted) and clientSecret (embedded) is set
+export interface CheckoutResult {
+  id: string;
+  url: string | null;
+  clientSecret: string | null;
+}
+
+// A checkout as the provider sees it, for the success page
+export interface GatewayCheckout {
+  id: string;
+  status: "open" | "complete" | "expired";
+  customerEmail: string | null;
+  metadata: Record<string, string>;
+  // Payments collected so far, oldest first
+  payments: { amount: number; paidAt: string }[];
+  // Payments submitted but not yet cleared, e.g. Direct Debits
+  processing: { amount: number; submittedAt: string }[];
+  // Charges still to come; null while the plan's schedule is being set up
+  upcoming: { amount: number; dueDate: string }[] | null;
+}
+
+// A payment still to come on a plan
+export interface ScheduledCharge {
+  amount: number;
+  dueDate: Date;
+}
+
+export interface RefundRequest {
+  invoiceId: string;
+  // Pence; the whole payment is refunded when omitted
+  amount?: number;
+  metadata?: Record<string, string>;
+}
+
+export interface RefundResult {
+  id: string;
+  status: string;
+  amount: number;
+}
+
+// What the operator sends the card issuer to contest a chargeback
+export interface DisputeEvidence {
+  customerEmail: string | null;
+  productDescription: string;
+  // ISO date the PCN was issued
+  serviceDate: string;
+  // When and how the driver accepted the plan's terms
+  termsAcceptance: string;
+  pcnRecord: string;
+  paymentHistory: string;
+  notes?: string;
+}
+
+// Provider events, translated into the handful of facts the ledger cares about
+interface BaseEvent {
+  id: string;
+  metadata: Record<string, string>;
+}
+
+export interface CheckoutCompletedEvent extends BaseEvent {
+  type: "checkout.completed";
+  checkoutId: string;
+  gatewayCustomerId: string;
+  subscriptionId: string;
+}
+
+// A one-off checkout (pay in full or an early settlement) has been paid;
+// invoiceId identifies the payment for refunds
+export interface PaymentCompletedEvent extends BaseEvent {
+  type: "payment.completed";
+  checkoutId: string;
+  gatewayCustomerId: string;
+  invoiceId: string;
+  // Pence actually paid
+  amount: number;
+  paidAt: string;
+}
+
+// The driver saved a new payment method for a plan
+export interface PaymentMethodUpdatedEvent extends BaseEvent {
+  type: "payment_method.updated";
+  checkoutId: string;
+}
+
+export interface CheckoutExpiredEvent extends BaseEvent {
+  type: "checkout.expired";
+  checkoutId: string;
+}
+
+export interface InstallmentPaidEvent extends BaseEvent {
+  type: "installment.paid";
+  subscriptionId?: string;
+  invoiceId: string;
+  // Pence collected
+  amount: number;
+  paidAt: string;
+}
+
+// A Direct Debit has been submitted; it clears (installment.paid) or bounces
+// (installment.failed) a few working days later
+export interface InstallmentProcessingEvent extends BaseEvent {
+  type: "installment.processing";
+  subscriptionId?: string;
+  invoiceId: string;
+}
+
+export interface InstallmentFailedEvent extends BaseEvent {
+  type: "installment.failed";
+  subscriptionId?: string;
+  invoiceId: string;
+  failedAt: string;
+}
+
+export interface PlanEndedEvent extends BaseEvent {
+  type: "plan.ended";
+  subscriptionId?: string;
+}
+
+// A chargeback was opened on an installment, or changed state. Sent for every
+// change, so the latest status is all that matters.
+export interface DisputeUpdatedEvent extends BaseEvent {
+  type: "dispute.updated";
+  disputeId: string;
+  subscriptionId?: string;
+  invoiceId: string;
+  // Pence held back from the operator
+  amount: number;
+  reason: string;
+  status: DisputeStatus;
+  evidenceDueBy: string | null;
+}
+
+export type GatewayEvent =
+  | CheckoutCompletedEvent
+  | PaymentCompletedEvent
+  | CheckoutExpiredEvent
+  | PaymentMethodUpdatedEvent
+  | InstallmentPaidEvent
+  | InstallmentProcessingEvent
+  | InstallmentFailedEvent
+  | PlanEndedEvent
+  | DisputeUpdatedEvent;
+
+export interface PaymentGateway {
+  readonly name: "stripe" | "fake";
+
+  // Customers
+  createCustomer(customer: Customer): Promise<string>;
+
+  // Checkouts
+  createPlanCheckout(request: PlanCheckoutRequest): Promise<CheckoutResult>;
+  createPaymentCheckout(request: PaymentCheckoutRequest): Promise<CheckoutResult>;
+  // Resolves to undefined for checkouts the provider doesn't know
+  getCheckout(checkoutId: string): Promise<GatewayCheckout | undefined>;
+  // Stop an unfinished checkout from being completed later
+  expireCheckout(checkoutId: string): Promise<void>;
+
+  // Plans
+  // Turn the subscription started by checkout into a fixed-length schedule
+  startPlanSchedule(event: CheckoutCompletedEvent): Promise<{ scheduleId: string }>;
+  cancelPlan(plan: PaymentPlan): Promise<void>;
+  // Reported as payment.completed, like a pay-in-full checkout
+  createSettlementCheckout(request: SettlementCheckoutRequest): Promise<CheckoutResult>;
+  // Stop a failed installment's invoice being collected, e.g. because an
+  // early settlement has paid for it
+  voidInstallment(invoiceId: string): Promise<void>;
+  // Move the installments not yet billed to new dates. charges lists every
+  // one of them, in order.
+  reschedulePlan(plan: PaymentPlan, charges: ScheduledCharge[]): Promise<void>;
+  // Payment method updates
+  createPaymentMethodUpdate(request: PaymentMethodUpdateRequest): Promise<{ id: string; url: string }>;
+  // Make the method saved by a completed update the default for the plan's payments
+  applyPaymentMethodUpdate(event: PaymentMethodUpdatedEvent, plan: PaymentPlan): Promise<void>;
+  // Try a failed installment's invoice again. The outcome arrives as an
+  // installment.* event; a declined payment doesn't reject.
+  retryInstallment(invoiceId: string): Promise<void>;
+
+  // Refunds
+  refundPayment(request: RefundRequest): Promise<RefundResult>;
+
+  // Disputes
+  // Send the evidence to the card issuer; it can't be changed afterwards
+  submitDisputeEvidence(disputeId: string, evidence: DisputeEvidence): Promise<void>;
+
+  // Webhooks: resolves to null for events the portal doesn't act on. Rejects
+  // when the payload can't be verified.
+  parseWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): Promise<GatewayEvent | null>;
+}
@@ -0,0 +1,35 @@
+import type { PaymentPlan } from "@shared/schema";
+import type { PaymentMethod } from "@shared/payment-plans";
+import { HttpError } from "./errors";
+import { gateway } from "./gateway";
+import { getPlanPageUrl } from "./plan-access";
+import { storage } from "./storage";
+
+// Open a gateway page where the driver replaces the card (or bank account)
+// their remaining installments are collected from. They come back to the
+// plan page whether or not they finish.
+export async function startPaymentMethodUpdate(plan: PaymentPlan): Promise<{ url: string }> {
+  if (plan.type === "full" || (plan.status !== "active" && plan.status !== "past_due")) {
+    throw new HttpError(409, "Payment details can only be changed while a payment plan is running");
+  }
+  const pcn = await storage.getPcn(plan.pcnId);
+  const customer = pcn?.customerId ? await storage.getCustomer(pcn.customerId) : undefined;
+  if (!pcn || !customer?.stripeCustomerId || !plan.stripeSubscriptionId) {
+    throw new HttpError(409, "This payment plan has not finished setting up yet");
+  }
+
+  const planPageUrl = getPlanPageUrl(plan.id);
+  return gateway.createPaymentMethodUpdate({
+    plan,
+    gatewayCustomerId: customer.stripeCustomerId,
+    paymentMethod: plan.paymentMethod as PaymentMethod,
+    metadata: {
+      customerId: customer.id,
+      pcnId: pcn.id,
+      planId: plan.id,
+      pcnNumber: pcn.pcnNumber,
+    },
+    successUrl: `${planPageUrl}&payment_method_updated=true`,
+    cancelUrl: planPageUrl,
+  });
+}
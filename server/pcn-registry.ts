@@ -0,0 +1,68 @@
+import { insertPcnSchema, normalizeVrm, type InsertPcn, type Pcn, type PcnSummary } from "@shared/schema";
+import { getPcnCharges } from "@shared/pcn-charges";
+import { fromZodError } from "zod-validation-error";
+import { HttpError } from "./errors";
+import { escalationRules } from "./escalation-config";
+import { storage } from "./storage";
+
+// Look up a PCN a driver wants to pay. Unknown PCNs and registration
+// mismatches get the same answer so the registry can't be probed.
+export async function findPayablePcn(pcnNumber: string, vehicleRegistration: string): Promise<Pcn> {
+  const pcn = await storage.getPcnByNumber(pcnNumber.trim());
+  if (!pcn || pcn.vehicleRegistration !== normalizeVrm(vehicleRegistration)) {
+    throw new HttpError(404, "We couldn't find a PCN matching that number and vehicle registration");
+  }
+  if (pcn.status === "settled") {
+    throw new HttpError(409, "This PCN has already been paid");
+  }
+  if (pcn.status === "cancelled") {
+    throw new HttpError(409, "This PCN has been cancelled and nothing is owed");
+  }
+
+  const plans = await storage.getPaymentPlansByPcn(pcn.id);
+  if (plans.some((plan) => plan.status === "active" || plan.status === "past_due")) {
+    throw new HttpError(409, "This PCN is already being paid by installments");
+  }
+  return pcn;
+}
+
+export interface PcnImportResult {
+  created: string[];
+  skipped: { pcnNumber: string; reason: string }[];
+}
+
+// Bulk-load issued PCNs. Existing PCN numbers are left untouched so an import
+// can be re-run safely.
+export async function importPcns(rows: unknown[]): Promise<PcnImportResult> {
+  const result: PcnImportResult = { created: [], skipped: [] };
+  for (const row of rows) {
+    const parsed = insertPcnSchema.safeParse(row);
+    const pcnNumber = String((row as Partial<InsertPcn>)?.pcnNumber ?? "");
+    if (!parsed.success) {
+      result.skipped.push({ pcnNumber, reason: fromZodError(parsed.error).message });
+      continue;
+    }
+    if (await storage.getPcnByNumber(parsed.data.pcnNumber)) {
+      result.skipped.push({ pcnNumber, reason: "PCN already exists" });
+      continue;
+    }
+
+    await storage.createPcn(parsed.data);
+    result.created.push(parsed.data.pcnNumber);
+  }
+  return result;
+}
+
+// The fields a driver may see about their own PCN
+export function toPcnSummary(pcn: Pcn, now: Date = new Date()): PcnSummary {
+  const { fullAmount, ...charges } = getPcnCharges(pcn, escalationRules, now);
+  return {
+    pcnNumber: pcn.pcnNumber,
+    vehicleRegistration: pcn.vehicleRegistration,
+    amountDue: fullAmount,
+    amountPaid: pcn.amountPaid,
+    status: pcn.status,
+    issuedAt: pcn.issuedAt,
+    ...charges,
+  };
+}
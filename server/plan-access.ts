@@ -0,0 +1,89 @@
+import type { NextFunction, Request, Response } from "express";
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import type { PaymentPlan } from "@shared/schema";
+import { storage } from "./storage";
+import { getDomainUrl } from "./urls";
+import { hasPlanSession } from "./customer-session";
+
+declare global {
+  namespace Express {
+    interface Request {
+      plan?: PaymentPlan;
+    }
+  }
+}
+
+// Tokens are signed with PLAN_ACCESS_SECRET. Without one they only last until
+// the server restarts.
+function loadSecret(): Buffer {
+  if (process.env.PLAN_ACCESS_SECRET) {
+    return Buffer.from(process.env.PLAN_ACCESS_SECRET);
+  }
+  console.warn("PLAN_ACCESS_SECRET is not set: plan access links will stop working when the server restarts");
+  return randomBytes(32);
+}
+
+const secret = loadSecret();
+
+function sign(planId: string): Buffer {
+  return createHmac("sha256", secret).update(`plan:${planId}`).digest();
+}
+
+// A bearer token that lets whoever paid for a plan see and manage it without
+// an account. It is handed out once checkout has completed.
+export function issuePlanAccessToken(planId: string): string {
+  return `${Buffer.from(planId).toString("base64url")}.${sign(planId).toString("base64url")}`;
+}
+
+// Link to the driver's plan page, for emails
+export function getPlanPageUrl(planId: string): string {
+  return `${getDomainUrl()}/plans/${planId}?token=${encodeURIComponent(issuePlanAccessToken(planId))}`;
+}
+
+// Link that goes straight to the gateway page for changing the plan's card or
+// bank account, for emails
+export function getPaymentMethodUpdateUrl(planId: string): string {
+  return `${getDomainUrl()}/api/plans/${planId}/payment-method?token=${encodeURIComponent(issuePlanAccessToken(planId))}`;
+}
+
+// Resolves to the plan id the token was issued for, or undefined if it is forged
+export function verifyPlanAccessToken(token: string): string | undefined {
+  const [encodedPlanId, signature] = token.split(".");
+  if (!encodedPlanId || !signature) return undefined;
+
+  const planId = Buffer.from(encodedPlanId, "base64url").toString();
+  const presented = Buffer.from(signature, "base64url");
+  const expected = sign(planId);
+  if (presented.length !== expected.length || !timingSafeEqual(presented, expected)) {
+    return undefined;
+  }
+  return planId;
+}
+
+function presentedToken(req: Request): string | undefined {
+  const authorization = req.headers.authorization;
+  if (authorization?.startsWith("Bearer ")) {
+    return authorization.slice("Bearer ".length).trim();
+  }
+  return typeof req.query.token === "string" ? req.query.token : undefined;
+}
+
+// Guards /:planId routes: the caller needs the plan's access token or a
+// session from completing the plan's checkout. Sets req.plan.
+export async function requirePlanAccess(req: Request, res: Response, next: NextFunction) {
+  try {
+    const plan = await storage.getPaymentPlan(req.params.planId);
+    const token = presentedToken(req);
+    const allowed = !!plan && ((!!token && verifyPlanAccessToken(token) === plan.id) || hasPlanSession(req, plan.id));
+
+    // Unknown plans and refused ones look the same
+    if (!plan || !allowed) {
+      return res.status(401).json({ error: "A valid plan access token or customer session is required" });
+    }
+
+    req.plan = plan;
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
@@ -0,0 +1,40 @@
+import { defaultPlanRules, planRulesSchema, type PlanRules } from "@shared/payment-plans";
+
+function parseList(value: string | undefined): string[] | undefined {
+  return value?.split(",").map((item) => item.trim()).filter(Boolean);
+}
+
+// Operators can narrow the plans on offer through the environment, e.g.
+// PLAN_INSTALLMENT_COUNTS=1,3,6 PLAN_INTERVALS=month PLAN_MIN_INSTALLMENT_PENCE=1500
+// PLAN_REMAINDER_ON=last PLAN_DISCOUNT_ON_INSTALLMENTS=true PLAN_MAX_FIRST_PAYMENT_DELAY_DAYS=14
+// PLAN_DEPOSIT_PERCENT=50 PLAN_DEPOSIT_REQUIRED=true
+function loadPlanRules(): PlanRules {
+  const counts = parseList(process.env.PLAN_INSTALLMENT_COUNTS);
+  const intervals = parseList(process.env.PLAN_INTERVALS);
+  const minInstallment = process.env.PLAN_MIN_INSTALLMENT_PENCE;
+  const maxFirstPaymentDelay = process.env.PLAN_MAX_FIRST_PAYMENT_DELAY_DAYS;
+  const depositPercent = process.env.PLAN_DEPOSIT_PERCENT;
+
+  const parsed = planRulesSchema.safeParse({
+    installmentCounts: counts ? counts.map(Number) : defaultPlanRules.installmentCounts,
+    intervals: intervals ?? defaultPlanRules.intervals,
+    minInstallmentAmount: minInstallment ? Number(minInstallment) : defaultPlanRules.minInstallmentAmount,
+    remainderOn: process.env.PLAN_REMAINDER_ON || defaultPlanRules.remainderOn,
+    discountOnInstallments: process.env.PLAN_DISCOUNT_ON_INSTALLMENTS
+      ? process.env.PLAN_DISCOUNT_ON_INSTALLMENTS === "true"
+      : defaultPlanRules.discountOnInstallments,
+    maxFirstPaymentDelayDays: maxFirstPaymentDelay
+      ? Number(maxFirstPaymentDelay)
+      : defaultPlanRules.maxFirstPaymentDelayDays,
+    depositPercent: depositPercent ? Number(depositPercent) : defaultPlanRules.depositPercent,
+    depositRequired: process.env.PLAN_DEPOSIT_REQUIRED
+      ? process.env.PLAN_DEPOSIT_REQUIRED === "true"
+      : defaultPlanRules.depositRequired,
+  });
+  if (!parsed.success) {
+    throw new Error(`Invalid payment plan configuration: ${parsed.error.message}`);
+  }
+  return parsed.data;
+}
+
+export const planRules = loadPlanRules();
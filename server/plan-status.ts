@@ -0,0 +1,58 @@
+import type { PaymentPlan, PlanStatusView } from "@shared/schema";
+import { getBalanceOutstanding } from "./ledger";
+import { getRescheduleOptions } from "./reschedule";
+import { getSettlementAmount } from "./settlement";
+import { storage } from "./storage";
+
+// Curated view of a plan for the driver who pays it: no gateway ids, customer
+// details or metadata.
+export async function getPlanStatusView(plan: PaymentPlan): Promise<PlanStatusView> {
+  const pcn = await storage.getPcn(plan.pcnId);
+  if (!pcn) {
+    throw new Error("PCN not found");
+  }
+
+  const planInstallments = await storage.getInstallmentsByPlan(plan.id);
+  const amountPaid = planInstallments
+    .filter((installment) => installment.status === "paid")
+    .reduce((sum, installment) => sum + installment.amount, 0);
+  const amountProcessing = planInstallments
+    .filter((installment) => installment.status === "processing")
+    .reduce((sum, installment) => sum + installment.amount, 0);
+  const planRefunds = await storage.getRefundsByPlan(plan.id);
+  const amountRefunded = planRefunds
+    .filter((refund) => refund.installmentId && refund.status !== "failed")
+    .reduce((sum, refund) => sum + refund.amount, 0);
+  const collecting = plan.status === "active" || plan.status === "past_due";
+  const nextCharge = collecting
+    ? planInstallments.find((installment) => installment.status === "scheduled" || installment.status === "failed")
+    : undefined;
+
+  return {
+    planId: plan.id,
+    pcnNumber: pcn.pcnNumber,
+    vehicleRegistration: pcn.vehicleRegistration,
+    paymentType: plan.type,
+    paymentMethod: plan.paymentMethod,
+    status: plan.status,
+    interval: plan.interval,
+    totalAmount: plan.totalAmount,
+    amountPaid,
+    amountProcessing,
+    balanceOutstanding: getBalanceOutstanding(plan, planInstallments, planRefunds),
+    amountRefunded,
+    settlementAmount: getSettlementAmount(plan, planInstallments),
+    settledEarlyAt: plan.settledEarlyAt,
+    reschedule: getRescheduleOptions(plan, planInstallments, await storage.getPlanReschedulesByPlan(plan.id)),
+    nextChargeDate: nextCharge?.dueDate ?? null,
+    installments: planInstallments.map(({ sequence, dueDate, amount, status, paidAt, failureCount, nextRetryAt }) => ({
+      sequence,
+      dueDate,
+      amount,
+      status,
+      paidAt,
+      failureCount,
+      nextRetryAt,
+    })),
+  };
+}
@@ -0,0 +1,29 @@
+import { z } from "zod";
+
+// Which refunds one operator may issue alone
+export const refundPolicySchema = z.object({
+  // Refund requests that take a PCN's operator refunds over this (pence)
+  // need a second operator to approve them
+  approvalThreshold: z.number().int().nonnegative(),
+});
+
+export type RefundPolicy = z.infer<typeof refundPolicySchema>;
+
+export const defaultRefundPolicy: RefundPolicy = {
+  approvalThreshold: 10000,
+};
+
+// e.g. REFUND_APPROVAL_THRESHOLD_PENCE=5000
+function loadRefundPolicy(): RefundPolicy {
+  const threshold = process.env.REFUND_APPROVAL_THRESHOLD_PENCE;
+
+  const parsed = refundPolicySchema.safeParse({
+    approvalThreshold: threshold ? Number(threshold) : defaultRefundPolicy.approvalThreshold,
+  });
+  if (!parsed.success) {
+    throw new Error(`Invalid refund configuration: ${parsed.error.message}`);
+  }
+  return parsed.data;
+}
+
+export const refundPolicy = loadRefundPolicy();
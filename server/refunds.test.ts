@@ -0,0 +1,161 @@
+import { randomUUID } from "crypto";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { getAmountToCharge, getPcnCharges } from "@shared/pcn-charges";
+import type { AdminRefundRequest } from "@shared/schema";
+import { createCheckout } from "./checkout";
+import { escalationRules } from "./escalation-config";
+import type { FakeGateway } from "./fake-gateway";
+import { gateway } from "./gateway";
+import { planRules } from "./plan-config";
+import { approveRefundRequest, rejectRefundRequest, requestRefund } from "./refunds";
+import { storage } from "./storage";
+import { processPaymentEvent } from "./webhooks";
+
+const fakeGateway = gateway as FakeGateway;
+fakeGateway.setEventHandler(processPaymentEvent);
+
+// A three-payment monthly card plan of £80 payments (the approval threshold
+// is £100), with its first payment taken and optionally the second too
+async function startPlan({ secondPaid = false } = {}) {
+  const pcn = await storage.createPcn({
+    pcnNumber: `PCN-${randomUUID()}`,
+    vehicleRegistration: "AB12CDE",
+    amountDue: 24000,
+  });
+  const checkout = await createCheckout({
+    email: `${randomUUID()}@example.com`,
+    pcnNumber: pcn.pcnNumber,
+    vehicleRegistration: pcn.vehicleRegistration,
+    installmentCount: 3,
+    interval: "month",
+    paymentType: "installments",
+    paymentMethod: "card",
+    expectedAmount: getAmountToCharge(getPcnCharges(pcn, escalationRules), "installments", planRules),
+    idempotencyKey: randomUUID(),
+    acceptedTerms: true,
+  });
+  await fakeGateway.completeCheckout(checkout.sessionId, { failFuturePayments: false });
+  if (secondPaid) {
+    await fakeGateway.advanceClock(32);
+  }
+  return { pcnId: pcn.id, plan: (await storage.getPaymentPlan(checkout.planId))! };
+}
+
+function refundOf(installments: AdminRefundRequest["installments"], overrides: Partial<AdminRefundRequest> = {}) {
+  return { reason: "goodwill", installments, cancelRemaining: false, ...overrides } as AdminRefundRequest;
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("requestRefund", () => {
+  it("refunds straight away while under the approval threshold", async () => {
+    const { plan } = await startPlan();
+
+    const { request, refunds } = await requestRefund(plan, refundOf([{ sequence: 1, amount: 1000 }]), "alice");
+
+    expect(request).toMatchObject({ status: "completed", decidedBy: "alice", totalAmount: 1000 });
+    expect(refunds).toMatchObject([{ amount: 1000, reason: "goodwill", status: "succeeded", refundRequestId: request.id }]);
+    expect((await storage.getPaymentPlan(plan.id))?.status).toBe("active");
+    expect((await storage.getNotificationsByPlan(plan.id)).map((notification) => notification.type)).toContain(
+      "refund_issued",
+    );
+  });
+
+  it("holds a request that takes the PCN's refunds over the threshold", async () => {
+    const { plan } = await startPlan({ secondPaid: true });
+    await requestRefund(plan, refundOf([{ sequence: 1, amount: 6000 }]), "alice");
+
+    // £60 already refunded plus £50 more is over £100
+    const { request, refunds } = await requestRefund(plan, refundOf([{ sequence: 2, amount: 5000 }]), "alice");
+
+    expect(request.status).toBe("pending_approval");
+    expect(refunds).toEqual([]);
+    expect(await storage.getRefundsByPlan(plan.id)).toHaveLength(1);
+  });
+
+  it("counts requests still awaiting approval towards the threshold", async () => {
+    const { plan } = await startPlan({ secondPaid: true });
+    const first = await requestRefund(plan, refundOf([{ sequence: 1 }, { sequence: 2, amount: 3000 }]), "alice");
+    expect(first.request.status).toBe("pending_approval");
+
+    const second = await requestRefund(plan, refundOf([{ sequence: 2, amount: 100 }]), "alice");
+    expect(second.request.status).toBe("pending_approval");
+  });
+
+  it("cancels the plan and the PCN when an appeal is upheld", async () => {
+    const { pcnId, plan } = await startPlan();
+    const cancelPlan = vi.spyOn(fakeGateway, "cancelPlan");
+
+    await requestRefund(plan, refundOf([{ sequence: 1 }], { reason: "appeal_upheld", cancelRemaining: true }), "alice");
+
+    expect((await storage.getPaymentPlan(plan.id))?.status).toBe("cancelled");
+    expect((await storage.getInstallmentsByPlan(plan.id)).map((installment) => installment.status)).toEqual([
+      "paid",
+      "cancelled",
+      "cancelled",
+    ]);
+    expect((await storage.getPcn(pcnId))?.status).toBe("cancelled");
+    expect(cancelPlan).toHaveBeenCalledWith(expect.objectContaining({ id: plan.id }));
+  });
+});
+
+describe("approving a refund request", () => {
+  async function pendingRequest() {
+    const { plan } = await startPlan({ secondPaid: true });
+    const { request } = await requestRefund(plan, refundOf([{ sequence: 1 }, { sequence: 2, amount: 4000 }]), "alice");
+    expect(request.status).toBe("pending_approval");
+    return { plan, request };
+  }
+
+  it("needs a different operator", async () => {
+    const { request } = await pendingRequest();
+
+    await expect(approveRefundRequest(request.id, "alice")).rejects.toMatchObject({ status: 403 });
+    expect((await storage.getRefundRequest(request.id))?.status).toBe("pending_approval");
+  });
+
+  it("carries the refund out once a second operator approves it", async () => {
+    const { plan, request } = await pendingRequest();
+
+    const approved = await approveRefundRequest(request.id, "bob");
+
+    expect(approved.request).toMatchObject({ status: "completed", requestedBy: "alice", decidedBy: "bob" });
+    expect(approved.refunds.map((refund) => [refund.amount, refund.status])).toEqual([
+      [8000, "succeeded"],
+      [4000, "succeeded"],
+    ]);
+    expect(await storage.getRefundsByPlan(plan.id)).toHaveLength(2);
+  });
+
+  it("decides a request only once", async () => {
+    const { plan, request } = await pendingRequest();
+
+    const results = await Promise.allSettled([
+      approveRefundRequest(request.id, "bob"),
+      approveRefundRequest(request.id, "carol"),
+    ]);
+
+    expect(results.filter((result) => result.status === "fulfilled")).toHaveLength(1);
+    expect(await storage.getRefundsByPlan(plan.id)).toHaveLength(2);
+    await expect(rejectRefundRequest(request.id, "bob")).rejects.toMatchObject({ status: 409 });
+  });
+
+  it("is refused once a payment it covers has been charged back", async () => {
+    const { plan, request } = await pendingRequest();
+    const [first] = await storage.getInstallmentsByPlan(plan.id);
+    await storage.updateInstallment(first.id, { status: "charged_back" });
+
+    await expect(approveRefundRequest(request.id, "bob")).rejects.toMatchObject({ status: 409 });
+    expect(await storage.getRefundsByPlan(plan.id)).toEqual([]);
+  });
+
+  it("can be rejected instead", async () => {
+    const { plan, request } = await pendingRequest();
+
+    expect(await rejectRefundRequest(request.id, "bob")).toMatchObject({ status: "rejected", decidedBy: "bob" });
+    await expect(approveRefundRequest(request.id, "carol")).rejects.toMatchObject({ status: 409 });
+    expect(await storage.getRefundsByPlan(plan.id)).toEqual([]);
+  });
+});
@@ -0,0 +1,267 @@
+import type {
+  AdminRefundRequest,
+  PaymentPlan,
+  Refund,
+  RefundItem,
+  RefundReason,
+  RefundRequest,
+} from "@shared/schema";
+import { formatPence } from "@shared/installments";
+import { HttpError } from "./errors";
+import { gateway } from "./gateway";
+import { debitPcn, recordPlanCancellation } from "./ledger";
+import { notifyDriver } from "./notifications";
+import { refundPolicy } from "./refund-config";
+import { storage } from "./storage";
+
+interface NewRefund {
+  plan: PaymentPlan;
+  stripeInvoiceId: string;
+  amount: number;
+  reason: RefundReason;
+  installmentId?: string;
+  refundRequestId?: string;
+}
+
+// How each reason reads in the driver's email
+const reasonDescriptions: Record<string, string> = {
+  appeal_upheld: "your appeal against the PCN was successful",
+  paid_in_error: "the payment was taken in error",
+  goodwill: "of a goodwill gesture",
+};
+
+// Refund part of a gateway payment and record it against the plan. A refund
+// the gateway refuses is still recorded, as "failed", so it can be followed up.
+export async function issueRefund({ plan, stripeInvoiceId, amount, reason, ...links }: NewRefund): Promise<Refund> {
+  try {
+    const result = await gateway.refundPayment({
+      invoiceId: stripeInvoiceId,
+      amount,
+      metadata: { planId: plan.id, reason },
+    });
+    return storage.createRefund({
+      ...links,
+      planId: plan.id,
+      stripeInvoiceId,
+      stripeRefundId: result.id,
+      amount: result.amount,
+      reason,
+      status: result.status,
+    });
+  } catch (error: any) {
+    console.error(`Could not refund ${amount}p of invoice ${stripeInvoiceId} on plan ${plan.id}:`, error.message);
+    return storage.createRefund({ ...links, planId: plan.id, stripeInvoiceId, amount, reason, status: "failed" });
+  }
+}
+
+// Refunded so far from one installment, not counting ones the gateway refused
+function refundedAmount(installmentId: string, planRefunds: Refund[]): number {
+  return planRefunds
+    .filter((refund) => refund.installmentId === installmentId && refund.status !== "failed")
+    .reduce((sum, refund) => sum + refund.amount, 0);
+}
+
+// Check the operator's selection against the ledger: only paid installments,
+// and no more than is left of each after earlier refunds
+async function toRefundItems(plan: PaymentPlan, request: AdminRefundRequest): Promise<RefundItem[]> {
+  const planInstallments = await storage.getInstallmentsByPlan(plan.id);
+  const planRefunds = await storage.getRefundsByPlan(plan.id);
+
+  const items: RefundItem[] = [];
+  for (const { sequence, amount } of request.installments) {
+    const installment = planInstallments.find((i) => i.sequence === sequence);
+    if (!installment) {
+      throw new HttpError(400, `Payment ${sequence} is not part of this plan`);
+    }
+    if (items.some((item) => item.installmentId === installment.id)) {
+      throw new HttpError(400, `Payment ${sequence} is listed more than once`);
+    }
+    if (installment.status !== "paid" || !installment.stripeInvoiceId) {
+      throw new HttpError(400, `Payment ${sequence} hasn't been collected, so there is nothing to refund`);
+    }
+
+    const refundable = installment.amount - refundedAmount(installment.id, planRefunds);
+    if (refundable <= 0) {
+      throw new HttpError(400, `Payment ${sequence} has already been refunded`);
+    }
+    if (amount !== undefined && amount > refundable) {
+      throw new HttpError(400, `Only ${formatPence(refundable)} of payment ${sequence} is left to refund`);
+    }
+    items.push({ installmentId: installment.id, amount: amount ?? refundable });
+  }
+  return items;
+}
+
+// What operators have refunded on any of the PCN's plans, plus what is
+// waiting for approval
+async function operatorRefundsForPcn(pcnId: string): Promise<number> {
+  let total = 0;
+  for (const plan of await storage.getPaymentPlansByPcn(pcnId)) {
+    total += (await storage.getRefundsByPlan(plan.id))
+      .filter((refund) => refund.refundRequestId && refund.status !== "failed")
+      .reduce((sum, refund) => sum + refund.amount, 0);
+    total += (await storage.getRefundRequestsByPlan(plan.id))
+      .filter((request) => request.status === "pending_approval")
+      .reduce((sum, request) => sum + request.totalAmount, 0);
+  }
+  return total;
+}
+
+// Record an operator's refund request and carry it out, unless it takes the
+// PCN's operator refunds over the approval threshold, in which case it waits
+// for a second operator
+export async function requestRefund(
+  plan: PaymentPlan,
+  request: AdminRefundRequest,
+  adminName: string,
+): Promise<{ request: RefundRequest; refunds: Refund[] }> {
+  const items = await toRefundItems(plan, request);
+  const totalAmount = items.reduce((sum, item) => sum + item.amount, 0);
+  // Splitting a refund into smaller requests mustn't avoid a second operator
+  const needsApproval = (await operatorRefundsForPcn(plan.pcnId)) + totalAmount > refundPolicy.approvalThreshold;
+  const refundRequest = await storage.createRefundRequest({
+    planId: plan.id,
+    reason: request.reason,
+    note: request.note,
+    items,
+    cancelRemaining: request.cancelRemaining,
+    totalAmount,
+    requestedBy: adminName,
+  });
+
+  if (needsApproval) {
+    return { request: refundRequest, refunds: [] };
+  }
+  return carryOut(plan, refundRequest, adminName);
+}
+
+async function findPendingRequest(id: string): Promise<{ request: RefundRequest; plan: PaymentPlan }> {
+  const request = await storage.getRefundRequest(id);
+  const plan = request ? await storage.getPaymentPlan(request.planId) : undefined;
+  if (!request || !plan) {
+    throw new HttpError(404, "Refund request not found");
+  }
+  if (request.status !== "pending_approval") {
+    throw new HttpError(409, `This refund request has already been ${request.status}`);
+  }
+  return { request, plan };
+}
+
+export async function approveRefundRequest(
+  id: string,
+  adminName: string,
+): Promise<{ request: RefundRequest; refunds: Refund[] }> {
+  const { request, plan } = await findPendingRequest(id);
+  if (request.requestedBy === adminName) {
+    throw new HttpError(403, "A refund over the approval threshold needs a different operator to approve it");
+  }
+  await checkStillRefundable(plan, request);
+  return carryOut(plan, request, adminName);
+}
+
+// A request may wait a while for approval: make sure nothing it covers has
+// been refunded (or charged back) in the meantime
+async function checkStillRefundable(plan: PaymentPlan, request: RefundRequest): Promise<void> {
+  const planInstallments = await storage.getInstallmentsByPlan(plan.id);
+  const planRefunds = await storage.getRefundsByPlan(plan.id);
+  for (const item of request.items) {
+    const installment = planInstallments.find((i) => i.id === item.installmentId);
+    const refundable =
+      installment?.status === "paid" ? installment.amount - refundedAmount(installment.id, planRefunds) : 0;
+    if (item.amount > refundable) {
+      throw new HttpError(
+        409,
+        `Payment ${installment?.sequence} has been refunded or charged back since this request was made. Reject it and raise a new one.`,
+      );
+    }
+  }
+}
+
+export async function rejectRefundRequest(id: string, adminName: string): Promise<RefundRequest> {
+  await findPendingRequest(id);
+  const request = await storage.decideRefundRequest(id, {
+    status: "rejected",
+    decidedBy: adminName,
+    decidedAt: new Date(),
+  });
+  if (!request) {
+    throw new HttpError(409, "This refund request has already been decided");
+  }
+  return request;
+}
+
+// Refund the chosen installments, stop the rest of the plan if asked, cancel
+// the PCN when its appeal was upheld, then tell the driver
+async function carryOut(
+  plan: PaymentPlan,
+  refundRequest: RefundRequest,
+  decidedBy: string,
+): Promise<{ request: RefundRequest; refunds: Refund[] }> {
+  // Claimed first, and only while still pending, so two approvals at once
+  // can't both refund
+  const request = await storage.decideRefundRequest(refundRequest.id, {
+    status: "completed",
+    decidedBy,
+    decidedAt: new Date(),
+  });
+  if (!request) {
+    throw new HttpError(409, "This refund request has already been decided");
+  }
+  const reason = request.reason as RefundReason;
+
+  const planInstallments = await storage.getInstallmentsByPlan(plan.id);
+  const refunds: Refund[] = [];
+  for (const item of request.items) {
+    const installment = planInstallments.find((i) => i.id === item.installmentId);
+    if (!installment?.stripeInvoiceId) continue;
+    refunds.push(
+      await issueRefund({
+        plan,
+        stripeInvoiceId: installment.stripeInvoiceId,
+        amount: item.amount,
+        reason,
+        installmentId: installment.id,
+        refundRequestId: request.id,
+      }),
+    );
+  }
+  const refunded = refunds
+    .filter((refund) => refund.status !== "failed")
+    .reduce((sum, refund) => sum + refund.amount, 0);
+  await debitPcn(plan, refunded);
+
+  let planCancelled = false;
+  // The PCN is cancelled on an upheld appeal, so its plan always stops too
+  const cancelRemaining = request.cancelRemaining || reason === "appeal_upheld";
+  if (cancelRemaining && (plan.status === "active" || plan.status === "past_due")) {
+    const cancelled = await recordPlanCancellation(plan);
+    for (const installment of cancelled) {
+      if (installment.status === "failed" && installment.stripeInvoiceId) {
+        await gateway.voidInstallment(installment.stripeInvoiceId);
+      }
+    }
+    await gateway.cancelPlan(plan);
+    planCancelled = true;
+  }
+  if (reason === "appeal_upheld") {
+    await storage.updatePcn(plan.pcnId, { status: "cancelled" });
+  }
+
+  if (refunded > 0 || planCancelled) {
+    await notifyDriver(plan, null, "refund_issued", (pcnNumber) => ({
+      subject: refunded > 0 ? `Your refund for PCN ${pcnNumber}` : `Your payment plan for PCN ${pcnNumber} has been cancelled`,
+      body: [
+        refunded > 0 &&
+          `We've refunded ${formatPence(refunded)} because ${reasonDescriptions[request.reason] ?? "of a review of your PCN"}. It goes back to the card or account you paid with and can take 5 to 10 working days to arrive.`,
+        planCancelled && "Your payment plan has been cancelled and no more payments will be taken.",
+        reason === "appeal_upheld" && `PCN ${pcnNumber} has been cancelled, so there is nothing more to pay.`,
+      ]
+        .filter(Boolean)
+        .join("\n\n"),
+    }));
+  }
+  if (refunds.some((refund) => refund.status === "failed")) {
+    console.warn(`Some refunds for request ${request.id} on plan ${plan.id} failed and need following up`);
+  }
+  return { request, refunds };
+}
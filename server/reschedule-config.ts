@@ -0,0 +1,38 @@
+import { z } from "zod";
+
+// How far drivers may move their own payment dates
+export const reschedulePolicySchema = z.object({
+  // Changes allowed over the life of one plan
+  maxChanges: z.number().int().nonnegative(),
+  // Days a single payment can be pushed back
+  maxShiftDays: z.number().int().positive(),
+  // Days the last payment can end up after the date first agreed
+  maxExtensionDays: z.number().int().nonnegative(),
+});
+
+export type ReschedulePolicy = z.infer<typeof reschedulePolicySchema>;
+
+export const defaultReschedulePolicy: ReschedulePolicy = {
+  maxChanges: 2,
+  maxShiftDays: 14,
+  maxExtensionDays: 31,
+};
+
+// e.g. RESCHEDULE_MAX_CHANGES=1 RESCHEDULE_MAX_SHIFT_DAYS=7 RESCHEDULE_MAX_EXTENSION_DAYS=14
+function loadReschedulePolicy(): ReschedulePolicy {
+  const maxChanges = process.env.RESCHEDULE_MAX_CHANGES;
+  const maxShiftDays = process.env.RESCHEDULE_MAX_SHIFT_DAYS;
+  const maxExtensionDays = process.env.RESCHEDULE_MAX_EXTENSION_DAYS;
+
+  const parsed = reschedulePolicySchema.safeParse({
+    maxChanges: maxChanges ? Number(maxChanges) : defaultReschedulePolicy.maxChanges,
+    maxShiftDays: maxShiftDays ? Number(maxShiftDays) : defaultReschedulePolicy.maxShiftDays,
+    maxExtensionDays: maxExtensionDays ? Number(maxExtensionDays) : defaultReschedulePolicy.maxExtensionDays,
+  });
+  if (!parsed.success) {
+    throw new Error(`Invalid reschedule configuration: ${parsed.error.message}`);
+  }
+  return parsed.data;
+}
+
+export const reschedulePolicy = loadReschedulePolicy();
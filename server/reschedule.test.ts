@@ -0,0 +1,144 @@
+import { randomUUID } from "crypto";
+import { addDays } from "date-fns";
+import { describe, expect, it } from "vitest";
+import { getAmountToCharge, getPcnCharges } from "@shared/pcn-charges";
+import { getInstallmentDueDates, type BillingInterval } from "@shared/payment-plans";
+import { createCheckout } from "./checkout";
+import { escalationRules } from "./escalation-config";
+import type { FakeGateway } from "./fake-gateway";
+import { gateway } from "./gateway";
+import { planRules } from "./plan-config";
+import { reschedulePlan } from "./reschedule";
+import { storage } from "./storage";
+import { processPaymentEvent } from "./webhooks";
+
+const fakeGateway = gateway as FakeGateway;
+fakeGateway.setEventHandler(processPaymentEvent);
+
+// A running three-payment card plan with its first payment taken
+async function startPlan(interval: BillingInterval = "month") {
+  const pcn = await storage.createPcn({ pcnNumber: `PCN-${randomUUID()}`, vehicleRegistration: "AB12CDE", amountDue: 9000 });
+  const checkout = await createCheckout({
+    email: `${randomUUID()}@example.com`,
+    pcnNumber: pcn.pcnNumber,
+    vehicleRegistration: pcn.vehicleRegistration,
+    installmentCount: 3,
+    interval,
+    paymentType: "installments",
+    paymentMethod: "card",
+    expectedAmount: getAmountToCharge(getPcnCharges(pcn, escalationRules), "installments", planRules),
+    idempotencyKey: randomUUID(),
+    acceptedTerms: true,
+  });
+  await fakeGateway.completeCheckout(checkout.sessionId, { failFuturePayments: false });
+  const plan = (await storage.getPaymentPlan(checkout.planId))!;
+  return { plan, dueDates: await dueDates(plan.id) };
+}
+
+async function dueDates(planId: string) {
+  return (await storage.getInstallmentsByPlan(planId)).map((installment) => installment.dueDate);
+}
+
+async function current(planId: string) {
+  return (await storage.getPaymentPlan(planId))!;
+}
+
+describe("reschedulePlan", () => {
+  it("shifts one payment back and tells the driver", async () => {
+    const { plan, dueDates: before } = await startPlan();
+
+    const reschedule = await reschedulePlan(plan, { type: "shift", sequence: 2, days: 10 }, "driver");
+
+    expect(await dueDates(plan.id)).toEqual([before[0], addDays(before[1], 10), before[2]]);
+    expect(reschedule).toMatchObject({
+      type: "shift",
+      requestedBy: "driver",
+      changes: [{ sequence: 2, from: before[1].toISOString(), to: addDays(before[1], 10).toISOString() }],
+    });
+    expect(await storage.getPlanReschedulesByPlan(plan.id)).toHaveLength(1);
+    expect((await storage.getNotificationsByPlan(plan.id)).map((notification) => notification.type)).toContain(
+      "plan_rescheduled",
+    );
+  });
+
+  it("won't shift a payment further than the policy allows", async () => {
+    const { plan } = await startPlan();
+
+    await expect(reschedulePlan(plan, { type: "shift", sequence: 2, days: 15 }, "driver")).rejects.toMatchObject({
+      status: 400,
+      message: "A payment can be moved back by at most 14 days",
+    });
+  });
+
+  it("won't shift a payment past the next one", async () => {
+    const { plan } = await startPlan("week");
+
+    await expect(reschedulePlan(plan, { type: "shift", sequence: 2, days: 7 }, "driver")).rejects.toMatchObject({
+      status: 400,
+      message: "Payment 2 can't be moved past payment 3; skip it instead",
+    });
+  });
+
+  it("won't move a payment that has already been taken", async () => {
+    const { plan } = await startPlan();
+
+    await expect(reschedulePlan(plan, { type: "shift", sequence: 1, days: 3 }, "driver")).rejects.toMatchObject({
+      status: 400,
+    });
+  });
+
+  it("skips a payment by moving it and every later one back a billing period", async () => {
+    const { plan, dueDates: before } = await startPlan();
+
+    await reschedulePlan(plan, { type: "skip", sequence: 2 }, "driver");
+
+    const [, second, third] = getInstallmentDueDates(before[1], 3, "month");
+    expect(await dueDates(plan.id)).toEqual([before[0], second, third]);
+  });
+
+  it("moves every remaining payment to a new collection day", async () => {
+    const { plan, dueDates: before } = await startPlan();
+    const day = before[1].getDate() <= 14 ? 20 : 5;
+
+    await reschedulePlan(plan, { type: "collection_day", day }, "ops");
+
+    const after = await dueDates(plan.id);
+    expect(after[0]).toEqual(before[0]);
+    expect(after.slice(1).map((date) => [date.getMonth(), date.getDate()])).toEqual(
+      before.slice(1).map((date) => [date.getMonth(), day]),
+    );
+  });
+
+  it("only changes the collection day of monthly plans", async () => {
+    const { plan } = await startPlan("week");
+
+    await expect(reschedulePlan(plan, { type: "collection_day", day: 10 }, "driver")).rejects.toMatchObject({
+      status: 400,
+      message: "The collection day can only be changed on monthly plans",
+    });
+  });
+
+  it("keeps the last payment within the latest final date", async () => {
+    const { plan, dueDates: before } = await startPlan();
+    await reschedulePlan(plan, { type: "skip", sequence: 2 }, "driver");
+    const moved = await dueDates(plan.id);
+    // The limit runs from the date first agreed, not the one it was moved to
+    const allowed = Math.round((addDays(before[2], 31).getTime() - moved[2].getTime()) / 86400000);
+
+    await expect(
+      reschedulePlan(await current(plan.id), { type: "shift", sequence: 3, days: allowed + 1 }, "driver"),
+    ).rejects.toMatchObject({ status: 400, message: expect.stringContaining("the latest date allowed") });
+    expect(await dueDates(plan.id)).toEqual(moved);
+  });
+
+  it("limits how many times a plan's dates can change", async () => {
+    const { plan } = await startPlan();
+    await reschedulePlan(plan, { type: "shift", sequence: 2, days: 1 }, "driver");
+    await reschedulePlan(await current(plan.id), { type: "shift", sequence: 2, days: 1 }, "driver");
+
+    await expect(
+      reschedulePlan(await current(plan.id), { type: "shift", sequence: 3, days: 1 }, "driver"),
+    ).rejects.toMatchObject({ status: 409 });
+    expect(await storage.getPlanReschedulesByPlan(plan.id)).toHaveLength(2);
+  });
+});
@@ -0,0 +1,145 @@
+import { addDays, addMonths, setDate } from "date-fns";
+import type {
+  Installment,
+  PaymentPlan,
+  PlanReschedule,
+  PlanStatusView,
+  RescheduledInstallment,
+  RescheduleRequest,
+} from "@shared/schema";
+import { formatPence } from "@shared/installments";
+import { getInstallmentDueDates, type BillingInterval } from "@shared/payment-plans";
+import { HttpError } from "./errors";
+import { gateway } from "./gateway";
+import { recordReschedule } from "./ledger";
+import { notifyDriver } from "./notifications";
+import { reschedulePolicy } from "./reschedule-config";
+import { storage } from "./storage";
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString("en-GB", { day: "numeric", month: "long", year: "numeric" });
+}
+
+// The date the last payment was agreed for before any change
+function originalFinalDate(finalInstallment: Installment, history: PlanReschedule[]): Date {
+  for (const reschedule of history) {
+    const change = reschedule.changes.find((candidate) => candidate.sequence === finalInstallment.sequence);
+    if (change) return new Date(change.from);
+  }
+  return finalInstallment.dueDate;
+}
+
+// What the driver may still change. Null unless the plan is a running
+// installment plan with payments still to be billed.
+export function getRescheduleOptions(
+  plan: PaymentPlan,
+  planInstallments: Installment[],
+  history: PlanReschedule[],
+): PlanStatusView["reschedule"] {
+  const collecting = plan.status === "active" || plan.status === "past_due";
+  const finalInstallment = planInstallments[planInstallments.length - 1];
+  if (plan.type === "full" || !collecting || !plan.stripeScheduleId || !finalInstallment) {
+    return null;
+  }
+  if (!planInstallments.some((installment) => installment.status === "scheduled")) {
+    return null;
+  }
+
+  return {
+    changesLeft: Math.max(0, reschedulePolicy.maxChanges - history.length),
+    maxShiftDays: reschedulePolicy.maxShiftDays,
+    latestFinalDate: addDays(originalFinalDate(finalInstallment, history), reschedulePolicy.maxExtensionDays),
+  };
+}
+
+// New due dates for the payments still to be billed, in order
+function proposeDates(plan: PaymentPlan, upcoming: Installment[], request: RescheduleRequest, now: Date): Date[] {
+  const interval = plan.interval as BillingInterval;
+  const dates = upcoming.map((installment) => installment.dueDate);
+
+  if (request.type === "collection_day") {
+    if (interval !== "month") {
+      throw new HttpError(400, "The collection day can only be changed on monthly plans");
+    }
+    // Payments stay in their month unless the new day has already passed
+    let first = setDate(dates[0], request.day);
+    if (first <= now) {
+      first = addMonths(first, 1);
+    }
+    return dates.map((_, i) => addMonths(first, i));
+  }
+
+  const index = upcoming.findIndex((installment) => installment.sequence === request.sequence);
+  if (index === -1) {
+    throw new HttpError(400, `Payment ${request.sequence} has already been taken or isn't part of this plan`);
+  }
+
+  if (request.type === "skip") {
+    return dates.map((date, i) => (i >= index ? getInstallmentDueDates(date, 2, interval)[1] : date));
+  }
+
+  if (request.days > reschedulePolicy.maxShiftDays) {
+    throw new HttpError(400, `A payment can be moved back by at most ${reschedulePolicy.maxShiftDays} days`);
+  }
+  const moved = addDays(dates[index], request.days);
+  const next = upcoming[index + 1];
+  if (next && moved >= next.dueDate) {
+    throw new HttpError(400, `Payment ${request.sequence} can't be moved past payment ${next.sequence}; skip it instead`);
+  }
+  return dates.map((date, i) => (i === index ? moved : date));
+}
+
+// Move the driver's remaining payments within the operator's limits: the
+// gateway's schedule first, then the ledger, then a confirmation email.
+// requestedBy is "driver" or the operator acting for them.
+export async function reschedulePlan(
+  plan: PaymentPlan,
+  request: RescheduleRequest,
+  requestedBy: string,
+): Promise<PlanReschedule> {
+  const planInstallments = await storage.getInstallmentsByPlan(plan.id);
+  const history = await storage.getPlanReschedulesByPlan(plan.id);
+  const options = getRescheduleOptions(plan, planInstallments, history);
+  if (!options) {
+    throw new HttpError(409, "Only the remaining payments of a running installment plan can be moved");
+  }
+  if (options.changesLeft === 0) {
+    throw new HttpError(
+      409,
+      `The payment dates on this plan have already been changed ${history.length} times, which is the most allowed`,
+    );
+  }
+
+  const upcoming = planInstallments.filter((installment) => installment.status === "scheduled");
+  const dates = proposeDates(plan, upcoming, request, new Date());
+  const changes: RescheduledInstallment[] = upcoming
+    .map((installment, i) => ({ sequence: installment.sequence, from: installment.dueDate.toISOString(), to: dates[i].toISOString() }))
+    .filter((change) => change.from !== change.to);
+  if (changes.length === 0) {
+    throw new HttpError(400, "That doesn't change any payment dates");
+  }
+  if (dates[dates.length - 1] > options.latestFinalDate) {
+    throw new HttpError(
+      400,
+      `That would move your last payment past ${formatDate(options.latestFinalDate)}, the latest date allowed`,
+    );
+  }
+
+  await gateway.reschedulePlan(
+    plan,
+    upcoming.map((installment, i) => ({ amount: installment.amount, dueDate: dates[i] })),
+  );
+  const reschedule = await recordReschedule(plan, request.type, changes, requestedBy);
+
+  await notifyDriver(plan, null, "plan_rescheduled", (pcnNumber) => ({
+    subject: `Your payment dates for PCN ${pcnNumber} have changed`,
+    body: [
+      `As requested, your remaining payments for PCN ${pcnNumber} will now be taken on these dates:`,
+      upcoming
+        .map((installment, i) => `Payment ${installment.sequence}: ${formatPence(installment.amount)} on ${formatDate(dates[i])}`)
+        .join("\n"),
+      "If you didn't ask for this change, please contact us.",
+    ].join("\n\n"),
+  }));
+  return reschedule;
+}
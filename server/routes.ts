@@ -1,147 +1,362 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
-import Stripe from "stripe";
 import { storage } from "./storage";
-import { insertCustomerSchema } from "@shared/schema";
-import { z } from "zod";
+import { gateway } from "./gateway";
+import { FakeGateway, registerFakeGatewayRoutes } from "./fake-gateway";
+import { processPaymentEvent } from "./webhooks";
+import { runDueRetries } from "./dunning";
+import { createCheckout, getCheckoutSessionSummary, sweepAbandonedCheckouts } from "./checkout";
+import { planRules } from "./plan-config";
+import { requireAdmin } from "./admin-auth";
+import { getPlanPageUrl, requirePlanAccess } from "./plan-access";
+import { requireCustomerSession, signInToPlan } from "./customer-session";
+import { getPlanStatusView } from "./plan-status";
+import { startPaymentMethodUpdate } from "./payment-method-update";
+import { startSettlement } from "./settlement";
+import { reschedulePlan } from "./reschedule";
+import { findPayablePcn, importPcns, toPcnSummary } from "./pcn-registry";
+import { approveRefundRequest, rejectRefundRequest, requestRefund } from "./refunds";
+import { assembleEvidence, submitDisputeEvidence } from "./disputes";
+import { completeAdminTask } from "./admin-tasks";
+import {
+  adminRefundRequestSchema,
+  checkoutRequestSchema,
+  insertPcnSchema,
+  rescheduleRequestSchema,
+} from "@shared/schema";
+import { fromZodError } from "zod-validation-error";
 
-if (!process.env.STRIPE_SECRET_KEY) {
-  throw new Error("Missing required Stripe secret: STRIPE_SECRET_KEY");
-}
+export async function registerRoutes(app: Express): Promise<Server> {
+  if (gateway instanceof FakeGateway) {
+    gateway.setEventHandler(processPaymentEvent);
+    gateway.setClockListener(runDueRetries);
+    registerFakeGatewayRoutes(app, gateway);
+  }
 
-const stripe = new Stripe(process.env.STRIPE_SECRET_KEY, {
-  apiVersion: "2025-07-30.basil",
-});
+  // Expire checkouts abandoned for a day so their pending plans don't linger
+  setInterval(() => {
+    sweepAbandonedCheckouts().catch((error) => console.error("Error sweeping abandoned checkouts:", error));
+  }, 60 * 60 * 1000).unref();
 
-export async function registerRoutes(app: Express): Promise<Server> {
-  // Create checkout session for subscription schedule (3-month plan)
-  app.post("/api/create-checkout-session", async (req, res) => {
+  // Retry failed installments as their dunning retries fall due
+  setInterval(() => {
+    runDueRetries().catch((error) => console.error("Error retrying failed installments:", error));
+  }, 15 * 60 * 1000).unref();
+
+  // Plan options the operator allows, so the portal can offer only valid choices
+  app.get("/api/plan-rules", (_req, res) => {
+    res.json(planRules);
+  });
+
+  // Amount owed on a PCN, as held in the registry; the portal never decides it
+  app.get("/api/pcns/:pcnNumber/:vehicleRegistration", async (req, res) => {
     try {
-      const { email, pcnNumber, vehicleRegistration, penaltyAmount } = req.body;
+      const pcn = await findPayablePcn(req.params.pcnNumber, req.params.vehicleRegistration);
+      res.json(toPcnSummary(pcn));
+    } catch (error: any) {
+      res.status(error.status || 400).json({ error: error.message });
+    }
+  });
 
-      // Validate and fetch customer
-      let customer = await storage.getCustomerByEmail(email);
-      if (!customer) {
-        customer = await storage.createCustomer({
-          email,
-          pcnNumber,
-          vehicleRegistration,
-        });
+  // Admin entry of a single PCN into the registry
+  app.post("/api/admin/pcns", requireAdmin, async (req, res) => {
+    try {
+      const parsed = insertPcnSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+      if (await storage.getPcnByNumber(parsed.data.pcnNumber)) {
+        return res.status(409).json({ error: "PCN already exists" });
       }
 
-      // Ensure Stripe customer exists
-      let stripeCustomer;
-      if (customer.stripeCustomerId) {
-        stripeCustomer = await stripe.customers.retrieve(
-          customer.stripeCustomerId,
-        );
-      } else {
-        stripeCustomer = await stripe.customers.create({
-          email: customer.email,
-          metadata: {
-            pcnNumber: customer.pcnNumber,
-            vehicleRegistration: customer.vehicleRegistration,
-          },
-        });
-        customer = await storage.updateCustomerStripeInfo(
-          customer.id,
-          stripeCustomer.id,
-        );
+      const pcn = await storage.createPcn(parsed.data);
+      res.status(201).json(pcn);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  // Bulk import of issued PCNs: { pcns: [{ pcnNumber, vehicleRegistration, amountDue }] }
+  app.post("/api/admin/pcns/import", requireAdmin, async (req, res) => {
+    try {
+      if (!Array.isArray(req.body?.pcns)) {
+        return res.status(400).json({ error: "Expected a pcns array" });
       }
+      res.json(await importPcns(req.body.pcns));
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
 
-      // Create product & price
-      const product = await stripe.products.create({
-        name: `PCN Payment Plan - ${pcnNumber}`,
-        description: `Recurring payment plan for PCN ${pcnNumber}, Vehicle ${vehicleRegistration}, Total: £${penaltyAmount}`,
+  // A plan's installment ledger, including dunning state, refunds, disputes,
+  // changes to its payment dates and the notifications sent to the driver
+  app.get("/api/admin/plans/:planId", requireAdmin, async (req, res) => {
+    try {
+      const plan = await storage.getPaymentPlan(req.params.planId);
+      if (!plan) {
+        return res.status(404).json({ error: "Payment plan not found" });
+      }
+      res.json({
+        plan,
+        installments: await storage.getInstallmentsByPlan(plan.id),
+        notifications: await storage.getNotificationsByPlan(plan.id),
+        refunds: await storage.getRefundsByPlan(plan.id),
+        refundRequests: await storage.getRefundRequestsByPlan(plan.id),
+        disputes: await storage.getDisputesByPlan(plan.id),
+        reschedules: await storage.getPlanReschedulesByPlan(plan.id),
       });
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
 
-      const monthlyAmountInPence = Math.round((penaltyAmount / 3) * 100);
-      const price = await stripe.prices.create({
-        unit_amount: monthlyAmountInPence,
-        currency: "gbp",
-        recurring: { interval: "month" },
-        product: product.id,
-      });
+  // Refund chosen installments (in full or part) and by default cancel the
+  // rest of the plan, e.g. after an appeal is upheld. Requests over the
+  // approval threshold answer 202 and wait for a second operator.
+  app.post("/api/admin/plans/:planId/refunds", requireAdmin, async (req, res) => {
+    try {
+      const plan = await storage.getPaymentPlan(req.params.planId);
+      if (!plan) {
+        return res.status(404).json({ error: "Payment plan not found" });
+      }
+      const parsed = adminRefundRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
 
-      // Create 3-iteration subscription schedule
-      const schedule = await stripe.subscriptionSchedules.create({
-        customer: stripeCustomer.id,
-        start_date: "now",
-        end_behavior: "cancel",
-        metadata: {
-          pcnNumber: customer.pcnNumber,
-          vehicleRegistration: customer.vehicleRegistration,
-          totalPayments: "3",
-          penaltyAmount: penaltyAmount.toString(),
-          monthlyAmount: (penaltyAmount / 3).toFixed(2),
-        },
-        phases: [
-          {
-            items: [{ price: price.id }],
-            iterations: 3,
-          },
-        ],
-      });
+      const result = await requestRefund(plan, parsed.data, req.adminName!);
+      res.status(result.request.status === "pending_approval" ? 202 : 201).json(result);
+    } catch (error: any) {
+      res.status(error.status || 400).json({ error: error.message });
+    }
+  });
 
-      // Resolve domain URL
-      let domainURL =
-        process.env.CUSTOM_DOMAIN_URL ||
-        (process.env.WEBSITE_HOSTNAME &&
-          `https://${process.env.WEBSITE_HOSTNAME}`) ||
-        (process.env.REPL_SLUG &&
-          process.env.REPL_OWNER &&
-          `https://${process.env.REPL_SLUG}.${process.env.REPL_OWNER}.repl.co`) ||
-        process.env.WEBSITE_URL ||
-        "http://localhost:5000";
-
-      console.log("Domain URL for redirects:", domainURL);
-
-      // Create checkout session from the active subscription on schedule
-      const session = await stripe.checkout.sessions.create({
-        mode: "subscription",
-        customer: stripeCustomer.id,
-        subscription: schedule.subscription,
-        customer_update: {
-          name: "auto",
-        },
-        success_url: `${domainURL}/payment-success?session_id={CHECKOUT_SESSION_ID}`,
-        cancel_url: `${domainURL}/`,
-        metadata: {
-          customerId: customer.id,
-          pcnNumber: customer.pcnNumber,
-          vehicleRegistration: customer.vehicleRegistration,
-          penaltyAmount: penaltyAmount.toString(),
-          monthlyAmount: (penaltyAmount / 3).toFixed(2),
-        },
-      });
+  app.get("/api/admin/refund-requests", requireAdmin, async (req, res) => {
+    try {
+      const status = typeof req.query.status === "string" ? req.query.status : "pending_approval";
+      res.json(await storage.getRefundRequestsByStatus(status));
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
 
-      const result = {
-        sessionId: session.id,
-        url: session.url,
-        customerId: customer.id,
-      };
+  app.post("/api/admin/refund-requests/:id/approve", requireAdmin, async (req, res) => {
+    try {
+      res.json(await approveRefundRequest(req.params.id, req.adminName!));
+    } catch (error: any) {
+      res.status(error.status || 400).json({ error: error.message });
+    }
+  });
 
-      console.log("Sending checkout response:", result);
-      res.json(result);
+  app.post("/api/admin/refund-requests/:id/reject", requireAdmin, async (req, res) => {
+    try {
+      res.json(await rejectRefundRequest(req.params.id, req.adminName!));
+    } catch (error: any) {
+      res.status(error.status || 400).json({ error: error.message });
+    }
+  });
+
+  // Move a driver's payments for them, e.g. after a phone call. The same
+  // limits apply as when drivers do it themselves.
+  app.post("/api/admin/plans/:planId/reschedule", requireAdmin, async (req, res) => {
+    try {
+      const plan = await storage.getPaymentPlan(req.params.planId);
+      if (!plan) {
+        return res.status(404).json({ error: "Payment plan not found" });
+      }
+      const parsed = rescheduleRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+
+      res.status(201).json(await reschedulePlan(plan, parsed.data, req.adminName!));
+    } catch (error: any) {
+      res.status(error.status || 400).json({ error: error.message });
+    }
+  });
+
+  // Disputes not yet decided, oldest first
+  app.get("/api/admin/disputes", requireAdmin, async (_req, res) => {
+    try {
+      res.json(await storage.getOpenDisputes());
     } catch (error: any) {
-      console.error("Error creating checkout session:", error);
       res.status(400).json({ error: error.message });
     }
   });
 
-  // Optional: Retain this for status-checking
-  app.get("/api/subscription/:id", async (req, res) => {
+  // A dispute with the evidence that would be submitted for it
+  app.get("/api/admin/disputes/:id", requireAdmin, async (req, res) => {
+    try {
+      const dispute = await storage.getDispute(req.params.id);
+      if (!dispute) {
+        return res.status(404).json({ error: "Dispute not found" });
+      }
+      res.json({ dispute, evidence: await assembleEvidence(dispute) });
+    } catch (error: any) {
+      res.status(error.status || 400).json({ error: error.message });
+    }
+  });
+
+  // Submit the assembled evidence, with optional operator notes: { notes }
+  app.post("/api/admin/disputes/:id/evidence", requireAdmin, async (req, res) => {
+    try {
+      const notes = typeof req.body?.notes === "string" ? req.body.notes : undefined;
+      res.json(await submitDisputeEvidence(req.params.id, req.adminName!, notes));
+    } catch (error: any) {
+      res.status(error.status || 400).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/admin/tasks", requireAdmin, async (req, res) => {
     try {
-      const { id } = req.params;
-      const subscription = await stripe.subscriptions.retrieve(id);
-      res.json(subscription);
+      const status = typeof req.query.status === "string" ? req.query.status : "open";
+      res.json(await storage.getAdminTasksByStatus(status));
     } catch (error: any) {
       res.status(400).json({ error: error.message });
     }
   });
 
-  // OPTIONAL: Remove this if no longer used
-  // app.get("/api/checkout-session", ...) → no longer required since cancel_at logic is handled by the schedule
+  app.post("/api/admin/tasks/:id/complete", requireAdmin, async (req, res) => {
+    try {
+      res.json(await completeAdminTask(req.params.id, req.adminName!));
+    } catch (error: any) {
+      res.status(error.status || 400).json({ error: error.message });
+    }
+  });
+
+  // Create a checkout to pay a PCN in full or by installments.
+  // Retries carrying the same idempotency key get the same checkout back.
+  app.post("/api/create-checkout-session", async (req, res) => {
+    try {
+      const parsed = checkoutRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+
+      const result = await createCheckout(parsed.data);
+      res.json(result);
+    } catch (error: any) {
+      console.error("Error creating checkout session:", error);
+      res.status(error.status || 400).json({ error: error.message });
+    }
+  });
+
+  // Stripe webhooks: verified against the raw body and de-duplicated by event id
+  app.post("/api/webhooks/stripe", async (req, res) => {
+    if (gateway.name !== "stripe") {
+      return res.status(404).json({ error: "Stripe is not the active payment gateway" });
+    }
+    if (!Buffer.isBuffer(req.rawBody)) {
+      return res.status(400).json({ error: "Missing request body" });
+    }
+
+    let event;
+    try {
+      event = await gateway.parseWebhook(req.rawBody, req.headers);
+    } catch (error: any) {
+      console.error("Stripe webhook verification failed:", error.message);
+      return res.status(400).json({ error: `Webhook Error: ${error.message}` });
+    }
+    if (!event) {
+      return res.json({ received: true, ignored: true });
+    }
+
+    try {
+      const { duplicate } = await processPaymentEvent(event);
+      res.json({ received: true, duplicate });
+    } catch (error: any) {
+      // A non-2xx response makes Stripe retry the delivery later.
+      console.error(`Error handling payment event ${event.id}:`, error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Plan status for the driver paying it: plan access token or customer session
+  app.get("/api/plans/:planId", requirePlanAccess, async (req, res) => {
+    try {
+      res.json(await getPlanStatusView(req.plan!));
+    } catch (error: any) {
+      res.status(error.status || 400).json({ error: error.message });
+    }
+  });
+
+  // Change the card or bank account a plan is collected from. The plan page
+  // POSTs for the gateway URL; links in emails GET and are redirected there.
+  app.post("/api/plans/:planId/payment-method", requirePlanAccess, async (req, res) => {
+    try {
+      res.json(await startPaymentMethodUpdate(req.plan!));
+    } catch (error: any) {
+      res.status(error.status || 400).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/plans/:planId/payment-method", requirePlanAccess, async (req, res) => {
+    try {
+      const { url } = await startPaymentMethodUpdate(req.plan!);
+      res.redirect(303, url);
+    } catch (error: any) {
+      // The plan page explains why, e.g. the plan has already ended
+      console.warn(`Could not start a payment method update for plan ${req.plan!.id}:`, error.message);
+      res.redirect(303, getPlanPageUrl(req.plan!.id));
+    }
+  });
+
+  // Pay off the rest of a plan in one go: responds with the checkout URL
+  app.post("/api/plans/:planId/settlement", requirePlanAccess, async (req, res) => {
+    try {
+      res.json(await startSettlement(req.plan!));
+    } catch (error: any) {
+      res.status(error.status || 400).json({ error: error.message });
+    }
+  });
+
+  // Shift one payment, skip a payment or change the collection day:
+  // { type: "shift", sequence, days } | { type: "skip", sequence } |
+  // { type: "collection_day", day }
+  app.post("/api/plans/:planId/reschedule", requirePlanAccess, async (req, res) => {
+    try {
+      const parsed = rescheduleRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+      res.status(201).json(await reschedulePlan(req.plan!, parsed.data, "driver"));
+    } catch (error: any) {
+      res.status(error.status || 400).json({ error: error.message });
+    }
+  });
+
+  // Every plan this browser completed a checkout for
+  app.get("/api/customer/plans", requireCustomerSession, async (req, res) => {
+    try {
+      const views = [];
+      for (const planId of req.session.planIds!) {
+        const plan = await storage.getPaymentPlan(planId);
+        if (plan && plan.status !== "pending") {
+          views.push(await getPlanStatusView(plan));
+        }
+      }
+      res.json(views);
+    } catch (error: any) {
+      res.status(error.status || 400).json({ error: error.message });
+    }
+  });
+
+  // Summary of a completed checkout for the success page
+  app.get("/api/checkout-session", async (req, res) => {
+    try {
+      const { sessionId } = req.query;
+      if (typeof sessionId !== "string" || !sessionId) {
+        return res.status(400).json({ error: "Missing sessionId" });
+      }
+      // Holding a completed checkout id shows this browser paid for the plan,
+      // so its session may manage that plan (and only that plan)
+      const summary = await getCheckoutSessionSummary(sessionId);
+      signInToPlan(req, summary.planId);
+      res.json(summary);
+    } catch (error: any) {
+      res.status(error.status || 400).json({ error: error.message });
+    }
+  });
 
   const httpServer = createServer(app);
   return httpServer;
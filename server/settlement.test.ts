@@ -0,0 +1,113 @@
+import { randomUUID } from "crypto";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { getAmountToCharge, getPcnCharges } from "@shared/pcn-charges";
+import { createCheckout } from "./checkout";
+import { escalationRules } from "./escalation-config";
+import type { FakeGateway } from "./fake-gateway";
+import type { GatewayEvent } from "./payment-gateway";
+import { gateway } from "./gateway";
+import { planRules } from "./plan-config";
+import { startSettlement } from "./settlement";
+import { storage } from "./storage";
+import { processPaymentEvent } from "./webhooks";
+
+const fakeGateway = gateway as FakeGateway;
+const events: GatewayEvent[] = [];
+fakeGateway.setEventHandler(async (event) => {
+  events.push(event);
+  return processPaymentEvent(event);
+});
+
+// A three-payment monthly card plan whose first payment has been taken
+async function startPlan(failFuturePayments = false) {
+  const pcn = await storage.createPcn({ pcnNumber: `PCN-${randomUUID()}`, vehicleRegistration: "AB12CDE", amountDue: 9000 });
+  const checkout = await createCheckout({
+    email: `${randomUUID()}@example.com`,
+    pcnNumber: pcn.pcnNumber,
+    vehicleRegistration: pcn.vehicleRegistration,
+    installmentCount: 3,
+    interval: "month",
+    paymentType: "installments",
+    paymentMethod: "card",
+    expectedAmount: getAmountToCharge(getPcnCharges(pcn, escalationRules), "installments", planRules),
+    idempotencyKey: randomUUID(),
+    acceptedTerms: true,
+  });
+  await fakeGateway.completeCheckout(checkout.sessionId, { failFuturePayments });
+  return { pcnId: pcn.id, planId: checkout.planId };
+}
+
+async function paySettlement(planId: string) {
+  const { url } = await startSettlement((await storage.getPaymentPlan(planId))!);
+  const checkoutId = url.split("/").pop()!;
+  await fakeGateway.completeCheckout(checkoutId, { failFuturePayments: false });
+  return fakeGateway.findCheckout(checkoutId)!.invoiceId!;
+}
+
+async function statuses(planId: string) {
+  return (await storage.getInstallmentsByPlan(planId)).map((installment) => installment.status);
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("early settlement", () => {
+  it("pays off the rest of the plan and stops the schedule", async () => {
+    const { pcnId, planId } = await startPlan();
+    const cancelPlan = vi.spyOn(fakeGateway, "cancelPlan");
+
+    const invoiceId = await paySettlement(planId);
+
+    const plan = await storage.getPaymentPlan(planId);
+    expect(plan?.status).toBe("completed");
+    expect(plan?.settledEarlyAt).toBeInstanceOf(Date);
+    const installments = await storage.getInstallmentsByPlan(planId);
+    expect(installments.map((installment) => installment.status)).toEqual(["paid", "paid", "paid"]);
+    expect(installments.slice(1).map((installment) => installment.stripeInvoiceId)).toEqual([invoiceId, invoiceId]);
+    expect((await storage.getPcn(pcnId))?.status).toBe("settled");
+    expect(cancelPlan).toHaveBeenCalledWith(expect.objectContaining({ id: planId }));
+    expect(await storage.getRefundsByPlan(planId)).toEqual([]);
+
+    // Nothing more is collected once the schedule has been cancelled
+    events.length = 0;
+    await fakeGateway.advanceClock(95);
+    expect(events.filter((event) => event.metadata.planId === planId && event.type === "installment.paid")).toEqual([]);
+  });
+
+  it("refunds what an installment collected while the driver was paying already covered", async () => {
+    const { planId } = await startPlan();
+    const { url } = await startSettlement((await storage.getPaymentPlan(planId))!);
+
+    // The second payment falls due before the driver pays the settlement
+    await fakeGateway.advanceClock(32);
+    expect(await statuses(planId)).toEqual(["paid", "paid", "scheduled"]);
+    const checkoutId = url.split("/").pop()!;
+    await fakeGateway.completeCheckout(checkoutId, { failFuturePayments: false });
+
+    expect(await statuses(planId)).toEqual(["paid", "paid", "paid"]);
+    expect((await storage.getPaymentPlan(planId))?.status).toBe("completed");
+    expect(await storage.getRefundsByPlan(planId)).toMatchObject([
+      {
+        stripeInvoiceId: fakeGateway.findCheckout(checkoutId)!.invoiceId,
+        amount: 3000,
+        reason: "settlement_surplus",
+        status: "succeeded",
+      },
+    ]);
+  });
+
+  it("voids the invoice of a failed installment it pays for", async () => {
+    const { planId } = await startPlan(true);
+    await fakeGateway.advanceClock(32);
+    const [, failed] = await storage.getInstallmentsByPlan(planId);
+    expect(failed.status).toBe("failed");
+    const voidInstallment = vi.spyOn(fakeGateway, "voidInstallment");
+
+    await paySettlement(planId);
+
+    expect(voidInstallment).toHaveBeenCalledWith(failed.stripeInvoiceId);
+    expect(await statuses(planId)).toEqual(["paid", "paid", "paid"]);
+    expect((await storage.getPaymentPlan(planId))?.status).toBe("completed");
+  });
+});
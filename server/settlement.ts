@@ -0,0 +1,111 @@
+import { randomUUID } from "crypto";
+import type { Installment, PaymentPlan } from "@shared/schema";
+import { toPounds } from "@shared/installments";
+import { HttpError } from "./errors";
+import { abandonCheckoutsForPcn } from "./checkout";
+import { gateway } from "./gateway";
+import { isOutstanding, recordSettlement } from "./ledger";
+import { getPlanPageUrl } from "./plan-access";
+import type { PaymentCompletedEvent } from "./payment-gateway";
+import { issueRefund } from "./refunds";
+import { storage } from "./storage";
+
+// What settling the plan now would cost: every installment still to be
+// collected, including any charged back. Null when the plan isn't running, or while a Direct Debit is
+// clearing and the balance isn't known yet.
+export function getSettlementAmount(plan: PaymentPlan, planInstallments: Installment[]): number | null {
+  const collecting = plan.status === "active" || plan.status === "past_due";
+  if (plan.type === "full" || !collecting || !plan.stripeSubscriptionId) {
+    return null;
+  }
+  if (planInstallments.some((installment) => installment.status === "processing")) {
+    return null;
+  }
+  const amount = planInstallments
+    .filter(isOutstanding)
+    .reduce((sum, installment) => sum + installment.amount, 0);
+  return amount > 0 ? amount : null;
+}
+
+// Open a one-off card checkout for the rest of the plan. The driver comes
+// back to the plan page whether or not they pay.
+export async function startSettlement(plan: PaymentPlan): Promise<{ url: string }> {
+  const planInstallments = await storage.getInstallmentsByPlan(plan.id);
+  const amount = getSettlementAmount(plan, planInstallments);
+  if (amount === null) {
+    throw new HttpError(
+      409,
+      planInstallments.some((installment) => installment.status === "processing")
+        ? "A Direct Debit is still clearing. You can settle the rest of the plan once it has."
+        : "This payment plan can't be settled early",
+    );
+  }
+  const pcn = await storage.getPcn(plan.pcnId);
+  const customer = pcn?.customerId ? await storage.getCustomer(pcn.customerId) : undefined;
+  if (!pcn || !customer?.stripeCustomerId) {
+    throw new HttpError(409, "This payment plan has not finished setting up yet");
+  }
+
+  const attempt = await storage.createCheckoutAttempt({ idempotencyKey: `settlement-${randomUUID()}`, pcnId: pcn.id });
+  if (!attempt) {
+    throw new Error("Could not record the settlement checkout");
+  }
+  try {
+    // Only one checkout per PCN may be payable at a time
+    await abandonCheckoutsForPcn(pcn.id, attempt.id);
+    await storage.updateCheckoutAttempt(attempt.id, { planId: plan.id });
+
+    const planPageUrl = getPlanPageUrl(plan.id);
+    const session = await gateway.createSettlementCheckout({
+      customer,
+      gatewayCustomerId: customer.stripeCustomerId,
+      pcn,
+      plan,
+      amount,
+      // The plan page has nowhere to embed a checkout
+      uiMode: "hosted",
+      metadata: {
+        customerId: customer.id,
+        pcnId: pcn.id,
+        planId: plan.id,
+        attemptId: attempt.id,
+        purpose: "settlement",
+        pcnNumber: pcn.pcnNumber,
+        vehicleRegistration: pcn.vehicleRegistration,
+        settlementAmount: toPounds(amount),
+      },
+      successUrl: `${planPageUrl}&settlement=paid`,
+      cancelUrl: planPageUrl,
+      idempotencyKey: `checkout-${attempt.id}`,
+    });
+
+    await storage.updateCheckoutAttempt(attempt.id, {
+      checkoutId: session.id,
+      checkoutUrl: session.url,
+      status: "open",
+    });
+    return { url: session.url! };
+  } catch (error) {
+    await storage.updateCheckoutAttempt(attempt.id, { status: "failed" });
+    throw error;
+  }
+}
+
+// Apply a paid settlement to the ledger, then stop the gateway collecting
+// what it covered and hand back anything it didn't
+export async function applySettlement(plan: PaymentPlan, event: PaymentCompletedEvent): Promise<void> {
+  const { covered, surplus, settled } = await recordSettlement(plan, event.invoiceId, event.amount, new Date(event.paidAt));
+
+  for (const installment of covered) {
+    if (installment.status === "failed" && installment.stripeInvoiceId) {
+      await gateway.voidInstallment(installment.stripeInvoiceId);
+    }
+  }
+  if (settled) {
+    await gateway.cancelPlan(plan);
+  }
+  if (surplus > 0) {
+    console.warn(`Settlement ${event.invoiceId} on plan ${plan.id} overpaid by ${surplus}p; refunding`);
+    await issueRefund({ plan, stripeInvoiceId: event.invoiceId, amount: surplus, reason: "settlement_surplus" });
+  }
+}
@@ -0,0 +1,348 @@
+import { randomUUID } from "crypto";
+import { createRequire } from "module";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import * as schema from "@shared/schema";
+import type { Database } from "./db";
+import { DatabaseStorage, MemStorage, type IStorage } from "./storage";
+
+// drizzle-kit's ESM build can't be loaded by vitest; its CommonJS one can
+const require = createRequire(import.meta.url);
+const { generateDrizzleJson, generateMigration } = require("drizzle-kit/api") as typeof import("drizzle-kit/api");
+
+const clients: PGlite[] = [];
+
+// A fresh in-process Postgres with the schema applied, as `npm run db:push`
+// would create it
+async function createTestDatabase(): Promise<Database> {
+  const client = new PGlite();
+  clients.push(client);
+  for (const statement of await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema))) {
+    await client.exec(statement);
+  }
+  return drizzle(client, { schema });
+}
+
+afterAll(async () => {
+  await Promise.all(clients.map((client) => client.close()));
+});
+
+// Both storages must behave the same, so every case runs against each
+const implementations: [string, () => Promise<IStorage>][] = [
+  ["MemStorage", async () => new MemStorage()],
+  ["DatabaseStorage", async () => new DatabaseStorage(await createTestDatabase())],
+];
+
+function unique(prefix: string): string {
+  return `${prefix}-${randomUUID()}`;
+}
+
+describe.each(implementations)("%s", (_name, createStorage) => {
+  let storage: IStorage;
+
+  beforeAll(async () => {
+    storage = await createStorage();
+  }, 60000);
+
+  async function createPlan() {
+    const pcn = await storage.createPcn({ pcnNumber: unique("PCN"), vehicleRegistration: "AB12CDE", amountDue: 9000 });
+    const plan = await storage.createPaymentPlan({
+      pcnId: pcn.id,
+      type: "installments",
+      totalAmount: 9000,
+      installmentCount: 3,
+      interval: "month",
+    });
+    return { pcn, plan };
+  }
+
+  describe("customers", () => {
+    it("creates customers without gateway ids and finds them by email", async () => {
+      const email = `${unique("driver")}@example.com`;
+      const customer = await storage.createCustomer({ email });
+      expect(customer).toMatchObject({ email, stripeCustomerId: null, stripeSubscriptionId: null });
+      expect(await storage.getCustomer(customer.id)).toEqual(customer);
+      expect((await storage.getCustomerByEmail(email))?.id).toBe(customer.id);
+      expect(await storage.getCustomerByEmail(`${unique("nobody")}@example.com`)).toBeUndefined();
+    });
+
+    it("keeps the subscription id when only the customer id changes", async () => {
+      const customer = await storage.createCustomer({ email: `${unique("driver")}@example.com` });
+      await storage.updateCustomerStripeInfo(customer.id, "cus_1", "sub_1");
+      const updated = await storage.updateCustomerStripeInfo(customer.id, "cus_2");
+      expect(updated).toMatchObject({ stripeCustomerId: "cus_2", stripeSubscriptionId: "sub_1" });
+    });
+
+    it("throws when updating a missing customer", async () => {
+      await expect(storage.updateCustomerStripeInfo(randomUUID(), "cus_1")).rejects.toThrow("Customer not found");
+    });
+  });
+
+  describe("PCNs", () => {
+    it("applies the registry defaults", async () => {
+      const pcn = await storage.createPcn({ pcnNumber: unique("PCN"), vehicleRegistration: "AB12CDE", amountDue: 7000 });
+      expect(pcn).toMatchObject({
+        customerId: null,
+        discountPercent: 50,
+        discountDays: 14,
+        amountPaid: 0,
+        status: "unpaid",
+      });
+      expect(pcn.issuedAt).toBeInstanceOf(Date);
+      expect((await storage.getPcnByNumber(pcn.pcnNumber))?.id).toBe(pcn.id);
+    });
+
+    it("links PCNs to a customer", async () => {
+      const customer = await storage.createCustomer({ email: `${unique("driver")}@example.com` });
+      const pcn = await storage.createPcn({ pcnNumber: unique("PCN"), vehicleRegistration: "AB12CDE", amountDue: 7000 });
+      const updated = await storage.updatePcn(pcn.id, { customerId: customer.id, status: "settled" });
+      expect(updated).toMatchObject({ customerId: customer.id, status: "settled", amountDue: 7000 });
+      expect((await storage.getPcnsByCustomer(customer.id)).map((found) => found.id)).toEqual([pcn.id]);
+    });
+
+    it("throws when updating a missing PCN", async () => {
+      await expect(storage.updatePcn(randomUUID(), { status: "settled" })).rejects.toThrow("PCN not found");
+    });
+  });
+
+  describe("payment plans and installments", () => {
+    it("creates pending plans and finds them by PCN and subscription", async () => {
+      const { pcn, plan } = await createPlan();
+      expect(plan).toMatchObject({
+        paymentMethod: "card",
+        status: "pending",
+        stripeScheduleId: null,
+        stripeSubscriptionId: null,
+        settledEarlyAt: null,
+        termsAcceptedAt: null,
+        disputedAt: null,
+      });
+
+      const subscriptionId = unique("sub");
+      await storage.updatePaymentPlan(plan.id, { stripeSubscriptionId: subscriptionId, status: "active" });
+      expect(await storage.getPaymentPlanByStripeSubscriptionId(subscriptionId)).toMatchObject({
+        id: plan.id,
+        status: "active",
+      });
+      expect((await storage.getPaymentPlansByPcn(pcn.id)).map((found) => found.id)).toEqual([plan.id]);
+    });
+
+    it("lists installments in sequence order", async () => {
+      const { plan } = await createPlan();
+      for (const sequence of [3, 1, 2]) {
+        await storage.createInstallment({ planId: plan.id, sequence, dueDate: new Date(), amount: 3000 });
+      }
+      const planInstallments = await storage.getInstallmentsByPlan(plan.id);
+      expect(planInstallments.map((installment) => installment.sequence)).toEqual([1, 2, 3]);
+      expect(planInstallments[0]).toMatchObject({
+        status: "scheduled",
+        stripeInvoiceId: null,
+        paidAt: null,
+        failureCount: 0,
+        nextRetryAt: null,
+      });
+    });
+
+    it("returns failed installments once their retry is due", async () => {
+      const { plan } = await createPlan();
+      const now = new Date();
+      const due = await storage.createInstallment({ planId: plan.id, sequence: 1, dueDate: now, amount: 3000 });
+      const later = await storage.createInstallment({ planId: plan.id, sequence: 2, dueDate: now, amount: 3000 });
+      await storage.updateInstallment(due.id, { status: "failed", failureCount: 1, nextRetryAt: new Date(now.getTime() - 1000) });
+      await storage.updateInstallment(later.id, { status: "failed", failureCount: 1, nextRetryAt: new Date(now.getTime() + 60000) });
+
+      const ids = (await storage.getInstallmentsDueForRetry(now)).map((installment) => installment.id);
+      expect(ids).toContain(due.id);
+      expect(ids).not.toContain(later.id);
+    });
+
+    it("throws when updating a missing plan or installment", async () => {
+      await expect(storage.updatePaymentPlan(randomUUID(), { status: "active" })).rejects.toThrow("Payment plan not found");
+      await expect(storage.updateInstallment(randomUUID(), { status: "paid" })).rejects.toThrow("Installment not found");
+    });
+  });
+
+  describe("checkout attempts", () => {
+    it("creates one attempt per idempotency key", async () => {
+      const { pcn } = await createPlan();
+      const idempotencyKey = unique("key");
+      const attempt = await storage.createCheckoutAttempt({ idempotencyKey, pcnId: pcn.id });
+      expect(attempt).toMatchObject({ status: "in_progress", planId: null, checkoutId: null });
+      expect(await storage.createCheckoutAttempt({ idempotencyKey, pcnId: pcn.id })).toBeUndefined();
+      expect((await storage.getCheckoutAttemptByKey(idempotencyKey))?.id).toBe(attempt!.id);
+      expect((await storage.getCheckoutAttemptsByPcn(pcn.id)).map((found) => found.id)).toEqual([attempt!.id]);
+    });
+
+    it("finds unfinished attempts created before a cut-off", async () => {
+      const { pcn } = await createPlan();
+      const open = await storage.createCheckoutAttempt({ idempotencyKey: unique("key"), pcnId: pcn.id });
+      const completed = await storage.createCheckoutAttempt({ idempotencyKey: unique("key"), pcnId: pcn.id });
+      await storage.updateCheckoutAttempt(open!.id, { status: "open" });
+      await storage.updateCheckoutAttempt(completed!.id, { status: "completed" });
+
+      const ids = (await storage.getUnfinishedCheckoutAttempts(new Date(Date.now() + 60000))).map((attempt) => attempt.id);
+      expect(ids).toContain(open!.id);
+      expect(ids).not.toContain(completed!.id);
+      const none = await storage.getUnfinishedCheckoutAttempts(new Date(Date.now() - 60000));
+      expect(none.map((attempt) => attempt.id)).not.toContain(open!.id);
+    });
+  });
+
+  describe("payment events", () => {
+    it("records events and marks them processed", async () => {
+      const id = unique("evt");
+      const event = await storage.createPaymentEvent({ id, type: "installment.paid", payload: { id } });
+      expect(event).toMatchObject({ id, type: "installment.paid", processedAt: null });
+      const processed = await storage.markPaymentEventProcessed(id);
+      expect(processed.processedAt).toBeInstanceOf(Date);
+      expect((await storage.getPaymentEvent(id))?.processedAt).toBeInstanceOf(Date);
+    });
+
+    it("lets only one caller claim an event id", async () => {
+      const id = unique("evt");
+      const claims = await Promise.all([
+        storage.createPaymentEvent({ id, type: "installment.paid", payload: { id } }),
+        storage.createPaymentEvent({ id, type: "installment.paid", payload: { id } }),
+      ]);
+      expect(claims.filter(Boolean)).toHaveLength(1);
+    });
+
+    it("releases a claim so the event can be claimed again", async () => {
+      const id = unique("evt");
+      await storage.createPaymentEvent({ id, type: "installment.paid", payload: { id } });
+      await storage.deletePaymentEvent(id);
+      expect(await storage.getPaymentEvent(id)).toBeUndefined();
+      expect(await storage.createPaymentEvent({ id, type: "installment.paid", payload: { id } })).toBeDefined();
+    });
+  });
+
+  describe("notifications", () => {
+    it("lists a plan's notifications oldest first and marks them sent", async () => {
+      const { plan } = await createPlan();
+      const first = await storage.createNotification({
+        planId: plan.id,
+        type: "payment_failed",
+        recipient: "driver@example.com",
+        subject: "First",
+        body: "First",
+      });
+      await storage.createNotification({
+        planId: plan.id,
+        type: "payment_failed",
+        recipient: "driver@example.com",
+        subject: "Second",
+        body: "Second",
+      });
+      expect(first).toMatchObject({ installmentId: null, sentAt: null });
+      expect((await storage.getNotificationsByPlan(plan.id)).map((notification) => notification.subject)).toEqual([
+        "First",
+        "Second",
+      ]);
+      expect((await storage.markNotificationSent(first.id)).sentAt).toBeInstanceOf(Date);
+    });
+  });
+
+  describe("refunds", () => {
+    it("records refunds against a plan", async () => {
+      const { plan } = await createPlan();
+      const refund = await storage.createRefund({
+        planId: plan.id,
+        stripeInvoiceId: unique("in"),
+        amount: 1500,
+        reason: "goodwill",
+        status: "succeeded",
+      });
+      expect(refund).toMatchObject({ installmentId: null, refundRequestId: null, stripeRefundId: null });
+      expect((await storage.getRefundsByPlan(plan.id)).map((found) => found.id)).toEqual([refund.id]);
+    });
+
+    it("keeps refund requests pending until they are decided", async () => {
+      const { plan } = await createPlan();
+      const request = await storage.createRefundRequest({
+        planId: plan.id,
+        reason: "goodwill",
+        items: [],
+        totalAmount: 20000,
+        requestedBy: "ops",
+      });
+      expect(request).toMatchObject({ status: "pending_approval", note: null, cancelRemaining: false, decidedBy: null });
+      expect((await storage.getRefundRequestsByPlan(plan.id)).map((found) => found.id)).toEqual([request.id]);
+      expect((await storage.getRefundRequestsByStatus("pending_approval")).map((found) => found.id)).toContain(request.id);
+
+      await storage.updateRefundRequest(request.id, { status: "rejected", decidedBy: "lead", decidedAt: new Date() });
+      expect((await storage.getRefundRequestsByStatus("pending_approval")).map((found) => found.id)).not.toContain(
+        request.id,
+      );
+      expect(await storage.getRefundRequest(request.id)).toMatchObject({ status: "rejected", decidedBy: "lead" });
+    });
+
+    it("decides a refund request only once", async () => {
+      const { plan } = await createPlan();
+      const request = await storage.createRefundRequest({
+        planId: plan.id,
+        reason: "goodwill",
+        items: [],
+        totalAmount: 20000,
+        requestedBy: "ops",
+      });
+      const decisions = await Promise.all([
+        storage.decideRefundRequest(request.id, { status: "completed", decidedBy: "lead" }),
+        storage.decideRefundRequest(request.id, { status: "completed", decidedBy: "other" }),
+      ]);
+      expect(decisions.filter(Boolean)).toHaveLength(1);
+      expect(await storage.decideRefundRequest(request.id, { status: "rejected", decidedBy: "lead" })).toBeUndefined();
+      expect((await storage.getRefundRequest(request.id))?.status).toBe("completed");
+    });
+  });
+
+  describe("plan reschedules", () => {
+    it("lists a plan's reschedules", async () => {
+      const { plan } = await createPlan();
+      const changes = [{ sequence: 2, from: new Date(0).toISOString(), to: new Date(86400000).toISOString() }];
+      const reschedule = await storage.createPlanReschedule({ planId: plan.id, type: "shift", changes, requestedBy: "driver" });
+      expect(await storage.getPlanReschedulesByPlan(plan.id)).toEqual([reschedule]);
+    });
+  });
+
+  describe("disputes and admin tasks", () => {
+    it("tracks open disputes and the tasks raised for them", async () => {
+      const { pcn, plan } = await createPlan();
+      const stripeDisputeId = unique("dp");
+      const dispute = await storage.createDispute({
+        planId: plan.id,
+        pcnId: pcn.id,
+        stripeDisputeId,
+        stripeInvoiceId: unique("in"),
+        amount: 3000,
+        reason: "fraudulent",
+        status: "needs_response",
+      });
+      expect(dispute).toMatchObject({ evidenceDueBy: null, evidenceSubmittedAt: null, closedAt: null });
+      expect((await storage.getDisputeByStripeId(stripeDisputeId))?.id).toBe(dispute.id);
+      expect((await storage.getDisputesByPlan(plan.id)).map((found) => found.id)).toEqual([dispute.id]);
+      expect((await storage.getOpenDisputes()).map((found) => found.id)).toContain(dispute.id);
+
+      const task = await storage.createAdminTask({
+        type: "dispute_response",
+        planId: plan.id,
+        disputeId: dispute.id,
+        summary: "Respond",
+      });
+      expect(task).toMatchObject({ status: "open", dueAt: null, completedBy: null });
+      expect((await storage.getAdminTasksByDispute(dispute.id)).map((found) => found.id)).toEqual([task.id]);
+      expect((await storage.getAdminTasksByStatus("open")).map((found) => found.id)).toContain(task.id);
+
+      await storage.updateAdminTask(task.id, { status: "done", completedBy: "ops", completedAt: new Date() });
+      await storage.updateDispute(dispute.id, { status: "won", closedAt: new Date() });
+      expect((await storage.getAdminTasksByStatus("open")).map((found) => found.id)).not.toContain(task.id);
+      expect((await storage.getOpenDisputes()).map((found) => found.id)).not.toContain(dispute.id);
+      expect(await storage.getAdminTask(task.id)).toMatchObject({ status: "done", completedBy: "ops" });
+    });
+
+    it("throws when updating a missing dispute or task", async () => {
+      await expect(storage.updateDispute(randomUUID(), { status: "won" })).rejects.toThrow("Dispute not found");
+      await expect(storage.updateAdminTask(randomUUID(), { status: "done" })).rejects.toThrow("Admin task not found");
+    });
+  });
+});
@@ -1,18 +1,149 @@
-import { type Customer, type InsertCustomer } from "@shared/schema";
+import {
+  adminTasks,
+  checkoutAttempts,
+  customers,
+  disputes,
+  installments,
+  notifications,
+  paymentPlans,
+  planReschedules,
+  pcns,
+  paymentEvents,
+  refundRequests,
+  refunds,
+  type AdminTask,
+  type AdminTaskUpdate,
+  type CheckoutAttempt,
+  type CheckoutAttemptUpdate,
+  type Customer,
+  type Dispute,
+  type DisputeUpdate,
+  type InsertAdminTask,
+  type InsertCheckoutAttempt,
+  type InsertCustomer,
+  type InsertDispute,
+  type InsertInstallment,
+  type InsertNotification,
+  type InsertPaymentPlan,
+  type InsertPcn,
+  type InsertPlanReschedule,
+  type InsertPaymentEvent,
+  type InsertRefund,
+  type InsertRefundRequest,
+  type Installment,
+  type InstallmentUpdate,
+  type Notification,
+  type PaymentPlan,
+  type PaymentPlanUpdate,
+  type PlanReschedule,
+  type Pcn,
+  type PcnUpdate,
+  type PaymentEvent,
+  type Refund,
+  type RefundRequest,
+  type RefundRequestUpdate,
+} from "@shared/schema";
 import { randomUUID } from "crypto";
+import { and, asc, eq, inArray, isNull, lt, lte } from "drizzle-orm";
+import { createDb, type Database } from "./db";
 
 export interface IStorage {
   getCustomer(id: string): Promise<Customer | undefined>;
   getCustomerByEmail(email: string): Promise<Customer | undefined>;
   createCustomer(customer: InsertCustomer): Promise<Customer>;
   updateCustomerStripeInfo(id: string, stripeCustomerId: string, stripeSubscriptionId?: string): Promise<Customer>;
+
+  getPcn(id: string): Promise<Pcn | undefined>;
+  getPcnByNumber(pcnNumber: string): Promise<Pcn | undefined>;
+  getPcnsByCustomer(customerId: string): Promise<Pcn[]>;
+  createPcn(pcn: InsertPcn): Promise<Pcn>;
+  updatePcn(id: string, changes: PcnUpdate): Promise<Pcn>;
+
+  getPaymentPlan(id: string): Promise<PaymentPlan | undefined>;
+  getPaymentPlanByStripeSubscriptionId(stripeSubscriptionId: string): Promise<PaymentPlan | undefined>;
+  getPaymentPlansByPcn(pcnId: string): Promise<PaymentPlan[]>;
+  createPaymentPlan(plan: InsertPaymentPlan): Promise<PaymentPlan>;
+  updatePaymentPlan(id: string, changes: PaymentPlanUpdate): Promise<PaymentPlan>;
+
+  getInstallmentsByPlan(planId: string): Promise<Installment[]>;
+  createInstallment(installment: InsertInstallment): Promise<Installment>;
+  updateInstallment(id: string, changes: InstallmentUpdate): Promise<Installment>;
+  // Failed installments whose next dunning retry is due
+  getInstallmentsDueForRetry(now: Date): Promise<Installment[]>;
+
+  getCheckoutAttemptByKey(idempotencyKey: string): Promise<CheckoutAttempt | undefined>;
+  getCheckoutAttemptsByPcn(pcnId: string): Promise<CheckoutAttempt[]>;
+  getUnfinishedCheckoutAttempts(createdBefore: Date): Promise<CheckoutAttempt[]>;
+  // Resolves to undefined when an attempt with the same key already exists
+  createCheckoutAttempt(attempt: InsertCheckoutAttempt): Promise<CheckoutAttempt | undefined>;
+  updateCheckoutAttempt(id: string, changes: CheckoutAttemptUpdate): Promise<CheckoutAttempt>;
+
+  getPaymentEvent(id: string): Promise<PaymentEvent | undefined>;
+  createPaymentEvent(event: InsertPaymentEvent): Promise<PaymentEvent | undefined>;
+  markPaymentEventProcessed(id: string): Promise<PaymentEvent>;
+  deletePaymentEvent(id: string): Promise<void>;
+
+  getNotificationsByPlan(planId: string): Promise<Notification[]>;
+  createNotification(notification: InsertNotification): Promise<Notification>;
+  markNotificationSent(id: string): Promise<Notification>;
+
+  getRefundsByPlan(planId: string): Promise<Refund[]>;
+  createRefund(refund: InsertRefund): Promise<Refund>;
+
+  getRefundRequest(id: string): Promise<RefundRequest | undefined>;
+  getRefundRequestsByPlan(planId: string): Promise<RefundRequest[]>;
+  getRefundRequestsByStatus(status: string): Promise<RefundRequest[]>;
+  createRefundRequest(request: InsertRefundRequest): Promise<RefundRequest>;
+  updateRefundRequest(id: string, changes: RefundRequestUpdate): Promise<RefundRequest>;
+  // Applies the changes only while the request is still pending_approval;
+  // resolves to undefined when it had already been decided
+  decideRefundRequest(id: string, changes: RefundRequestUpdate): Promise<RefundRequest | undefined>;
+
+  getPlanReschedulesByPlan(planId: string): Promise<PlanReschedule[]>;
+  createPlanReschedule(reschedule: InsertPlanReschedule): Promise<PlanReschedule>;
+
+  getDispute(id: string): Promise<Dispute | undefined>;
+  getDisputeByStripeId(stripeDisputeId: string): Promise<Dispute | undefined>;
+  getDisputesByPlan(planId: string): Promise<Dispute[]>;
+  // Disputes not yet won or lost, oldest first
+  getOpenDisputes(): Promise<Dispute[]>;
+  createDispute(dispute: InsertDispute): Promise<Dispute>;
+  updateDispute(id: string, changes: DisputeUpdate): Promise<Dispute>;
+
+  getAdminTask(id: string): Promise<AdminTask | undefined>;
+  getAdminTasksByStatus(status: string): Promise<AdminTask[]>;
+  getAdminTasksByDispute(disputeId: string): Promise<AdminTask[]>;
+  createAdminTask(task: InsertAdminTask): Promise<AdminTask>;
+  updateAdminTask(id: string, changes: AdminTaskUpdate): Promise<AdminTask>;
 }
 
 export class MemStorage implements IStorage {
   private customers: Map<string, Customer>;
+  private pcns: Map<string, Pcn>;
+  private paymentPlans: Map<string, PaymentPlan>;
+  private installments: Map<string, Installment>;
+  private checkoutAttempts: Map<string, CheckoutAttempt>;
+  private paymentEvents: Map<string, PaymentEvent>;
+  private notifications: Map<string, Notification>;
+  private refunds: Map<string, Refund>;
+  private refundRequests: Map<string, RefundRequest>;
+  private planReschedules: Map<string, PlanReschedule>;
+  private disputes: Map<string, Dispute>;
+  private adminTasks: Map<string, AdminTask>;
 
   constructor() {
     this.customers = new Map();
+    this.pcns = new Map();
+    this.paymentPlans = new Map();
+    this.installments = new Map();
+    this.checkoutAttempts = new Map();
+    this.paymentEvents = new Map();
+    this.notifications = new Map();
+    this.refunds = new Map();
+    this.refundRequests = new Map();
+    this.planReschedules = new Map();
+    this.disputes = new Map();
+    this.adminTasks = new Map();
   }
 
   async getCustomer(id: string): Promise<Customer | undefined> {
@@ -53,6 +184,801 @@ export class MemStorage implements IStorage {
     this.customers.set(id, updatedCustomer);
     return updatedCustomer;
   }
+
+  async getPcn(id: string): Promise<Pcn | undefined> {
+    return this.pcns.get(id);
+  }
+
+  async getPcnByNumber(pcnNumber: string): Promise<Pcn | undefined> {
+    return Array.from(this.pcns.values()).find(
+      (pcn) => pcn.pcnNumber === pcnNumber,
+    );
+  }
+
+  async getPcnsByCustomer(customerId: string): Promise<Pcn[]> {
+    return Array.from(this.pcns.values()).filter(
+      (pcn) => pcn.customerId === customerId,
+    );
+  }
+
+  async createPcn(insertPcn: InsertPcn): Promise<Pcn> {
+    const id = randomUUID();
+    const pcn: Pcn = {
+      ...insertPcn,
+      id,
+      customerId: null,
+      issuedAt: insertPcn.issuedAt ?? new Date(),
+      discountPercent: insertPcn.discountPercent ?? 50,
+      discountDays: insertPcn.discountDays ?? 14,
+      amountPaid: 0,
+      status: "unpaid",
+      createdAt: new Date()
+    };
+    this.pcns.set(id, pcn);
+    return pcn;
+  }
+
+  async updatePcn(id: string, changes: PcnUpdate): Promise<Pcn> {
+    const pcn = this.pcns.get(id);
+    if (!pcn) {
+      throw new Error('PCN not found');
+    }
+
+    const updatedPcn = { ...pcn, ...changes };
+    this.pcns.set(id, updatedPcn);
+    return updatedPcn;
+  }
+
+  async getPaymentPlan(id: string): Promise<PaymentPlan | undefined> {
+    return this.paymentPlans.get(id);
+  }
+
+  async getPaymentPlanByStripeSubscriptionId(stripeSubscriptionId: string): Promise<PaymentPlan | undefined> {
+    return Array.from(this.paymentPlans.values()).find(
+      (plan) => plan.stripeSubscriptionId === stripeSubscriptionId,
+    );
+  }
+
+  async getPaymentPlansByPcn(pcnId: string): Promise<PaymentPlan[]> {
+    return Array.from(this.paymentPlans.values()).filter(
+      (plan) => plan.pcnId === pcnId,
+    );
+  }
+
+  async createPaymentPlan(insertPlan: InsertPaymentPlan): Promise<PaymentPlan> {
+    const id = randomUUID();
+    const plan: PaymentPlan = {
+      ...insertPlan,
+      id,
+      type: insertPlan.type ?? "installments",
+      paymentMethod: insertPlan.paymentMethod ?? "card",
+      stripeScheduleId: null,
+      stripeSubscriptionId: null,
+      status: "pending",
+      settledEarlyAt: null,
+      termsAcceptedAt: insertPlan.termsAcceptedAt ?? null,
+      disputedAt: null,
+      createdAt: new Date()
+    };
+    this.paymentPlans.set(id, plan);
+    return plan;
+  }
+
+  async updatePaymentPlan(id: string, changes: PaymentPlanUpdate): Promise<PaymentPlan> {
+    const plan = this.paymentPlans.get(id);
+    if (!plan) {
+      throw new Error('Payment plan not found');
+    }
+
+    const updatedPlan = { ...plan, ...changes };
+    this.paymentPlans.set(id, updatedPlan);
+    return updatedPlan;
+  }
+
+  async getInstallmentsByPlan(planId: string): Promise<Installment[]> {
+    return Array.from(this.installments.values())
+      .filter((installment) => installment.planId === planId)
+      .sort((a, b) => a.sequence - b.sequence);
+  }
+
+  async createInstallment(insertInstallment: InsertInstallment): Promise<Installment> {
+    const id = randomUUID();
+    const installment: Installment = {
+      ...insertInstallment,
+      id,
+      status: "scheduled",
+      stripeInvoiceId: null,
+      paidAt: null,
+      failureCount: 0,
+      nextRetryAt: null,
+      createdAt: new Date()
+    };
+    this.installments.set(id, installment);
+    return installment;
+  }
+
+  async updateInstallment(id: string, changes: InstallmentUpdate): Promise<Installment> {
+    const installment = this.installments.get(id);
+    if (!installment) {
+      throw new Error('Installment not found');
+    }
+
+    const updatedInstallment = { ...installment, ...changes };
+    this.installments.set(id, updatedInstallment);
+    return updatedInstallment;
+  }
+
+  async getInstallmentsDueForRetry(now: Date): Promise<Installment[]> {
+    return Array.from(this.installments.values()).filter(
+      (installment) => installment.status === "failed" && installment.nextRetryAt !== null && installment.nextRetryAt <= now,
+    );
+  }
+
+  async getCheckoutAttemptByKey(idempotencyKey: string): Promise<CheckoutAttempt | undefined> {
+    return Array.from(this.checkoutAttempts.values()).find(
+      (attempt) => attempt.idempotencyKey === idempotencyKey,
+    );
+  }
+
+  async getCheckoutAttemptsByPcn(pcnId: string): Promise<CheckoutAttempt[]> {
+    return Array.from(this.checkoutAttempts.values()).filter(
+      (attempt) => attempt.pcnId === pcnId,
+    );
+  }
+
+  async getUnfinishedCheckoutAttempts(createdBefore: Date): Promise<CheckoutAttempt[]> {
+    return Array.from(this.checkoutAttempts.values()).filter(
+      (attempt) =>
+        (attempt.status === "in_progress" || attempt.status === "open") &&
+        attempt.createdAt < createdBefore,
+    );
+  }
+
+  async createCheckoutAttempt(insertAttempt: InsertCheckoutAttempt): Promise<CheckoutAttempt | undefined> {
+    if (await this.getCheckoutAttemptByKey(insertAttempt.idempotencyKey)) {
+      return undefined;
+    }
+
+    const id = randomUUID();
+    const attempt: CheckoutAttempt = {
+      ...insertAttempt,
+      id,
+      planId: null,
+      checkoutId: null,
+      checkoutUrl: null,
+      checkoutClientSecret: null,
+      status: "in_progress",
+      createdAt: new Date()
+    };
+    this.checkoutAttempts.set(id, attempt);
+    return attempt;
+  }
+
+  async updateCheckoutAttempt(id: string, changes: CheckoutAttemptUpdate): Promise<CheckoutAttempt> {
+    const attempt = this.checkoutAttempts.get(id);
+    if (!attempt) {
+      throw new Error('Checkout attempt not found');
+    }
+
+    const updatedAttempt = { ...attempt, ...changes };
+    this.checkoutAttempts.set(id, updatedAttempt);
+    return updatedAttempt;
+  }
+
+  async getPaymentEvent(id: string): Promise<PaymentEvent | undefined> {
+    return this.paymentEvents.get(id);
+  }
+
+  async createPaymentEvent(insertEvent: InsertPaymentEvent): Promise<PaymentEvent | undefined> {
+    if (this.paymentEvents.has(insertEvent.id)) {
+      return undefined;
+    }
+
+    const event: PaymentEvent = {
+      ...insertEvent,
+      processedAt: null,
+      createdAt: new Date()
+    };
+    this.paymentEvents.set(event.id, event);
+    return event;
+  }
+
+  async markPaymentEventProcessed(id: string): Promise<PaymentEvent> {
+    const event = this.paymentEvents.get(id);
+    if (!event) {
+      throw new Error('Payment event not found');
+    }
+
+    const updatedEvent = { ...event, processedAt: new Date() };
+    this.paymentEvents.set(id, updatedEvent);
+    return updatedEvent;
+  }
+
+  async deletePaymentEvent(id: string): Promise<void> {
+    this.paymentEvents.delete(id);
+  }
+
+  async getNotificationsByPlan(planId: string): Promise<Notification[]> {
+    return Array.from(this.notifications.values())
+      .filter((notification) => notification.planId === planId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async createNotification(insertNotification: InsertNotification): Promise<Notification> {
+    const id = randomUUID();
+    const notification: Notification = {
+      ...insertNotification,
+      id,
+      installmentId: insertNotification.installmentId ?? null,
+      sentAt: null,
+      createdAt: new Date()
+    };
+    this.notifications.set(id, notification);
+    return notification;
+  }
+
+  async markNotificationSent(id: string): Promise<Notification> {
+    const notification = this.notifications.get(id);
+    if (!notification) {
+      throw new Error('Notification not found');
+    }
+
+    const updatedNotification = { ...notification, sentAt: new Date() };
+    this.notifications.set(id, updatedNotification);
+    return updatedNotification;
+  }
+
+  async getRefundsByPlan(planId: string): Promise<Refund[]> {
+    return Array.from(this.refunds.values())
+      .filter((refund) => refund.planId === planId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async createRefund(insertRefund: InsertRefund): Promise<Refund> {
+    const id = randomUUID();
+    const refund: Refund = {
+      ...insertRefund,
+      id,
+      installmentId: insertRefund.installmentId ?? null,
+      refundRequestId: insertRefund.refundRequestId ?? null,
+      stripeRefundId: insertRefund.stripeRefundId ?? null,
+      createdAt: new Date()
+    };
+    this.refunds.set(id, refund);
+    return refund;
+  }
+
+  async getRefundRequest(id: string): Promise<RefundRequest | undefined> {
+    return this.refundRequests.get(id);
+  }
+
+  async getRefundRequestsByPlan(planId: string): Promise<RefundRequest[]> {
+    return Array.from(this.refundRequests.values())
+      .filter((request) => request.planId === planId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async getRefundRequestsByStatus(status: string): Promise<RefundRequest[]> {
+    return Array.from(this.refundRequests.values())
+      .filter((request) => request.status === status)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async createRefundRequest(insertRequest: InsertRefundRequest): Promise<RefundRequest> {
+    const id = randomUUID();
+    const request: RefundRequest = {
+      ...insertRequest,
+      id,
+      note: insertRequest.note ?? null,
+      cancelRemaining: insertRequest.cancelRemaining ?? false,
+      status: "pending_approval",
+      decidedBy: null,
+      decidedAt: null,
+      createdAt: new Date()
+    };
+    this.refundRequests.set(id, request);
+    return request;
+  }
+
+  async updateRefundRequest(id: string, changes: RefundRequestUpdate): Promise<RefundRequest> {
+    const request = this.refundRequests.get(id);
+    if (!request) {
+      throw new Error('Refund request not found');
+    }
+
+    const updatedRequest = { ...request, ...changes };
+    this.refundRequests.set(id, updatedRequest);
+    return updatedRequest;
+  }
+
+  async decideRefundRequest(id: string, changes: RefundRequestUpdate): Promise<RefundRequest | undefined> {
+    const request = this.refundRequests.get(id);
+    if (!request || request.status !== "pending_approval") {
+      return undefined;
+    }
+
+    const decidedRequest = { ...request, ...changes };
+    this.refundRequests.set(id, decidedRequest);
+    return decidedRequest;
+  }
+
+  async getPlanReschedulesByPlan(planId: string): Promise<PlanReschedule[]> {
+    return Array.from(this.planReschedules.values())
+      .filter((reschedule) => reschedule.planId === planId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async createPlanReschedule(insertReschedule: InsertPlanReschedule): Promise<PlanReschedule> {
+    const id = randomUUID();
+    const reschedule: PlanReschedule = { ...insertReschedule, id, createdAt: new Date() };
+    this.planReschedules.set(id, reschedule);
+    return reschedule;
+  }
+
+  async getDispute(id: string): Promise<Dispute | undefined> {
+    return this.disputes.get(id);
+  }
+
+  async getDisputeByStripeId(stripeDisputeId: string): Promise<Dispute | undefined> {
+    return Array.from(this.disputes.values()).find((dispute) => dispute.stripeDisputeId === stripeDisputeId);
+  }
+
+  async getDisputesByPlan(planId: string): Promise<Dispute[]> {
+    return Array.from(this.disputes.values())
+      .filter((dispute) => dispute.planId === planId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async getOpenDisputes(): Promise<Dispute[]> {
+    return Array.from(this.disputes.values())
+      .filter((dispute) => dispute.closedAt === null)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async createDispute(insertDispute: InsertDispute): Promise<Dispute> {
+    const id = randomUUID();
+    const dispute: Dispute = {
+      ...insertDispute,
+      id,
+      evidenceDueBy: insertDispute.evidenceDueBy ?? null,
+      evidenceSubmittedAt: null,
+      evidenceSubmittedBy: null,
+      closedAt: null,
+      createdAt: new Date()
+    };
+    this.disputes.set(id, dispute);
+    return dispute;
+  }
+
+  async updateDispute(id: string, changes: DisputeUpdate): Promise<Dispute> {
+    const dispute = this.disputes.get(id);
+    if (!dispute) {
+      throw new Error('Dispute not found');
+    }
+
+    const updatedDispute = { ...dispute, ...changes };
+    this.disputes.set(id, updatedDispute);
+    return updatedDispute;
+  }
+
+  async getAdminTask(id: string): Promise<AdminTask | undefined> {
+    return this.adminTasks.get(id);
+  }
+
+  async getAdminTasksByStatus(status: string): Promise<AdminTask[]> {
+    return Array.from(this.adminTasks.values())
+      .filter((task) => task.status === status)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async getAdminTasksByDispute(disputeId: string): Promise<AdminTask[]> {
+    return Array.from(this.adminTasks.values())
+      .filter((task) => task.disputeId === disputeId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async createAdminTask(insertTask: InsertAdminTask): Promise<AdminTask> {
+    const id = randomUUID();
+    const task: AdminTask = {
+      ...insertTask,
+      id,
+      planId: insertTask.planId ?? null,
+      disputeId: insertTask.disputeId ?? null,
+      dueAt: insertTask.dueAt ?? null,
+      status: "open",
+      completedBy: null,
+      completedAt: null,
+      createdAt: new Date()
+    };
+    this.adminTasks.set(id, task);
+    return task;
+  }
+
+  async updateAdminTask(id: string, changes: AdminTaskUpdate): Promise<AdminTask> {
+    const task = this.adminTasks.get(id);
+    if (!task) {
+      throw new Error('Admin task not found');
+    }
+
+    const updatedTask = { ...task, ...changes };
+    this.adminTasks.set(id, updatedTask);
+    return updatedTask;
+  }
+}
+
+export class DatabaseStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  async getCustomer(id: string): Promise<Customer | undefined> {
+    const [customer] = await this.db.select().from(customers).where(eq(customers.id, id));
+    return customer;
+  }
+
+  async getCustomerByEmail(email: string): Promise<Customer | undefined> {
+    const [customer] = await this.db.select().from(customers).where(eq(customers.email, email));
+    return customer;
+  }
+
+  async createCustomer(insertCustomer: InsertCustomer): Promise<Customer> {
+    const [customer] = await this.db.insert(customers).values(insertCustomer).returning();
+    return customer;
+  }
+
+  async updateCustomerStripeInfo(id: string, stripeCustomerId: string, stripeSubscriptionId?: string): Promise<Customer> {
+    const changes: Partial<Customer> = { stripeCustomerId };
+    if (stripeSubscriptionId) {
+      changes.stripeSubscriptionId = stripeSubscriptionId;
+    }
+
+    const [customer] = await this.db
+      .update(customers)
+      .set(changes)
+      .where(eq(customers.id, id))
+      .returning();
+    if (!customer) {
+      throw new Error('Customer not found');
+    }
+    return customer;
+  }
+
+  async getPcn(id: string): Promise<Pcn | undefined> {
+    const [pcn] = await this.db.select().from(pcns).where(eq(pcns.id, id));
+    return pcn;
+  }
+
+  async getPcnByNumber(pcnNumber: string): Promise<Pcn | undefined> {
+    const [pcn] = await this.db.select().from(pcns).where(eq(pcns.pcnNumber, pcnNumber));
+    return pcn;
+  }
+
+  async getPcnsByCustomer(customerId: string): Promise<Pcn[]> {
+    return this.db.select().from(pcns).where(eq(pcns.customerId, customerId));
+  }
+
+  async createPcn(insertPcn: InsertPcn): Promise<Pcn> {
+    const [pcn] = await this.db.insert(pcns).values(insertPcn).returning();
+    return pcn;
+  }
+
+  async updatePcn(id: string, changes: PcnUpdate): Promise<Pcn> {
+    const [pcn] = await this.db
+      .update(pcns)
+      .set(changes)
+      .where(eq(pcns.id, id))
+      .returning();
+    if (!pcn) {
+      throw new Error('PCN not found');
+    }
+    return pcn;
+  }
+
+  async getPaymentPlan(id: string): Promise<PaymentPlan | undefined> {
+    const [plan] = await this.db.select().from(paymentPlans).where(eq(paymentPlans.id, id));
+    return plan;
+  }
+
+  async getPaymentPlanByStripeSubscriptionId(stripeSubscriptionId: string): Promise<PaymentPlan | undefined> {
+    const [plan] = await this.db
+      .select()
+      .from(paymentPlans)
+      .where(eq(paymentPlans.stripeSubscriptionId, stripeSubscriptionId));
+    return plan;
+  }
+
+  async getPaymentPlansByPcn(pcnId: string): Promise<PaymentPlan[]> {
+    return this.db.select().from(paymentPlans).where(eq(paymentPlans.pcnId, pcnId));
+  }
+
+  async createPaymentPlan(insertPlan: InsertPaymentPlan): Promise<PaymentPlan> {
+    const [plan] = await this.db.insert(paymentPlans).values(insertPlan).returning();
+    return plan;
+  }
+
+  async updatePaymentPlan(id: string, changes: PaymentPlanUpdate): Promise<PaymentPlan> {
+    const [plan] = await this.db
+      .update(paymentPlans)
+      .set(changes)
+      .where(eq(paymentPlans.id, id))
+      .returning();
+    if (!plan) {
+      throw new Error('Payment plan not found');
+    }
+    return plan;
+  }
+
+  async getInstallmentsByPlan(planId: string): Promise<Installment[]> {
+    return this.db
+      .select()
+      .from(installments)
+      .where(eq(installments.planId, planId))
+      .orderBy(asc(installments.sequence));
+  }
+
+  async createInstallment(insertInstallment: InsertInstallment): Promise<Installment> {
+    const [installment] = await this.db.insert(installments).values(insertInstallment).returning();
+    return installment;
+  }
+
+  async updateInstallment(id: string, changes: InstallmentUpdate): Promise<Installment> {
+    const [installment] = await this.db
+      .update(installments)
+      .set(changes)
+      .where(eq(installments.id, id))
+      .returning();
+    if (!installment) {
+      throw new Error('Installment not found');
+    }
+    return installment;
+  }
+
+  async getInstallmentsDueForRetry(now: Date): Promise<Installment[]> {
+    return this.db
+      .select()
+      .from(installments)
+      .where(and(eq(installments.status, "failed"), lte(installments.nextRetryAt, now)));
+  }
+
+  async getCheckoutAttemptByKey(idempotencyKey: string): Promise<CheckoutAttempt | undefined> {
+    const [attempt] = await this.db
+      .select()
+      .from(checkoutAttempts)
+      .where(eq(checkoutAttempts.idempotencyKey, idempotencyKey));
+    return attempt;
+  }
+
+  async getCheckoutAttemptsByPcn(pcnId: string): Promise<CheckoutAttempt[]> {
+    return this.db.select().from(checkoutAttempts).where(eq(checkoutAttempts.pcnId, pcnId));
+  }
+
+  async getUnfinishedCheckoutAttempts(createdBefore: Date): Promise<CheckoutAttempt[]> {
+    return this.db
+      .select()
+      .from(checkoutAttempts)
+      .where(
+        and(
+          inArray(checkoutAttempts.status, ["in_progress", "open"]),
+          lt(checkoutAttempts.createdAt, createdBefore),
+        ),
+      );
+  }
+
+  async createCheckoutAttempt(insertAttempt: InsertCheckoutAttempt): Promise<CheckoutAttempt | undefined> {
+    const [attempt] = await this.db
+      .insert(checkoutAttempts)
+      .values(insertAttempt)
+      .onConflictDoNothing({ target: checkoutAttempts.idempotencyKey })
+      .returning();
+    return attempt;
+  }
+
+  async updateCheckoutAttempt(id: string, changes: CheckoutAttemptUpdate): Promise<CheckoutAttempt> {
+    const [attempt] = await this.db
+      .update(checkoutAttempts)
+      .set(changes)
+      .where(eq(checkoutAttempts.id, id))
+      .returning();
+    if (!attempt) {
+      throw new Error('Checkout attempt not found');
+    }
+    return attempt;
+  }
+
+  async getPaymentEvent(id: string): Promise<PaymentEvent | undefined> {
+    const [event] = await this.db.select().from(paymentEvents).where(eq(paymentEvents.id, id));
+    return event;
+  }
+
+  async createPaymentEvent(insertEvent: InsertPaymentEvent): Promise<PaymentEvent | undefined> {
+    const [event] = await this.db
+      .insert(paymentEvents)
+      .values(insertEvent)
+      .onConflictDoNothing({ target: paymentEvents.id })
+      .returning();
+    return event;
+  }
+
+  async markPaymentEventProcessed(id: string): Promise<PaymentEvent> {
+    const [event] = await this.db
+      .update(paymentEvents)
+      .set({ processedAt: new Date() })
+      .where(eq(paymentEvents.id, id))
+      .returning();
+    if (!event) {
+      throw new Error('Payment event not found');
+    }
+    return event;
+  }
+
+  async deletePaymentEvent(id: string): Promise<void> {
+    await this.db.delete(paymentEvents).where(eq(paymentEvents.id, id));
+  }
+
+  async getNotificationsByPlan(planId: string): Promise<Notification[]> {
+    return this.db
+      .select()
+      .from(notifications)
+      .where(eq(notifications.planId, planId))
+      .orderBy(asc(notifications.createdAt));
+  }
+
+  async createNotification(insertNotification: InsertNotification): Promise<Notification> {
+    const [notification] = await this.db.insert(notifications).values(insertNotification).returning();
+    return notification;
+  }
+
+  async markNotificationSent(id: string): Promise<Notification> {
+    const [notification] = await this.db
+      .update(notifications)
+      .set({ sentAt: new Date() })
+      .where(eq(notifications.id, id))
+      .returning();
+    if (!notification) {
+      throw new Error('Notification not found');
+    }
+    return notification;
+  }
+
+  async getRefundsByPlan(planId: string): Promise<Refund[]> {
+    return this.db.select().from(refunds).where(eq(refunds.planId, planId)).orderBy(asc(refunds.createdAt));
+  }
+
+  async createRefund(insertRefund: InsertRefund): Promise<Refund> {
+    const [refund] = await this.db.insert(refunds).values(insertRefund).returning();
+    return refund;
+  }
+
+  async getRefundRequest(id: string): Promise<RefundRequest | undefined> {
+    const [request] = await this.db.select().from(refundRequests).where(eq(refundRequests.id, id));
+    return request;
+  }
+
+  async getRefundRequestsByPlan(planId: string): Promise<RefundRequest[]> {
+    return this.db
+      .select()
+      .from(refundRequests)
+      .where(eq(refundRequests.planId, planId))
+      .orderBy(asc(refundRequests.createdAt));
+  }
+
+  async getRefundRequestsByStatus(status: string): Promise<RefundRequest[]> {
+    return this.db
+      .select()
+      .from(refundRequests)
+      .where(eq(refundRequests.status, status))
+      .orderBy(asc(refundRequests.createdAt));
+  }
+
+  async createRefundRequest(insertRequest: InsertRefundRequest): Promise<RefundRequest> {
+    const [request] = await this.db.insert(refundRequests).values(insertRequest).returning();
+    return request;
+  }
+
+  async updateRefundRequest(id: string, changes: RefundRequestUpdate): Promise<RefundRequest> {
+    const [request] = await this.db
+      .update(refundRequests)
+      .set(changes)
+      .where(eq(refundRequests.id, id))
+      .returning();
+    if (!request) {
+      throw new Error('Refund request not found');
+    }
+    return request;
+  }
+
+  async decideRefundRequest(id: string, changes: RefundRequestUpdate): Promise<RefundRequest | undefined> {
+    const [request] = await this.db
+      .update(refundRequests)
+      .set(changes)
+      .where(and(eq(refundRequests.id, id), eq(refundRequests.status, "pending_approval")))
+      .returning();
+    return request;
+  }
+
+  async getPlanReschedulesByPlan(planId: string): Promise<PlanReschedule[]> {
+    return this.db
+      .select()
+      .from(planReschedules)
+      .where(eq(planReschedules.planId, planId))
+      .orderBy(asc(planReschedules.createdAt));
+  }
+
+  async createPlanReschedule(insertReschedule: InsertPlanReschedule): Promise<PlanReschedule> {
+    const [reschedule] = await this.db.insert(planReschedules).values(insertReschedule).returning();
+    return reschedule;
+  }
+
+  async getDispute(id: string): Promise<Dispute | undefined> {
+    const [dispute] = await this.db.select().from(disputes).where(eq(disputes.id, id));
+    return dispute;
+  }
+
+  async getDisputeByStripeId(stripeDisputeId: string): Promise<Dispute | undefined> {
+    const [dispute] = await this.db.select().from(disputes).where(eq(disputes.stripeDisputeId, stripeDisputeId));
+    return dispute;
+  }
+
+  async getDisputesByPlan(planId: string): Promise<Dispute[]> {
+    return this.db.select().from(disputes).where(eq(disputes.planId, planId)).orderBy(asc(disputes.createdAt));
+  }
+
+  async getOpenDisputes(): Promise<Dispute[]> {
+    return this.db.select().from(disputes).where(isNull(disputes.closedAt)).orderBy(asc(disputes.createdAt));
+  }
+
+  async createDispute(insertDispute: InsertDispute): Promise<Dispute> {
+    const [dispute] = await this.db.insert(disputes).values(insertDispute).returning();
+    return dispute;
+  }
+
+  async updateDispute(id: string, changes: DisputeUpdate): Promise<Dispute> {
+    const [dispute] = await this.db
+      .update(disputes)
+      .set(changes)
+      .where(eq(disputes.id, id))
+      .returning();
+    if (!dispute) {
+      throw new Error('Dispute not found');
+    }
+    return dispute;
+  }
+
+  async getAdminTask(id: string): Promise<AdminTask | undefined> {
+    const [task] = await this.db.select().from(adminTasks).where(eq(adminTasks.id, id));
+    return task;
+  }
+
+  async getAdminTasksByStatus(status: string): Promise<AdminTask[]> {
+    return this.db.select().from(adminTasks).where(eq(adminTasks.status, status)).orderBy(asc(adminTasks.createdAt));
+  }
+
+  async getAdminTasksByDispute(disputeId: string): Promise<AdminTask[]> {
+    return this.db
+      .select()
+      .from(adminTasks)
+      .where(eq(adminTasks.disputeId, disputeId))
+      .orderBy(asc(adminTasks.createdAt));
+  }
+
+  async createAdminTask(insertTask: InsertAdminTask): Promise<AdminTask> {
+    const [task] = await this.db.insert(adminTasks).values(insertTask).returning();
+    return task;
+  }
+
+  async updateAdminTask(id: string, changes: AdminTaskUpdate): Promise<AdminTask> {
+    const [task] = await this.db
+      .update(adminTasks)
+      .set(changes)
+      .where(eq(adminTasks.id, id))
+      .returning();
+    if (!task) {
+      throw new Error('Admin task not found');
+    }
+    return task;
+  }
 }
 
-export const storage = new MemStorage();
+// Persist to Postgres whenever a database is provisioned; fall back to the
+// in-memory store for local development and tests.
+export const storage: IStorage = process.env.DATABASE_URL
+  ? new DatabaseStorage(createDb(process.env.DATABASE_URL))
+  : new MemStorage();
@@ -0,0 +1,100 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { CheckoutCompletedEvent } from "./payment-gateway";
+import { StripeGateway } from "./stripe-gateway";
+
+interface FakeSchedule {
+  id: string;
+  end_behavior: string;
+  phases: { start_date: number; trial_end: number | null }[];
+}
+
+// Just the subscription and schedule calls startPlanSchedule makes
+const stripe = vi.hoisted(() => {
+  const state = {
+    subscriptionSchedule: null as string | null,
+    schedule: undefined as FakeSchedule | undefined,
+    failNextUpdate: false,
+  };
+  return {
+    state,
+    subscriptions: {
+      retrieve: vi.fn(async (id: string) => ({ id, schedule: state.subscriptionSchedule })),
+    },
+    subscriptionSchedules: {
+      create: vi.fn(async () => {
+        state.schedule = { id: "sub_sched_1", end_behavior: "release", phases: [{ start_date: 1800000000, trial_end: null }] };
+        state.subscriptionSchedule = state.schedule.id;
+        return state.schedule;
+      }),
+      retrieve: vi.fn(async () => state.schedule),
+      update: vi.fn(async (_id: string, params: { end_behavior: string; phases: FakeSchedule["phases"] }) => {
+        if (state.failNextUpdate) {
+          state.failNextUpdate = false;
+          throw new Error("Stripe is unavailable");
+        }
+        state.schedule = { ...state.schedule!, end_behavior: params.end_behavior, phases: params.phases };
+        return state.schedule;
+      }),
+    },
+  };
+});
+
+vi.mock("stripe", () => ({
+  default: function Stripe() {
+    return stripe;
+  },
+}));
+
+const event: CheckoutCompletedEvent = {
+  type: "checkout.completed",
+  id: "evt_1",
+  checkoutId: "cs_1",
+  gatewayCustomerId: "cus_1",
+  subscriptionId: "sub_1",
+  metadata: { planId: "plan-1", customerId: "customer-1", phasePriceIds: "price_a,price_b", phaseIterations: "5,1" },
+};
+
+describe("StripeGateway.startPlanSchedule", () => {
+  beforeEach(() => {
+    stripe.state.subscriptionSchedule = null;
+    stripe.state.schedule = undefined;
+    stripe.state.failNextUpdate = false;
+    vi.clearAllMocks();
+  });
+
+  it("wraps the subscription in a schedule that cancels after the last phase", async () => {
+    const gateway = new StripeGateway("sk_test");
+    expect(await gateway.startPlanSchedule(event)).toEqual({ scheduleId: "sub_sched_1" });
+
+    expect(stripe.subscriptionSchedules.update).toHaveBeenCalledWith("sub_sched_1", {
+      end_behavior: "cancel",
+      metadata: event.metadata,
+      phases: [
+        { items: [{ price: "price_a", quantity: 1 }], iterations: 5, start_date: 1800000000 },
+        { items: [{ price: "price_b", quantity: 1 }], iterations: 1 },
+      ],
+    });
+  });
+
+  it("sets the phases on redelivery when the first update failed", async () => {
+    const gateway = new StripeGateway("sk_test");
+    stripe.state.failNextUpdate = true;
+    await expect(gateway.startPlanSchedule(event)).rejects.toThrow("Stripe is unavailable");
+    expect(stripe.state.schedule?.end_behavior).toBe("release");
+
+    expect(await gateway.startPlanSchedule(event)).toEqual({ scheduleId: "sub_sched_1" });
+    expect(stripe.subscriptionSchedules.create).toHaveBeenCalledTimes(1);
+    expect(stripe.subscriptionSchedules.update).toHaveBeenCalledTimes(2);
+    expect(stripe.state.schedule?.end_behavior).toBe("cancel");
+    expect(stripe.state.schedule?.phases).toHaveLength(2);
+  });
+
+  it("leaves a schedule that is already set up alone", async () => {
+    const gateway = new StripeGateway("sk_test");
+    await gateway.startPlanSchedule(event);
+    await gateway.startPlanSchedule(event);
+
+    expect(stripe.subscriptionSchedules.create).toHaveBeenCalledTimes(1);
+    expect(stripe.subscriptionSchedules.update).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,685 @@
+import type { IncomingHttpHeaders } from "http";
+import Stripe from "stripe";
+import { addDays, addMonths, addWeeks, addYears } from "date-fns";
+import type { Customer, DisputeStatus, PaymentPlan } from "@shared/schema";
+import { billingIntervalLabels, getInstallmentDueDates, type BillingInterval } from "@shared/payment-plans";
+import { groupIntoPhases, toPounds } from "@shared/installments";
+import type {
+  CheckoutCompletedEvent,
+  CheckoutResult,
+  CheckoutUiMode,
+  DisputeEvidence,
+  GatewayCheckout,
+  GatewayEvent,
+  PaymentGateway,
+  PaymentCheckoutRequest,
+  PaymentMethodUpdateRequest,
+  PaymentMethodUpdatedEvent,
+  PlanCheckoutRequest,
+  RefundRequest,
+  RefundResult,
+  ScheduledCharge,
+  SettlementCheckoutRequest,
+} from "./payment-gateway";
+import { StripePriceCatalog } from "./stripe-price-catalog";
+
+// Stripe ids arrive either as plain strings or as expanded objects.
+function idOf(value: string | { id?: string } | null | undefined): string | undefined {
+  if (!value) return undefined;
+  return typeof value === "string" ? value : value.id;
+}
+
+// Stripe's dispute statuses, including those of inquiries ("warning_*") that
+// may never become chargebacks
+const disputeStatuses: Record<Stripe.Dispute.Status, DisputeStatus> = {
+  warning_needs_response: "needs_response",
+  needs_response: "needs_response",
+  warning_under_review: "under_review",
+  under_review: "under_review",
+  warning_closed: "won",
+  won: "won",
+  lost: "lost",
+};
+
+// Expanded objects arrive as objects; unexpanded ones (or none) as ids or null
+function expanded<T extends object>(value: string | T | null | undefined): T | undefined {
+  return value && typeof value === "object" ? value : undefined;
+}
+
+function toUnixTime(date: Date): number {
+  return Math.floor(date.getTime() / 1000);
+}
+
+function fromUnixTime(seconds: number): string {
+  return new Date(seconds * 1000).toISOString();
+}
+
+// Hosted checkouts redirect back to us; embedded ones only need a return URL
+function checkoutPages(
+  request: Pick<PlanCheckoutRequest, "uiMode" | "successUrl" | "cancelUrl">,
+): Pick<Stripe.Checkout.SessionCreateParams, "ui_mode" | "success_url" | "cancel_url" | "return_url"> {
+  if (request.uiMode === "embedded") {
+    return { ui_mode: "embedded", return_url: request.successUrl };
+  }
+  return { success_url: request.successUrl, cancel_url: request.cancelUrl };
+}
+
+function toCheckoutResult(session: Stripe.Checkout.Session, uiMode: CheckoutUiMode): CheckoutResult {
+  if (uiMode === "embedded") {
+    if (!session.client_secret) {
+      throw new Error("Stripe did not return a checkout client secret");
+    }
+    return { id: session.id, url: null, clientSecret: session.client_secret };
+  }
+  if (!session.url) {
+    throw new Error("Stripe did not return a checkout URL");
+  }
+  return { id: session.id, url: session.url, clientSecret: null };
+}
+
+// The nth billing date of a recurring price counted from the phase start
+function addBillingPeriods(start: Date, recurring: Stripe.Price.Recurring, periods: number): Date {
+  const count = recurring.interval_count * periods;
+  switch (recurring.interval) {
+    case "day":
+      return addDays(start, count);
+    case "week":
+      return addWeeks(start, count);
+    case "month":
+      return addMonths(start, count);
+    case "year":
+      return addYears(start, count);
+  }
+}
+
+export class StripeGateway implements PaymentGateway {
+  readonly name = "stripe";
+  private stripe: Stripe;
+  private catalog: StripePriceCatalog;
+
+  constructor(secretKey: string, private webhookSecret?: string, operatorId = "pcn") {
+    this.stripe = new Stripe(secretKey, {
+      apiVersion: "2025-07-30.basil",
+    });
+    this.catalog = new StripePriceCatalog(this.stripe, operatorId);
+  }
+
+  async createCustomer(customer: Customer): Promise<string> {
+    const stripeCustomer = await this.stripe.customers.create(
+      {
+        email: customer.email,
+        metadata: {
+          customerId: customer.id,
+        },
+      },
+      { idempotencyKey: `customer-${customer.id}` },
+    );
+    return stripeCustomer.id;
+  }
+
+  async createPlanCheckout(request: PlanCheckoutRequest): Promise<CheckoutResult> {
+    const { pcn, plan, installmentAmounts, interval, paymentMethod, idempotencyKey } = request;
+
+    // One catalog price per distinct installment amount. A deposit is always
+    // a phase of its own, priced on the deposit product, even when it happens
+    // to match the payments after it.
+    const hasDeposit = plan.type === "deposit";
+    const balancePhases = groupIntoPhases(hasDeposit ? installmentAmounts.slice(1) : installmentAmounts);
+    const balancePriceIds = await this.catalog.getRecurringPriceIds(
+      "installments",
+      balancePhases.map((phase) => phase.amount),
+      interval,
+    );
+    const phases = hasDeposit ? [{ amount: installmentAmounts[0], iterations: 1 }, ...balancePhases] : balancePhases;
+    const phasePriceIds = hasDeposit
+      ? [...(await this.catalog.getRecurringPriceIds("deposit", [installmentAmounts[0]], interval)), ...balancePriceIds]
+      : balancePriceIds;
+    const frequency = billingIntervalLabels[interval].adjective;
+    const description = hasDeposit
+      ? `Deposit of £${toPounds(installmentAmounts[0])} and ${installmentAmounts.length - 1} ${frequency} payments`
+      : `${installmentAmounts.length} ${frequency} payments`;
+
+    const metadata = {
+      ...request.metadata,
+      phasePriceIds: phasePriceIds.join(","),
+      phaseIterations: phases.map((phase) => phase.iterations).join(","),
+    };
+
+    // Checkout starts the subscription on the first phase's price; the
+    // webhook converts it into a fixed-length, multi-phase subscription
+    // schedule once checkout completes. A later first payment is a
+    // trial that ends on that date, which also anchors the billing cycle
+    // there, so Checkout only saves the payment details.
+    const session = await this.stripe.checkout.sessions.create(
+      {
+        mode: "subscription",
+        customer: request.gatewayCustomerId,
+        // Card covers Apple Pay and Google Pay. Checkout shows the Bacs
+        // mandate for the driver to confirm before the first debit.
+        payment_method_types: [paymentMethod],
+        line_items: [{ price: phasePriceIds[0], quantity: 1 }],
+        subscription_data: {
+          description: `${description} for PCN ${pcn.pcnNumber}, Vehicle ${pcn.vehicleRegistration}, Total: £${toPounds(plan.totalAmount)}`,
+          ...(request.firstPaymentDate ? { trial_end: toUnixTime(request.firstPaymentDate) } : {}),
+          metadata,
+        },
+        customer_update: {
+          name: "auto",
+        },
+        ...checkoutPages(request),
+        metadata,
+      },
+      { idempotencyKey: `${idempotencyKey}-session` },
+    );
+
+    return toCheckoutResult(session, request.uiMode);
+  }
+
+  // One-off payments use inline price_data on the shared "full" product, so
+  // nothing new is added to the catalog. An invoice is raised for the payment
+  // so refunds work the same way as for installments.
+  async createPaymentCheckout(request: PaymentCheckoutRequest): Promise<CheckoutResult> {
+    const { pcn, plan } = request;
+    return this.createOneOffCheckout(
+      request,
+      plan.totalAmount,
+      `Full payment for PCN ${pcn.pcnNumber}, Vehicle ${pcn.vehicleRegistration}`,
+    );
+  }
+
+  async createSettlementCheckout(request: SettlementCheckoutRequest): Promise<CheckoutResult> {
+    const { pcn } = request;
+    return this.createOneOffCheckout(
+      request,
+      request.amount,
+      `Early settlement of the payment plan for PCN ${pcn.pcnNumber}, Vehicle ${pcn.vehicleRegistration}`,
+    );
+  }
+
+  private async createOneOffCheckout(
+    request: PaymentCheckoutRequest,
+    amount: number,
+    description: string,
+  ): Promise<CheckoutResult> {
+    const { metadata } = request;
+    const productId = await this.catalog.getProductId("full");
+
+    const session = await this.stripe.checkout.sessions.create(
+      {
+        mode: "payment",
+        customer: request.gatewayCustomerId,
+        line_items: [
+          {
+            price_data: { currency: "gbp", product: productId, unit_amount: amount },
+            quantity: 1,
+          },
+        ],
+        payment_intent_data: {
+          description,
+          metadata,
+        },
+        invoice_creation: { enabled: true, invoice_data: { metadata } },
+        customer_update: {
+          name: "auto",
+        },
+        ...checkoutPages(request),
+        metadata,
+      },
+      { idempotencyKey: `${request.idempotencyKey}-session` },
+    );
+
+    return toCheckoutResult(session, request.uiMode);
+  }
+
+  async getCheckout(checkoutId: string): Promise<GatewayCheckout | undefined> {
+    let session: Stripe.Checkout.Session;
+    try {
+      session = await this.stripe.checkout.sessions.retrieve(checkoutId, {
+        expand: ["invoice", "subscription.schedule"],
+      });
+    } catch (error: any) {
+      if (error.code === "resource_missing") return undefined;
+      throw error;
+    }
+
+    const checkout = {
+      id: session.id,
+      status: session.status ?? "open",
+      customerEmail: session.customer_details?.email ?? null,
+      metadata: session.metadata || {},
+    };
+
+    if (session.mode === "payment") {
+      const invoice = expanded(session.invoice);
+      const paidAt = invoice?.status_transitions.paid_at;
+      return {
+        ...checkout,
+        payments: invoice && paidAt ? [{ amount: invoice.amount_paid, paidAt: fromUnixTime(paidAt) }] : [],
+        processing: [],
+        upcoming: [],
+      };
+    }
+
+    const subscription = expanded(session.subscription);
+    if (!subscription) {
+      return { ...checkout, payments: [], processing: [], upcoming: null };
+    }
+
+    const invoices = await this.stripe.invoices.list({ subscription: subscription.id, status: "paid", limit: 100 });
+    // A plan starting later opens with a zero invoice for its trial
+    const payments = invoices.data
+      .filter((invoice) => invoice.status_transitions.paid_at && invoice.amount_paid > 0)
+      .map((invoice) => ({ amount: invoice.amount_paid, paidAt: fromUnixTime(invoice.status_transitions.paid_at!) }))
+      .sort((a, b) => a.paidAt.localeCompare(b.paidAt));
+    const processing =
+      session.metadata?.paymentMethod === "bacs_debit" ? await this.getProcessingPayments(subscription.id) : [];
+
+    if (subscription.status === "canceled") {
+      return { ...checkout, payments, processing, upcoming: [] };
+    }
+    const schedule = expanded(subscription.schedule);
+    if (!schedule) {
+      return { ...checkout, payments, processing, upcoming: null };
+    }
+
+    // The current period's invoice has already been raised, so billing dates
+    // after its start are still to come. Rescheduled plans no longer carry
+    // their past phases, so counting invoices from the first phase won't do.
+    const periodStart = fromUnixTime(subscription.items.data[0].current_period_start);
+    const charges = await this.getScheduledCharges(schedule);
+    return { ...checkout, payments, processing, upcoming: charges.filter((charge) => charge.dueDate > periodStart) };
+  }
+
+  // A Direct Debit's invoice stays open while its payment clears
+  private async getProcessingPayments(subscriptionId: string): Promise<{ amount: number; submittedAt: string }[]> {
+    const invoices = await this.stripe.invoices.list({ subscription: subscriptionId, status: "open", limit: 100 });
+    const processing: { amount: number; submittedAt: string }[] = [];
+    for (const invoice of invoices.data) {
+      const invoicePayments = await this.stripe.invoicePayments.list({
+        invoice: invoice.id!,
+        expand: ["data.payment.payment_intent"],
+      });
+      const paymentIntent = expanded(invoicePayments.data[0]?.payment.payment_intent);
+      if (paymentIntent?.status === "processing") {
+        processing.push({ amount: invoice.amount_due, submittedAt: fromUnixTime(paymentIntent.created) });
+      }
+    }
+    return processing.sort((a, b) => a.submittedAt.localeCompare(b.submittedAt));
+  }
+
+  private async findInvoiceForPaymentIntent(paymentIntentId: string): Promise<Stripe.Invoice | undefined> {
+    const invoicePayments = await this.stripe.invoicePayments.list({
+      payment: { type: "payment_intent", payment_intent: paymentIntentId },
+      limit: 1,
+      expand: ["data.invoice"],
+    });
+    const invoice = invoicePayments.data[0]?.invoice;
+    return invoice && typeof invoice === "object" && !invoice.deleted ? invoice : undefined;
+  }
+
+  private async getScheduledCharges(schedule: Stripe.SubscriptionSchedule): Promise<{ amount: number; dueDate: string }[]> {
+    const charges: { amount: number; dueDate: string }[] = [];
+    for (const phase of schedule.phases) {
+      // Trial phases are gaps left by rescheduling: nothing is charged in them
+      if (phase.trial_end) continue;
+      const price = await this.stripe.prices.retrieve(idOf(phase.items[0].price)!);
+      if (!price.recurring || price.unit_amount === null) continue;
+
+      const start = new Date(phase.start_date * 1000);
+      const end = new Date(phase.end_date * 1000);
+      for (let i = 0, dueDate = start; dueDate < end; i++, dueDate = addBillingPeriods(start, price.recurring, i)) {
+        charges.push({ amount: price.unit_amount, dueDate: dueDate.toISOString() });
+      }
+    }
+    return charges;
+  }
+
+  async expireCheckout(checkoutId: string): Promise<void> {
+    const session = await this.stripe.checkout.sessions.retrieve(checkoutId);
+    if (session.status === "open") {
+      await this.stripe.checkout.sessions.expire(checkoutId);
+    }
+  }
+
+  // Checkout creates an open-ended subscription; wrap it in a schedule so it
+  // cancels itself once the agreed number of payments has been collected,
+  // switching price when the penny remainder makes one installment differ.
+  // A plan that starts later keeps its trial as the first phase.
+  // A redelivered event finishes a schedule whose phases were never set.
+  async startPlanSchedule(event: CheckoutCompletedEvent): Promise<{ scheduleId: string }> {
+    const subscription = await this.stripe.subscriptions.retrieve(event.subscriptionId);
+    const existingScheduleId = idOf(subscription.schedule);
+    const schedule = existingScheduleId
+      ? await this.stripe.subscriptionSchedules.retrieve(existingScheduleId)
+      : await this.stripe.subscriptionSchedules.create(
+          { from_subscription: event.subscriptionId },
+          { idempotencyKey: `schedule-${event.subscriptionId}` },
+        );
+
+    const phasePriceIds = (event.metadata.phasePriceIds || "").split(",").filter(Boolean);
+    const phaseIterations = (event.metadata.phaseIterations || "").split(",").map(Number);
+    const [currentPhase] = schedule.phases;
+    const phases: Stripe.SubscriptionScheduleUpdateParams.Phase[] = phasePriceIds.map((price, i) => ({
+      items: [{ price, quantity: 1 }],
+      iterations: phaseIterations[i],
+    }));
+    if (currentPhase.trial_end) {
+      phases.unshift({
+        items: [{ price: phasePriceIds[0], quantity: 1 }],
+        end_date: currentPhase.trial_end,
+        trial_end: currentPhase.trial_end,
+      });
+    }
+    phases[0].start_date = currentPhase.start_date;
+    // Phases and end behaviour are set in one update; a schedule still on the
+    // single phase copied from the subscription never got them. Later phase
+    // counts are left alone since a reschedule may have changed them.
+    const configured =
+      schedule.end_behavior === "cancel" && (schedule.phases.length > 1 || phases.length === 1);
+    if (!configured) {
+      await this.stripe.subscriptionSchedules.update(schedule.id, {
+        end_behavior: "cancel",
+        metadata: event.metadata,
+        phases,
+      });
+    }
+    return { scheduleId: schedule.id };
+  }
+
+  // Schedules and subscriptions that have already ended are left alone
+  async cancelPlan(plan: PaymentPlan): Promise<void> {
+    if (plan.stripeScheduleId) {
+      const schedule = await this.stripe.subscriptionSchedules.retrieve(plan.stripeScheduleId);
+      if (schedule.status === "active" || schedule.status === "not_started") {
+        // The current period was paid in advance, so nothing is credited back
+        await this.stripe.subscriptionSchedules.cancel(plan.stripeScheduleId, { prorate: false });
+        return;
+      }
+    }
+    if (plan.stripeSubscriptionId) {
+      const subscription = await this.stripe.subscriptions.retrieve(plan.stripeSubscriptionId);
+      if (subscription.status !== "canceled" && subscription.status !== "incomplete_expired") {
+        await this.stripe.subscriptions.cancel(plan.stripeSubscriptionId);
+      }
+    }
+  }
+
+  // A setup-mode Checkout collects the new method without charging it
+  async createPaymentMethodUpdate(request: PaymentMethodUpdateRequest): Promise<{ id: string; url: string }> {
+    const session = await this.stripe.checkout.sessions.create({
+      mode: "setup",
+      customer: request.gatewayCustomerId,
+      payment_method_types: [request.paymentMethod],
+      setup_intent_data: { metadata: request.metadata },
+      metadata: request.metadata,
+      success_url: request.successUrl,
+      cancel_url: request.cancelUrl,
+    });
+    if (!session.url) {
+      throw new Error("Stripe did not return a checkout URL");
+    }
+    return { id: session.id, url: session.url };
+  }
+
+  // Later installments and dunning retries charge the subscription's default
+  async applyPaymentMethodUpdate(event: PaymentMethodUpdatedEvent, plan: PaymentPlan): Promise<void> {
+    if (!plan.stripeSubscriptionId) {
+      throw new Error(`Plan ${plan.id} has no subscription`);
+    }
+    const session = await this.stripe.checkout.sessions.retrieve(event.checkoutId, { expand: ["setup_intent"] });
+    const paymentMethodId = idOf(expanded<Stripe.SetupIntent>(session.setup_intent)?.payment_method);
+    if (!paymentMethodId) {
+      throw new Error(`Checkout ${event.checkoutId} did not save a payment method`);
+    }
+    await this.stripe.subscriptions.update(plan.stripeSubscriptionId, { default_payment_method: paymentMethodId });
+  }
+
+  // Rebuild the schedule's phases from the current one onwards. Runs of equal
+  // payments one billing period apart share a phase that bills from its start;
+  // a longer gap before a payment becomes a trial phase so nothing is charged
+  // in it. The period already paid for is cut short if the next payment now
+  // comes sooner.
+  async reschedulePlan(plan: PaymentPlan, charges: ScheduledCharge[]): Promise<void> {
+    if (!plan.stripeScheduleId || charges.length === 0) {
+      throw new Error(`Plan ${plan.id} has nothing to reschedule`);
+    }
+    const schedule = await this.stripe.subscriptionSchedules.retrieve(plan.stripeScheduleId);
+    const current = schedule.current_phase;
+    const currentPhase = schedule.phases.find((phase) => phase.start_date === current?.start_date);
+    const subscriptionId = idOf(schedule.subscription);
+    if (schedule.status !== "active" || !current || !currentPhase || !subscriptionId) {
+      throw new Error(`The schedule for plan ${plan.id} is not running`);
+    }
+    const subscription = await this.stripe.subscriptions.retrieve(subscriptionId);
+    const periodEnd = subscription.items.data[0].current_period_end;
+
+    const interval = plan.interval as BillingInterval;
+    const priceIds = await this.catalog.getRecurringPriceIds(
+      "installments",
+      charges.map((charge) => charge.amount),
+      interval,
+    );
+    const nextBillingDate = (date: Date, periods: number) => getInstallmentDueDates(date, periods + 1, interval)[periods];
+
+    const firstDue = toUnixTime(charges[0].dueDate);
+    const currentItems = [{ price: idOf(currentPhase.items[0].price)!, quantity: 1 }];
+    const phases: Stripe.SubscriptionScheduleUpdateParams.Phase[] = [
+      { items: currentItems, start_date: current.start_date, end_date: Math.min(firstDue, periodEnd), proration_behavior: "none" },
+    ];
+    if (firstDue > periodEnd) {
+      phases.push({ items: currentItems, end_date: firstDue, trial_end: firstDue, proration_behavior: "none" });
+    }
+
+    for (let i = 0; i < charges.length; ) {
+      let j = i + 1;
+      while (
+        j < charges.length &&
+        charges[j].amount === charges[i].amount &&
+        charges[j].dueDate.getTime() === nextBillingDate(charges[i].dueDate, j - i).getTime()
+      ) {
+        j++;
+      }
+      const items = [{ price: priceIds[i], quantity: 1 }];
+      const runEnd = toUnixTime(nextBillingDate(charges[i].dueDate, j - i));
+      const nextDue = j < charges.length ? toUnixTime(charges[j].dueDate) : runEnd;
+      phases.push({
+        items,
+        end_date: Math.min(runEnd, nextDue),
+        billing_cycle_anchor: "phase_start",
+        proration_behavior: "none",
+      });
+      if (nextDue > runEnd) {
+        phases.push({ items, end_date: nextDue, trial_end: nextDue, proration_behavior: "none" });
+      }
+      i = j;
+    }
+
+    await this.stripe.subscriptionSchedules.update(plan.stripeScheduleId, { end_behavior: "cancel", phases });
+  }
+
+  async voidInstallment(invoiceId: string): Promise<void> {
+    const invoice = await this.stripe.invoices.retrieve(invoiceId);
+    if (invoice.status === "open") {
+      await this.stripe.invoices.voidInvoice(invoiceId);
+    }
+  }
+
+  // Dunning retries are ours, so Stripe's own automatic retries should be
+  // turned off in the Dashboard
+  async retryInstallment(invoiceId: string): Promise<void> {
+    try {
+      await this.stripe.invoices.pay(invoiceId, { off_session: true });
+    } catch (error: any) {
+      // Declines are reported through invoice.payment_failed
+      if (error.type === "StripeCardError") return;
+      throw error;
+    }
+  }
+
+  async refundPayment(request: RefundRequest): Promise<RefundResult> {
+    const payments = await this.stripe.invoicePayments.list({ invoice: request.invoiceId, limit: 1 });
+    const paymentIntentId = idOf(payments.data[0]?.payment.payment_intent);
+    if (!paymentIntentId) {
+      throw new Error(`No payment found for invoice ${request.invoiceId}`);
+    }
+
+    const refund = await this.stripe.refunds.create({
+      payment_intent: paymentIntentId,
+      amount: request.amount,
+      metadata: request.metadata,
+    });
+    return { id: refund.id, status: refund.status || "pending", amount: refund.amount };
+  }
+
+  async submitDisputeEvidence(disputeId: string, evidence: DisputeEvidence): Promise<void> {
+    await this.stripe.disputes.update(disputeId, {
+      evidence: {
+        customer_email_address: evidence.customerEmail ?? undefined,
+        product_description: evidence.productDescription,
+        service_date: evidence.serviceDate,
+        access_activity_log: evidence.termsAcceptance,
+        uncategorized_text: [evidence.pcnRecord, evidence.paymentHistory, evidence.notes]
+          .filter(Boolean)
+          .join("\n\n"),
+      },
+      submit: true,
+    });
+  }
+
+  async parseWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): Promise<GatewayEvent | null> {
+    const signature = headers["stripe-signature"];
+    if (!this.webhookSecret) {
+      throw new Error("Missing STRIPE_WEBHOOK_SECRET");
+    }
+    if (typeof signature !== "string") {
+      throw new Error("Missing Stripe signature");
+    }
+
+    const event = this.stripe.webhooks.constructEvent(rawBody, signature, this.webhookSecret);
+    return this.translateEvent(event);
+  }
+
+  private async translateEvent(event: Stripe.Event): Promise<GatewayEvent | null> {
+    switch (event.type) {
+      case "checkout.session.completed": {
+        const session = event.data.object;
+        const gatewayCustomerId = idOf(session.customer);
+        if (session.mode === "setup") {
+          return {
+            id: event.id,
+            type: "payment_method.updated",
+            checkoutId: session.id,
+            metadata: session.metadata || {},
+          };
+        }
+        if (session.mode === "payment") {
+          const invoiceId = idOf(session.invoice);
+          if (!gatewayCustomerId || !invoiceId || session.payment_status !== "paid") return null;
+          return {
+            id: event.id,
+            type: "payment.completed",
+            checkoutId: session.id,
+            gatewayCustomerId,
+            invoiceId,
+            amount: session.amount_total ?? 0,
+            paidAt: new Date(event.created * 1000).toISOString(),
+            metadata: session.metadata || {},
+          };
+        }
+        const subscriptionId = idOf(session.subscription);
+        if (!gatewayCustomerId || !subscriptionId) return null;
+        return {
+          id: event.id,
+          type: "checkout.completed",
+          checkoutId: session.id,
+          gatewayCustomerId,
+          subscriptionId,
+          metadata: session.metadata || {},
+        };
+      }
+      case "checkout.session.expired":
+        return {
+          id: event.id,
+          type: "checkout.expired",
+          checkoutId: event.data.object.id,
+          metadata: event.data.object.metadata || {},
+        };
+      case "invoice.paid":
+      case "invoice.payment_failed": {
+        const invoice = event.data.object;
+        const details = invoice.parent?.subscription_details;
+        // Trials (a plan starting later, or gaps left by rescheduling) raise
+        // invoices for nothing
+        if (!invoice.id || !details || invoice.amount_due === 0) return null;
+        const base = {
+          id: event.id,
+          subscriptionId: idOf(details.subscription),
+          invoiceId: invoice.id,
+          metadata: details.metadata || {},
+        };
+        if (event.type === "invoice.payment_failed") {
+          return { ...base, type: "installment.failed", failedAt: fromUnixTime(event.created) };
+        }
+        const paidAt = invoice.status_transitions.paid_at
+          ? new Date(invoice.status_transitions.paid_at * 1000)
+          : new Date();
+        return { ...base, type: "installment.paid", amount: invoice.amount_paid, paidAt: paidAt.toISOString() };
+      }
+      // Stripe has no invoice event for a submitted Direct Debit, so find the
+      // installment's invoice through its payment
+      case "payment_intent.processing": {
+        const invoice = await this.findInvoiceForPaymentIntent(event.data.object.id);
+        const details = invoice?.parent?.subscription_details;
+        if (!invoice?.id || !details) return null;
+        return {
+          id: event.id,
+          type: "installment.processing",
+          subscriptionId: idOf(details.subscription),
+          invoiceId: invoice.id,
+          metadata: details.metadata || {},
+        };
+      }
+      // Chargebacks are raised against the payment, so find the installment's
+      // invoice through it. Pay-in-full invoices carry the metadata themselves.
+      case "charge.dispute.created":
+      case "charge.dispute.updated":
+      case "charge.dispute.closed": {
+        const dispute = event.data.object;
+        const paymentIntentId = idOf(dispute.payment_intent);
+        const invoice = paymentIntentId ? await this.findInvoiceForPaymentIntent(paymentIntentId) : undefined;
+        if (!invoice?.id) return null;
+        const details = invoice.parent?.subscription_details;
+        return {
+          id: event.id,
+          type: "dispute.updated",
+          disputeId: dispute.id,
+          subscriptionId: idOf(details?.subscription),
+          invoiceId: invoice.id,
+          amount: dispute.amount,
+          reason: dispute.reason,
+          status: disputeStatuses[dispute.status],
+          evidenceDueBy: dispute.evidence_details.due_by ? fromUnixTime(dispute.evidence_details.due_by) : null,
+          metadata: details?.metadata || invoice.metadata || {},
+        };
+      }
+      // The schedule cancels the subscription after the final payment, so
+      // both events mean Stripe has stopped billing the plan.
+      case "customer.subscription.deleted":
+        return {
+          id: event.id,
+          type: "plan.ended",
+          subscriptionId: event.data.object.id,
+          metadata: event.data.object.metadata || {},
+        };
+      case "subscription_schedule.completed":
+        return {
+          id: event.id,
+          type: "plan.ended",
+          subscriptionId: idOf(event.data.object.subscription),
+          metadata: event.data.object.metadata || {},
+        };
+      default:
+        return null;
+    }
+  }
+}
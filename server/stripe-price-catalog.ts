@@ -0,0 +1,101 @@
+import Stripe from "stripe";
+import { toStripeRecurring, type BillingInterval, type PaymentType } from "@shared/payment-plans";
+
+export type CatalogPlanType = PaymentType;
+
+const productNames: Record<CatalogPlanType, string> = {
+  full: "PCN Payment",
+  installments: "PCN Payment Plan",
+  deposit: "PCN Payment Plan Deposit",
+};
+
+// Products and prices are shared by every checkout rather than created per
+// PCN: one product per operator and plan type, with a deterministic id, and
+// one price per amount and interval, found by lookup_key. Both are cached for
+// the life of the process, so a warm checkout needs no catalog calls at all.
+export class StripePriceCatalog {
+  private products = new Map<string, Promise<string>>();
+  private prices = new Map<string, Promise<string>>();
+
+  constructor(
+    private stripe: Stripe,
+    private operatorId: string,
+    private currency = "gbp",
+  ) {}
+
+  getProductId(planType: CatalogPlanType): Promise<string> {
+    return this.cached(this.products, `${this.operatorId}_${planType}`, (productId) =>
+      this.findOrCreateProduct(productId, planType),
+    );
+  }
+
+  // Price ids for each amount, in the same order
+  async getRecurringPriceIds(planType: CatalogPlanType, amounts: number[], interval: BillingInterval): Promise<string[]> {
+    const productId = await this.getProductId(planType);
+    return Promise.all(
+      amounts.map((amount) =>
+        this.cached(this.prices, this.lookupKey(planType, amount, interval), (lookupKey) =>
+          this.findOrCreatePrice(lookupKey, productId, amount, interval),
+        ),
+      ),
+    );
+  }
+
+  private lookupKey(planType: CatalogPlanType, amount: number, interval: BillingInterval): string {
+    return `${this.operatorId}_${planType}_${this.currency}_${interval}_${amount}`;
+  }
+
+  // Failed lookups are dropped from the cache so the next checkout retries
+  private cached(cache: Map<string, Promise<string>>, key: string, load: (key: string) => Promise<string>): Promise<string> {
+    let value = cache.get(key);
+    if (!value) {
+      value = load(key);
+      cache.set(key, value);
+      value.catch(() => cache.delete(key));
+    }
+    return value;
+  }
+
+  private async findOrCreateProduct(productId: string, planType: CatalogPlanType): Promise<string> {
+    try {
+      const product = await this.stripe.products.retrieve(productId);
+      return product.id;
+    } catch (error: any) {
+      if (error.code !== "resource_missing") throw error;
+    }
+
+    const product = await this.stripe.products.create(
+      {
+        id: productId,
+        name: productNames[planType],
+        metadata: { operatorId: this.operatorId, planType },
+      },
+      { idempotencyKey: `product-${productId}` },
+    );
+    return product.id;
+  }
+
+  private async findOrCreatePrice(
+    lookupKey: string,
+    productId: string,
+    amount: number,
+    interval: BillingInterval,
+  ): Promise<string> {
+    const existing = await this.stripe.prices.list({ lookup_keys: [lookupKey], active: true, limit: 1 });
+    if (existing.data[0]) {
+      return existing.data[0].id;
+    }
+
+    const price = await this.stripe.prices.create(
+      {
+        product: productId,
+        unit_amount: amount,
+        currency: this.currency,
+        recurring: toStripeRecurring(interval),
+        lookup_key: lookupKey,
+      },
+      { idempotencyKey: `price-${lookupKey}` },
+    );
+    return price.id;
+  }
+}
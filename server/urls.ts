@@ -0,0 +1,13 @@
+// Public base URL of the portal, used for redirects back from checkout.
+export function getDomainUrl(): string {
+  return (
+    process.env.CUSTOM_DOMAIN_URL ||
+    (process.env.WEBSITE_HOSTNAME &&
+      `https://${process.env.WEBSITE_HOSTNAME}`) ||
+    (process.env.REPL_SLUG &&
+      process.env.REPL_OWNER &&
+      `https://${process.env.REPL_SLUG}.${process.env.REPL_OWNER}.repl.co`) ||
+    process.env.WEBSITE_URL ||
+    "http://localhost:5000"
+  );
+}
@@ -0,0 +1,144 @@
+import { randomUUID } from "crypto";
+import { describe, expect, it, vi } from "vitest";
+import type { CheckoutRequest, Pcn } from "@shared/schema";
+import { getAmountToCharge, getPcnCharges } from "@shared/pcn-charges";
+import { createCheckout } from "./checkout";
+import { escalationRules } from "./escalation-config";
+import type { FakeGateway } from "./fake-gateway";
+import type { GatewayEvent } from "./payment-gateway";
+import { gateway } from "./gateway";
+import { createPlanLedger } from "./ledger";
+import { planRules } from "./plan-config";
+import { storage } from "./storage";
+import { processPaymentEvent } from "./webhooks";
+
+const fakeGateway = gateway as FakeGateway;
+fakeGateway.setEventHandler(processPaymentEvent);
+
+async function createPlan(installmentAmounts = [3000, 3000, 3000]) {
+  const customer = await storage.createCustomer({ email: `${randomUUID()}@example.com` });
+  const pcn = await storage.createPcn({
+    pcnNumber: `PCN-${randomUUID()}`,
+    vehicleRegistration: "AB12CDE",
+    amountDue: installmentAmounts.reduce((sum, amount) => sum + amount, 0),
+  });
+  const { plan } = await createPlanLedger({
+    pcnId: pcn.id,
+    type: "installments",
+    paymentMethod: "card",
+    totalAmount: pcn.amountDue,
+    installmentAmounts,
+    interval: "month",
+    startDate: new Date(),
+    termsAcceptedAt: new Date(),
+  });
+  return { customer, pcn, plan, metadata: { customerId: customer.id, planId: plan.id } };
+}
+
+function installmentPaid(subscriptionId: string, metadata: Record<string, string>): GatewayEvent {
+  return {
+    type: "installment.paid",
+    id: `evt_${randomUUID()}`,
+    subscriptionId,
+    invoiceId: `in_${randomUUID()}`,
+    amount: 3000,
+    paidAt: new Date().toISOString(),
+    metadata,
+  };
+}
+
+describe("processPaymentEvent", () => {
+  it("handles a redelivered event only once", async () => {
+    const { plan, metadata } = await createPlan();
+    const event = installmentPaid("sub_1", metadata);
+
+    expect(await processPaymentEvent(event)).toEqual({ duplicate: false });
+    expect(await processPaymentEvent(event)).toEqual({ duplicate: true });
+
+    const installments = await storage.getInstallmentsByPlan(plan.id);
+    expect(installments.map((installment) => installment.status)).toEqual(["paid", "scheduled", "scheduled"]);
+    expect((await storage.getPaymentEvent(event.id))?.processedAt).toBeInstanceOf(Date);
+  });
+
+  it("handles an event again after it failed", async () => {
+    const { plan, pcn, customer, metadata } = await createPlan();
+    const event: GatewayEvent = {
+      type: "checkout.completed",
+      id: `evt_${randomUUID()}`,
+      checkoutId: "cs_1",
+      gatewayCustomerId: "cus_1",
+      subscriptionId: "sub_2",
+      metadata,
+    };
+    vi.spyOn(gateway, "startPlanSchedule").mockRejectedValueOnce(new Error("Stripe is unavailable"));
+
+    await expect(processPaymentEvent(event)).rejects.toThrow("Stripe is unavailable");
+    expect(await storage.getPaymentEvent(event.id)).toBeUndefined();
+    expect((await storage.getPaymentPlan(plan.id))?.status).toBe("pending");
+
+    expect(await processPaymentEvent(event)).toEqual({ duplicate: false });
+    expect(await storage.getPaymentPlan(plan.id)).toMatchObject({
+      status: "active",
+      stripeSubscriptionId: "sub_2",
+      stripeScheduleId: "sub_sched_fake_sub_2",
+    });
+    expect((await storage.getPcn(pcn.id))?.customerId).toBe(customer.id);
+  });
+});
+
+function checkoutRequest(pcn: Pcn, paymentType: CheckoutRequest["paymentType"]): CheckoutRequest {
+  return {
+    email: `${randomUUID()}@example.com`,
+    pcnNumber: pcn.pcnNumber,
+    vehicleRegistration: pcn.vehicleRegistration,
+    installmentCount: 3,
+    interval: "month",
+    paymentType,
+    paymentMethod: "card",
+    expectedAmount: getAmountToCharge(getPcnCharges(pcn, escalationRules), paymentType, planRules),
+    idempotencyKey: randomUUID(),
+    acceptedTerms: true,
+  };
+}
+
+// Pays the PCN's first checkout but holds back its events until a second
+// attempt has superseded it, as when the webhooks arrive late
+async function paySupersededCheckout(paymentType: CheckoutRequest["paymentType"]) {
+  const pcn = await storage.createPcn({ pcnNumber: `PCN-${randomUUID()}`, vehicleRegistration: "AB12CDE", amountDue: 9000 });
+  const first = await createCheckout(checkoutRequest(pcn, paymentType));
+
+  const delayed: GatewayEvent[] = [];
+  fakeGateway.setEventHandler(async (event) => delayed.push(event));
+  await fakeGateway.completeCheckout(first.sessionId, { failFuturePayments: false });
+  fakeGateway.setEventHandler(processPaymentEvent);
+
+  const second = await createCheckout(checkoutRequest(pcn, paymentType));
+  for (const event of delayed) {
+    await processPaymentEvent(event);
+  }
+  return { pcnId: pcn.id, first, second };
+}
+
+describe("a checkout paid after a newer attempt superseded it", () => {
+  it("cancels the subscription and refunds the first installment", async () => {
+    const { pcnId, first, second } = await paySupersededCheckout("installments");
+
+    const plan = await storage.getPaymentPlan(first.planId);
+    expect(plan).toMatchObject({ status: "cancelled", stripeSubscriptionId: null });
+    expect(await storage.getRefundsByPlan(first.planId)).toMatchObject([
+      { reason: "superseded_checkout", amount: 3000, status: "succeeded" },
+    ]);
+    expect((await storage.getPcn(pcnId))?.amountPaid).toBe(0);
+    expect((await storage.getPaymentPlan(second.planId))?.status).toBe("pending");
+  });
+
+  it("refunds a payment in full", async () => {
+    const { pcnId, first } = await paySupersededCheckout("full");
+
+    expect((await storage.getPaymentPlan(first.planId))?.status).toBe("cancelled");
+    const [refund] = await storage.getRefundsByPlan(first.planId);
+    expect(refund).toMatchObject({ reason: "superseded_checkout", status: "succeeded" });
+    expect(refund.amount).toBe((await storage.getPaymentPlan(first.planId))?.totalAmount);
+    expect((await storage.getPcn(pcnId))?.amountPaid).toBe(0);
+  });
+});
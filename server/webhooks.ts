@@ -0,0 +1,245 @@
+import type {
+  CheckoutCompletedEvent,
+  CheckoutExpiredEvent,
+  DisputeUpdatedEvent,
+  GatewayEvent,
+  InstallmentFailedEvent,
+  InstallmentPaidEvent,
+  InstallmentProcessingEvent,
+  PaymentCompletedEvent,
+  PaymentMethodUpdatedEvent,
+  PlanEndedEvent,
+} from "./payment-gateway";
+import type { PaymentPlan } from "@shared/schema";
+import { gateway } from "./gateway";
+import { storage } from "./storage";
+import { closePlan, recordInstallmentFailed, recordInstallmentPaid, recordInstallmentProcessing } from "./ledger";
+import { cancelPendingPlan } from "./checkout";
+import { handleFailedInstallment, retryFailedInstallments } from "./dunning";
+import { applySettlement } from "./settlement";
+import { recordDisputeUpdate } from "./disputes";
+import { issueRefund } from "./refunds";
+
+async function findPlanForSubscription(subscriptionId: string | undefined, metadata: Record<string, string>) {
+  if (metadata.planId) {
+    const plan = await storage.getPaymentPlan(metadata.planId);
+    if (plan) return plan;
+  }
+  if (subscriptionId) {
+    return storage.getPaymentPlanByStripeSubscriptionId(subscriptionId);
+  }
+  return undefined;
+}
+
+// Link the PCN to the customer who completed a checkout for it; a driver may
+// hold several. Someone who already has a paid or running plan on the PCN
+// stays its owner, so paying for a PCN never takes it over.
+async function linkPcnToPayer(plan: PaymentPlan, customerId: string) {
+  const pcn = await storage.getPcn(plan.pcnId);
+  if (!pcn || pcn.customerId === customerId) return;
+
+  if (pcn.customerId) {
+    for (const other of await storage.getPaymentPlansByPcn(pcn.id)) {
+      if (other.id === plan.id) continue;
+      const running = other.status === "active" || other.status === "past_due" || other.status === "completed";
+      const installments = await storage.getInstallmentsByPlan(other.id);
+      if (running || installments.some((installment) => installment.status === "paid")) {
+        console.warn(`PCN ${pcn.pcnNumber} already belongs to a paying customer; not linking customer ${customerId}`);
+        return;
+      }
+    }
+  }
+  await storage.updatePcn(pcn.id, { customerId });
+}
+
+// A checkout superseded by a newer attempt was paid before it expired. Its
+// plan was cancelled, so the payment isn't owed and goes straight back.
+async function refundSupersededPayment(plan: PaymentPlan, invoiceId: string, amount: number) {
+  console.warn(`Payment ${invoiceId} was taken for cancelled plan ${plan.id}; refunding`);
+  await issueRefund({ plan, stripeInvoiceId: invoiceId, amount, reason: "superseded_checkout" });
+}
+
+async function handleCheckoutCompleted(event: CheckoutCompletedEvent) {
+  const { customerId, planId } = event.metadata;
+  if (!customerId || !planId) {
+    console.warn(`Checkout ${event.checkoutId} is missing customer or plan details`);
+    return;
+  }
+
+  if (event.metadata.attemptId) {
+    await storage.updateCheckoutAttempt(event.metadata.attemptId, { status: "completed" });
+  }
+
+  // A checkout superseded by a newer attempt was paid before it expired. Its
+  // first installment is refunded when it is reported.
+  const plan = await storage.getPaymentPlan(planId);
+  if (plan?.status === "cancelled") {
+    console.warn(`Checkout ${event.checkoutId} completed for cancelled plan ${planId}; cancelling its subscription`);
+    await gateway.cancelPlan({ ...plan, stripeSubscriptionId: event.subscriptionId });
+    return;
+  }
+
+  await storage.updateCustomerStripeInfo(customerId, event.gatewayCustomerId, event.subscriptionId);
+  if (plan) {
+    await linkPcnToPayer(plan, customerId);
+  }
+  const { scheduleId } = await gateway.startPlanSchedule(event);
+
+  // installment.paid may already have activated (or completed) the plan
+  await storage.updatePaymentPlan(planId, {
+    stripeSubscriptionId: event.subscriptionId,
+    stripeScheduleId: scheduleId,
+    status: plan?.status === "pending" ? "active" : plan?.status,
+  });
+}
+
+// Pay-in-full checkouts settle their single-installment plan straight away;
+// early settlements pay off the rest of an installment plan
+async function handlePaymentCompleted(event: PaymentCompletedEvent) {
+  const { customerId, planId } = event.metadata;
+  if (!customerId || !planId) {
+    console.warn(`Checkout ${event.checkoutId} is missing customer or plan details`);
+    return;
+  }
+
+  if (event.metadata.attemptId) {
+    await storage.updateCheckoutAttempt(event.metadata.attemptId, { status: "completed" });
+  }
+  await storage.updateCustomerStripeInfo(customerId, event.gatewayCustomerId);
+
+  const plan = await storage.getPaymentPlan(planId);
+  if (!plan) return;
+  if (event.metadata.purpose === "settlement") {
+    return applySettlement(plan, event);
+  }
+  if (plan.status === "cancelled") {
+    return refundSupersededPayment(plan, event.invoiceId, event.amount);
+  }
+  await linkPcnToPayer(plan, customerId);
+  await recordInstallmentPaid(plan, event.invoiceId, new Date(event.paidAt));
+}
+
+async function handleCheckoutExpired(event: CheckoutExpiredEvent) {
+  if (event.metadata.attemptId) {
+    await storage.updateCheckoutAttempt(event.metadata.attemptId, { status: "abandoned" });
+  }
+  await cancelPendingPlan(event.metadata.planId);
+}
+
+async function handleInstallmentPaid(event: InstallmentPaidEvent) {
+  const plan = await findPlanForSubscription(event.subscriptionId, event.metadata);
+  if (!plan) return;
+
+  // The plan was cancelled before it took on this subscription
+  if (plan.status === "cancelled" && event.subscriptionId && plan.stripeSubscriptionId !== event.subscriptionId) {
+    return refundSupersededPayment(plan, event.invoiceId, event.amount);
+  }
+  await recordInstallmentPaid(plan, event.invoiceId, new Date(event.paidAt));
+}
+
+async function handleInstallmentProcessing(event: InstallmentProcessingEvent) {
+  const plan = await findPlanForSubscription(event.subscriptionId, event.metadata);
+  if (!plan) return;
+
+  await recordInstallmentProcessing(plan, event.invoiceId);
+}
+
+async function handleInstallmentFailed(event: InstallmentFailedEvent) {
+  const plan = await findPlanForSubscription(event.subscriptionId, event.metadata);
+  if (!plan) return;
+
+  const installment = await recordInstallmentFailed(plan, event.invoiceId);
+  if (installment) {
+    await handleFailedInstallment(plan, installment, new Date(event.failedAt));
+  }
+}
+
+// The driver saved new payment details: make them the plan's default and
+// retry whatever failed on the old ones
+async function handlePaymentMethodUpdated(event: PaymentMethodUpdatedEvent) {
+  const plan = event.metadata.planId ? await storage.getPaymentPlan(event.metadata.planId) : undefined;
+  if (!plan) return;
+  if (plan.status !== "active" && plan.status !== "past_due") {
+    console.warn(`Payment details were updated for plan ${plan.id}, which is ${plan.status}; ignoring`);
+    return;
+  }
+
+  await gateway.applyPaymentMethodUpdate(event, plan);
+  await retryFailedInstallments(plan);
+}
+
+// The gateway has stopped billing the plan, so the ledger decides whether it
+// completed or was cancelled early.
+async function handlePlanEnded(event: PlanEndedEvent) {
+  const plan = await findPlanForSubscription(event.subscriptionId, event.metadata);
+  if (!plan) return;
+
+  // A schedule can run out while its last payments are still clearing or
+  // being retried; those settle or default the plan later
+  const planInstallments = await storage.getInstallmentsByPlan(plan.id);
+  const stillCollecting = planInstallments.some(
+    (installment) => installment.status === "processing" || (installment.status === "failed" && installment.nextRetryAt),
+  );
+  if (stillCollecting && plan.status !== "cancelled" && plan.status !== "defaulted") {
+    return;
+  }
+
+  await closePlan(plan);
+}
+
+// A chargeback on one of the plan's payments was opened or moved on
+async function handleDisputeUpdated(event: DisputeUpdatedEvent) {
+  const plan = await findPlanForSubscription(event.subscriptionId, event.metadata);
+  if (!plan) {
+    console.warn(`Dispute ${event.disputeId} on invoice ${event.invoiceId} doesn't belong to a known plan`);
+    return;
+  }
+
+  await recordDisputeUpdate(plan, event);
+}
+
+async function handlePaymentEvent(event: GatewayEvent): Promise<void> {
+  switch (event.type) {
+    case "checkout.completed":
+      return handleCheckoutCompleted(event);
+    case "payment.completed":
+      return handlePaymentCompleted(event);
+    case "checkout.expired":
+      return handleCheckoutExpired(event);
+    case "installment.paid":
+      return handleInstallmentPaid(event);
+    case "installment.processing":
+      return handleInstallmentProcessing(event);
+    case "installment.failed":
+      return handleInstallmentFailed(event);
+    case "plan.ended":
+      return handlePlanEnded(event);
+    case "payment_method.updated":
+      return handlePaymentMethodUpdated(event);
+    case "dispute.updated":
+      return handleDisputeUpdated(event);
+  }
+}
+
+// Claim each event by inserting it before acting on it; only the delivery
+// that inserted the row handles it, so replayed and concurrent deliveries are
+// harmless. A failed handler releases the claim so the gateway's retry runs it.
+export async function processPaymentEvent(event: GatewayEvent): Promise<{ duplicate: boolean }> {
+  const claimed = await storage.createPaymentEvent({
+    id: event.id,
+    type: event.type,
+    payload: event,
+  });
+  if (!claimed) {
+    return { duplicate: true };
+  }
+
+  try {
+    await handlePaymentEvent(event);
+  } catch (error) {
+    await storage.deletePaymentEvent(event.id);
+    throw error;
+  }
+  await storage.markPaymentEventProcessed(event.id);
+  return { duplicate: false };
+}
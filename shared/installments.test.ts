@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { formatPence, groupIntoPhases, splitIntoInstallments, splitWithDeposit } from "./installments";
+
+describe("splitIntoInstallments", () => {
+  it("puts the leftover pence on the first installment by default", () => {
+    expect(splitIntoInstallments(1000, 3)).toEqual([334, 333, 333]);
+  });
+
+  it("can put the leftover pence on the last installment", () => {
+    expect(splitIntoInstallments(1001, 3, "last")).toEqual([333, 333, 335]);
+  });
+
+  it("always sums to the total", () => {
+    for (const total of [1, 99, 7001, 12345]) {
+      for (const count of [1, 2, 3, 4, 6, 12]) {
+        const amounts = splitIntoInstallments(total, count);
+        expect(amounts).toHaveLength(count);
+        expect(amounts.reduce((sum, amount) => sum + amount, 0)).toBe(total);
+      }
+    }
+  });
+
+  it("rejects fractional pence and empty plans", () => {
+    expect(() => splitIntoInstallments(10.5, 2)).toThrow("whole number of pence");
+    expect(() => splitIntoInstallments(-1, 2)).toThrow("whole number of pence");
+    expect(() => splitIntoInstallments(1000, 0)).toThrow("positive whole number");
+  });
+});
+
+describe("splitWithDeposit", () => {
+  it("rounds the deposit to the penny and splits the balance", () => {
+    expect(splitWithDeposit(9001, 3, 50)).toEqual([4501, 2250, 2250]);
+    expect(splitWithDeposit(10000, 4, 25, "last")).toEqual([2500, 2500, 2500, 2500]);
+    expect(splitWithDeposit(10001, 3, 20, "last")).toEqual([2000, 4000, 4001]);
+  });
+
+  it("needs at least one payment after the deposit", () => {
+    expect(() => splitWithDeposit(9000, 1, 50)).toThrow("at least one payment after the deposit");
+  });
+});
+
+describe("groupIntoPhases", () => {
+  it("collapses consecutive equal amounts", () => {
+    expect(groupIntoPhases([4501, 2250, 2250])).toEqual([
+      { amount: 4501, iterations: 1 },
+      { amount: 2250, iterations: 2 },
+    ]);
+    expect(groupIntoPhases([334, 333, 333, 334])).toHaveLength(3);
+  });
+});
+
+describe("formatPence", () => {
+  it("formats pence as pounds", () => {
+    expect(formatPence(4501)).toBe("£45.01");
+    expect(formatPence(5)).toBe("£0.05");
+  });
+});
@@ -0,0 +1,70 @@
+// Installment arithmetic in integer pence, shared by the server (ledger and
+// Stripe schedule) and the client (payment summaries) so both always agree.
+
+export const REMAINDER_PLACEMENTS = ["first", "last"] as const;
+
+export type RemainderPlacement = (typeof REMAINDER_PLACEMENTS)[number];
+
+export interface SchedulePhase {
+  amount: number;
+  iterations: number;
+}
+
+// Split a total into equal installments, adding the leftover pence to either
+// the first or the last one so the installments always sum to the total.
+export function splitIntoInstallments(
+  totalAmount: number,
+  installmentCount: number,
+  remainderOn: RemainderPlacement = "first",
+): number[] {
+  if (!Number.isInteger(totalAmount) || totalAmount < 0) {
+    throw new Error("Total amount must be a whole number of pence");
+  }
+  if (!Number.isInteger(installmentCount) || installmentCount < 1) {
+    throw new Error("Installment count must be a positive whole number");
+  }
+
+  const base = Math.floor(totalAmount / installmentCount);
+  const remainder = totalAmount - base * installmentCount;
+  const amounts = Array<number>(installmentCount).fill(base);
+  amounts[remainderOn === "first" ? 0 : installmentCount - 1] += remainder;
+  return amounts;
+}
+
+// A deposit plan takes a share of the total as its first payment and splits
+// the balance over the rest as usual. The deposit is rounded to the nearest
+// penny; the split carries any leftover pence.
+export function splitWithDeposit(
+  totalAmount: number,
+  installmentCount: number,
+  depositPercent: number,
+  remainderOn: RemainderPlacement = "first",
+): number[] {
+  if (installmentCount < 2) {
+    throw new Error("A deposit plan needs at least one payment after the deposit");
+  }
+  const deposit = Math.round((totalAmount * depositPercent) / 100);
+  return [deposit, ...splitIntoInstallments(totalAmount - deposit, installmentCount - 1, remainderOn)];
+}
+
+// Collapse consecutive equal installments into subscription schedule phases.
+export function groupIntoPhases(amounts: number[]): SchedulePhase[] {
+  const phases: SchedulePhase[] = [];
+  for (const amount of amounts) {
+    const last = phases[phases.length - 1];
+    if (last && last.amount === amount) {
+      last.iterations++;
+    } else {
+      phases.push({ amount, iterations: 1 });
+    }
+  }
+  return phases;
+}
+
+export function toPounds(amount: number): string {
+  return (amount / 100).toFixed(2);
+}
+
+export function formatPence(amount: number): string {
+  return `£${toPounds(amount)}`;
+}
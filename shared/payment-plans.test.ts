@@ -0,0 +1,171 @@
+import { describe, expect, it } from "vitest";
+import {
+  defaultPlanRules,
+  getAllowedInstallmentCounts,
+  getFirstPaymentDate,
+  getFirstPaymentDateError,
+  getInstallmentAmounts,
+  getInstallmentDueDates,
+  isCalendarDate,
+  isPlanAllowed,
+  type PlanRules,
+} from "./payment-plans";
+import { checkoutRequestSchema } from "./schema";
+
+const depositRules: PlanRules = { ...defaultPlanRules, depositPercent: 50 };
+
+// Local times, as the portal and server work in the operator's time zone
+function at(year: number, month: number, day: number, hours = 10): Date {
+  return new Date(year, month - 1, day, hours, 30);
+}
+
+describe("getInstallmentAmounts", () => {
+  it("gives the whole total for a payment in full", () => {
+    expect(getInstallmentAmounts(9001, "full", 1, defaultPlanRules)).toEqual([9001]);
+  });
+
+  it("splits installments with the operator's remainder placement", () => {
+    expect(getInstallmentAmounts(9001, "installments", 3, defaultPlanRules)).toEqual([3001, 3000, 3000]);
+    expect(getInstallmentAmounts(9001, "installments", 3, { ...defaultPlanRules, remainderOn: "last" })).toEqual([
+      3000, 3000, 3001,
+    ]);
+  });
+
+  it("takes the deposit first", () => {
+    expect(getInstallmentAmounts(9000, "deposit", 3, depositRules)).toEqual([4500, 2250, 2250]);
+  });
+});
+
+describe("isPlanAllowed", () => {
+  it("only offers the operator's counts and intervals", () => {
+    const rules: PlanRules = { ...defaultPlanRules, installmentCounts: [1, 3], intervals: ["month"] };
+    expect(isPlanAllowed(9000, { installmentCount: 3, interval: "month" }, rules)).toBe(true);
+    expect(isPlanAllowed(9000, { installmentCount: 2, interval: "month" }, rules)).toBe(false);
+    expect(isPlanAllowed(9000, { installmentCount: 3, interval: "week" }, rules)).toBe(false);
+  });
+
+  it("keeps installments above the minimum", () => {
+    expect(isPlanAllowed(3000, { installmentCount: 3, interval: "month" }, defaultPlanRules)).toBe(true);
+    expect(isPlanAllowed(2999, { installmentCount: 3, interval: "month" }, defaultPlanRules)).toBe(false);
+    expect(getAllowedInstallmentCounts(4000, "month", defaultPlanRules)).toEqual([1, 2, 3, 4]);
+  });
+
+  it("allows a single payment however small the PCN", () => {
+    expect(isPlanAllowed(500, { installmentCount: 1, interval: "month" }, defaultPlanRules)).toBe(true);
+  });
+
+  it("only offers deposit plans when the operator sets a deposit", () => {
+    const option = { installmentCount: 3, interval: "month", paymentType: "deposit" } as const;
+    expect(isPlanAllowed(9000, option, defaultPlanRules)).toBe(false);
+    expect(isPlanAllowed(9000, option, depositRules)).toBe(true);
+  });
+
+  it("needs a payment after the deposit, each above the minimum", () => {
+    expect(isPlanAllowed(9000, { installmentCount: 1, interval: "month", paymentType: "deposit" }, depositRules)).toBe(
+      false,
+    );
+    // 4000 leaves a 2000 balance: two payments of 1000 pass, three of 666 don't
+    expect(getAllowedInstallmentCounts(4000, "month", depositRules, "deposit")).toEqual([2, 3]);
+  });
+
+  it("only offers plans with a deposit when one is required", () => {
+    const rules: PlanRules = { ...depositRules, depositRequired: true };
+    expect(isPlanAllowed(9000, { installmentCount: 3, interval: "month" }, rules)).toBe(false);
+    expect(isPlanAllowed(9000, { installmentCount: 1, interval: "month" }, rules)).toBe(false);
+    expect(getAllowedInstallmentCounts(9000, "month", rules)).toEqual([]);
+    expect(isPlanAllowed(9000, { installmentCount: 3, interval: "month", paymentType: "deposit" }, rules)).toBe(true);
+  });
+});
+
+describe("getInstallmentDueDates", () => {
+  it("spaces weekly and fortnightly payments", () => {
+    const start = at(2026, 3, 2);
+    expect(getInstallmentDueDates(start, 3, "week").map((date) => date.getDate())).toEqual([2, 9, 16]);
+    expect(getInstallmentDueDates(start, 3, "fortnight").map((date) => date.getDate())).toEqual([2, 16, 30]);
+  });
+
+  it("clamps monthly payments to the end of shorter months", () => {
+    const dueDates = getInstallmentDueDates(at(2026, 1, 31), 4, "month");
+    expect(dueDates.map((date) => [date.getMonth() + 1, date.getDate()])).toEqual([
+      [1, 31],
+      [2, 28],
+      [3, 31],
+      [4, 30],
+    ]);
+  });
+});
+
+describe("isCalendarDate", () => {
+  it("accepts dates that exist", () => {
+    expect(isCalendarDate("2026-02-28")).toBe(true);
+    expect(isCalendarDate("2028-02-29")).toBe(true);
+  });
+
+  it("rejects dates that would roll over into another one", () => {
+    for (const value of ["2026-02-29", "2026-02-31", "2026-04-31", "2026-13-01", "2026-00-10", "2026-01-00"]) {
+      expect(isCalendarDate(value), value).toBe(false);
+    }
+  });
+
+  it("rejects anything but YYYY-MM-DD", () => {
+    for (const value of ["", "2026-2-3", "2026-02-03T10:00", "03/02/2026", "tomorrow"]) {
+      expect(isCalendarDate(value), value).toBe(false);
+    }
+  });
+
+  it("keeps impossible first payment dates out of checkout requests", () => {
+    const firstPaymentDate = checkoutRequestSchema.shape.firstPaymentDate;
+    expect(firstPaymentDate.safeParse("2026-03-10").success).toBe(true);
+    expect(firstPaymentDate.safeParse("2026-02-31").error?.issues[0].message).toBe("The first payment date must be a date");
+  });
+});
+
+describe("getFirstPaymentDate", () => {
+  const now = at(2026, 1, 30);
+
+  it("takes the first payment now unless the driver chose otherwise", () => {
+    expect(getFirstPaymentDate(now, {})).toBe(now);
+    expect(getFirstPaymentDate(now, { collectionDay: 30 })).toBe(now);
+  });
+
+  it("keeps the time of day on a chosen date", () => {
+    expect(getFirstPaymentDate(now, { firstPaymentDate: "2026-02-10" })).toEqual(at(2026, 2, 10));
+  });
+
+  it("moves to the next collection day after the earliest later start", () => {
+    // Today is the 30th, so the 1st would be only two days away
+    expect(getFirstPaymentDate(now, { collectionDay: 1 })).toEqual(at(2026, 3, 1));
+    expect(getFirstPaymentDate(now, { collectionDay: 28 })).toEqual(at(2026, 2, 28));
+  });
+
+  it("uses the first collection day on or after a chosen date", () => {
+    expect(getFirstPaymentDate(now, { firstPaymentDate: "2026-02-15", collectionDay: 15 })).toEqual(at(2026, 2, 15));
+    expect(getFirstPaymentDate(now, { firstPaymentDate: "2026-02-16", collectionDay: 15 })).toEqual(at(2026, 3, 15));
+  });
+});
+
+describe("getFirstPaymentDateError", () => {
+  const now = at(2026, 1, 10);
+
+  it("accepts today and dates in the allowed window", () => {
+    expect(getFirstPaymentDateError(now, at(2026, 1, 10, 18), "month", defaultPlanRules)).toBeNull();
+    expect(getFirstPaymentDateError(now, at(2026, 1, 13), "month", defaultPlanRules)).toBeNull();
+    expect(getFirstPaymentDateError(now, at(2026, 2, 14), "month", defaultPlanRules)).toBeNull();
+  });
+
+  it("rejects past dates and ones too soon for the gateway", () => {
+    expect(getFirstPaymentDateError(now, at(2026, 1, 9), "month", defaultPlanRules)).toMatch("in the past");
+    expect(getFirstPaymentDateError(now, at(2026, 1, 12), "month", defaultPlanRules)).toMatch("at least 3 days");
+  });
+
+  it("rejects dates beyond the operator's limit", () => {
+    expect(getFirstPaymentDateError(now, at(2026, 2, 15), "month", defaultPlanRules)).toMatch("within 35 days");
+    const todayOnly: PlanRules = { ...defaultPlanRules, maxFirstPaymentDelayDays: 0 };
+    expect(getFirstPaymentDateError(now, at(2026, 1, 20), "week", todayOnly)).toBe("The first payment must be taken today");
+  });
+
+  it("keeps monthly plans off the 29th to 31st", () => {
+    expect(getFirstPaymentDateError(now, at(2026, 1, 29), "month", defaultPlanRules)).toMatch("1st to the 28th");
+    expect(getFirstPaymentDateError(now, at(2026, 1, 29), "week", defaultPlanRules)).toBeNull();
+  });
+});
@@ -0,0 +1,207 @@
+import { addDays, addMonths, addWeeks, differenceInCalendarDays, format, isValid, parseISO, set } from "date-fns";
+import { z } from "zod";
+import { REMAINDER_PLACEMENTS, splitIntoInstallments, splitWithDeposit } from "./installments";
+
+export const INSTALLMENT_COUNTS = [1, 2, 3, 4, 6, 12] as const;
+export const BILLING_INTERVALS = ["week", "fortnight", "month"] as const;
+// "full" clears the PCN with one payment today; "installments" sets up a plan;
+// "deposit" takes a share of the total today and spreads the rest over a plan
+export const PAYMENT_TYPES = ["full", "installments", "deposit"] as const;
+// Bacs Direct Debit is only offered for installment plans; its payments take
+// a few working days to clear
+export const PAYMENT_METHODS = ["card", "bacs_debit"] as const;
+
+export type BillingInterval = (typeof BILLING_INTERVALS)[number];
+export type PaymentType = (typeof PAYMENT_TYPES)[number];
+export type PaymentMethod = (typeof PAYMENT_METHODS)[number];
+
+export const paymentMethodLabels: Record<PaymentMethod, string> = {
+  card: "Card",
+  bacs_debit: "Direct Debit",
+};
+
+export const billingIntervalLabels: Record<BillingInterval, { adjective: string; noun: string }> = {
+  week: { adjective: "weekly", noun: "week" },
+  fortnight: { adjective: "fortnightly", noun: "fortnight" },
+  month: { adjective: "monthly", noun: "month" },
+};
+
+// Operator-defined limits on which plans a driver may choose. Amounts in pence.
+export const planRulesSchema = z.object({
+  installmentCounts: z.array(z.number().int().positive()).min(1),
+  intervals: z.array(z.enum(BILLING_INTERVALS)).min(1),
+  minInstallmentAmount: z.number().int().nonnegative(),
+  remainderOn: z.enum(REMAINDER_PLACEMENTS),
+  // Whether the early-payment discount may be spread over installments
+  discountOnInstallments: z.boolean(),
+  // How many days ahead a driver may put the first installment; 0 means it is
+  // always taken at checkout
+  maxFirstPaymentDelayDays: z.number().int().nonnegative(),
+  // Share of the total taken at checkout by deposit plans; 0 doesn't offer them
+  depositPercent: z.number().int().min(0).max(99),
+  // Only offer plans with a deposit
+  depositRequired: z.boolean(),
+});
+
+export type PlanRules = z.infer<typeof planRulesSchema>;
+
+export const defaultPlanRules: PlanRules = {
+  installmentCounts: [...INSTALLMENT_COUNTS],
+  intervals: [...BILLING_INTERVALS],
+  minInstallmentAmount: 1000,
+  remainderOn: "first",
+  discountOnInstallments: false,
+  // Enough to reach any collection day from the earliest later start
+  maxFirstPaymentDelayDays: 35,
+  depositPercent: 0,
+  depositRequired: false,
+};
+
+export interface PlanOption {
+  installmentCount: number;
+  interval: BillingInterval;
+  // Plain installments unless given
+  paymentType?: Exclude<PaymentType, "full">;
+}
+
+// The plan calculator: what each payment of a plan will be, in pence
+export function getInstallmentAmounts(
+  totalAmount: number,
+  paymentType: PaymentType,
+  installmentCount: number,
+  rules: Pick<PlanRules, "remainderOn" | "depositPercent">,
+): number[] {
+  switch (paymentType) {
+    case "full":
+      return [totalAmount];
+    case "installments":
+      return splitIntoInstallments(totalAmount, installmentCount, rules.remainderOn);
+    case "deposit":
+      return splitWithDeposit(totalAmount, installmentCount, rules.depositPercent, rules.remainderOn);
+  }
+}
+
+export function isPlanAllowed(totalAmount: number, option: PlanOption, rules: PlanRules): boolean {
+  if (!rules.installmentCounts.includes(option.installmentCount)) return false;
+  if (!rules.intervals.includes(option.interval)) return false;
+  if (option.paymentType === "deposit") {
+    // The deposit counts as one of the payments; the rest must meet the minimum
+    if (rules.depositPercent === 0 || option.installmentCount < 2) return false;
+    const [, ...balance] = getInstallmentAmounts(totalAmount, "deposit", option.installmentCount, rules);
+    return Math.min(...balance) >= rules.minInstallmentAmount;
+  }
+  // Plain installment plans aren't offered when a deposit is required, not
+  // even a single payment (paying in full isn't a plan and doesn't come here)
+  if (rules.depositRequired) return false;
+  // A single payment is otherwise always allowed, however small the PCN
+  if (option.installmentCount === 1) return true;
+  return Math.floor(totalAmount / option.installmentCount) >= rules.minInstallmentAmount;
+}
+
+export function getAllowedInstallmentCounts(
+  totalAmount: number,
+  interval: BillingInterval,
+  rules: PlanRules,
+  paymentType: PlanOption["paymentType"] = "installments",
+): number[] {
+  return rules.installmentCounts.filter((installmentCount) =>
+    isPlanAllowed(totalAmount, { installmentCount, interval, paymentType }, rules),
+  );
+}
+
+// Stripe's recurring price settings for each billing interval
+export function toStripeRecurring(interval: BillingInterval): { interval: "week" | "month"; interval_count: number } {
+  switch (interval) {
+    case "week":
+      return { interval: "week", interval_count: 1 };
+    case "fortnight":
+      return { interval: "week", interval_count: 2 };
+    case "month":
+      return { interval: "month", interval_count: 1 };
+  }
+}
+
+// Due dates follow Stripe's billing cycle: monthly charges keep the start day
+// and clamp to the last day of shorter months.
+export function getInstallmentDueDates(startDate: Date, installmentCount: number, interval: BillingInterval): Date[] {
+  return Array.from({ length: installmentCount }, (_, i) => {
+    switch (interval) {
+      case "week":
+        return addWeeks(startDate, i);
+      case "fortnight":
+        return addWeeks(startDate, i * 2);
+      case "month":
+        return addMonths(startDate, i);
+    }
+  });
+}
+
+// Collection days stop at the 28th so every month has one
+export const MAX_COLLECTION_DAY = 28;
+// Stripe Checkout can only hold off the first charge for 48 hours or more, so
+// a later first payment is at least this many calendar days away
+export const MIN_FIRST_PAYMENT_DELAY_DAYS = 3;
+
+// When a plan's payments start, as chosen by the driver
+export interface PlanStartChoice {
+  // "YYYY-MM-DD"; the first payment is taken on (or, with a collection day,
+  // after) this date instead of at checkout
+  firstPaymentDate?: string;
+  // Day of the month monthly payments are taken on
+  collectionDay?: number;
+}
+
+// The date of the first installment: now unless the driver chose otherwise.
+// A YYYY-MM-DD date that exists, so "2026-02-31" doesn't roll over into March
+export function isCalendarDate(value: string): boolean {
+  const date = parseISO(value);
+  return isValid(date) && format(date, "yyyy-MM-dd") === value;
+}
+
+// With a collection day it is the first matching day on or after the chosen
+// date, or after the earliest later start if today isn't that day. Later dates
+// keep the current time of day, like payments started today.
+export function getFirstPaymentDate(now: Date, choice: PlanStartChoice): Date {
+  const { firstPaymentDate, collectionDay } = choice;
+  if (!firstPaymentDate && (!collectionDay || now.getDate() === collectionDay)) {
+    return now;
+  }
+
+  let date = addDays(now, MIN_FIRST_PAYMENT_DELAY_DAYS);
+  if (firstPaymentDate) {
+    const [year, month, day] = firstPaymentDate.split("-").map(Number);
+    date = set(now, { year, month: month - 1, date: day });
+  }
+  if (collectionDay) {
+    while (date.getDate() !== collectionDay) {
+      date = addDays(date, 1);
+    }
+  }
+  return date;
+}
+
+// Why a first payment date can't be used, or null if it can
+export function getFirstPaymentDateError(
+  now: Date,
+  firstPaymentDate: Date,
+  interval: BillingInterval,
+  rules: PlanRules,
+): string | null {
+  const days = differenceInCalendarDays(firstPaymentDate, now);
+  if (days === 0) return null;
+  if (days < 0) {
+    return "The first payment date can't be in the past";
+  }
+  if (days < MIN_FIRST_PAYMENT_DELAY_DAYS) {
+    return `The first payment must be taken today or at least ${MIN_FIRST_PAYMENT_DELAY_DAYS} days from now`;
+  }
+  if (days > rules.maxFirstPaymentDelayDays) {
+    return rules.maxFirstPaymentDelayDays === 0
+      ? "The first payment must be taken today"
+      : `The first payment must be within ${rules.maxFirstPaymentDelayDays} days of today`;
+  }
+  if (interval === "month" && firstPaymentDate.getDate() > MAX_COLLECTION_DAY) {
+    return `Monthly payments can only start on the 1st to the ${MAX_COLLECTION_DAY}th of the month`;
+  }
+  return null;
+}
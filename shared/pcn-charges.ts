@@ -0,0 +1,102 @@
+import { addDays } from "date-fns";
+import { z } from "zod";
+import type { PaymentType, PlanRules } from "./payment-plans";
+
+// An unpaid PCN escalates through the issuer's stages (Notice to Owner, Charge
+// Certificate, ...). Each stage starts a number of days after issue and adds a
+// surcharge to the original penalty.
+export const escalationStageSchema = z.object({
+  stage: z.string().min(1),
+  label: z.string().min(1),
+  startsAfterDays: z.number().int().nonnegative(),
+  surchargePercent: z.number().int().nonnegative(),
+  // Whether drivers may pay by installments at this stage
+  plansAllowed: z.boolean(),
+});
+
+export const escalationRulesSchema = z
+  .array(escalationStageSchema)
+  .min(1)
+  .refine((stages) => stages[0].startsAfterDays === 0, "The first stage must start on the day of issue")
+  .refine(
+    (stages) => stages.every((stage, i) => i === 0 || stage.startsAfterDays > stages[i - 1].startsAfterDays),
+    "Stages must be in order of when they start",
+  );
+
+export type EscalationStage = z.infer<typeof escalationStageSchema>;
+export type EscalationRules = z.infer<typeof escalationRulesSchema>;
+
+export const defaultEscalationRules: EscalationRules = [
+  { stage: "pcn", label: "Penalty Charge Notice", startsAfterDays: 0, surchargePercent: 0, plansAllowed: true },
+  { stage: "notice_to_owner", label: "Notice to Owner", startsAfterDays: 28, surchargePercent: 0, plansAllowed: true },
+  { stage: "charge_certificate", label: "Charge Certificate", startsAfterDays: 56, surchargePercent: 50, plansAllowed: false },
+];
+
+export interface DiscountTerms {
+  amountDue: number;
+  issuedAt: Date | string;
+  discountPercent: number;
+  discountDays: number;
+  // Already collected on plans that didn't settle the PCN
+  amountPaid?: number;
+}
+
+export interface PcnCharges {
+  stage: string;
+  stageLabel: string;
+  plansAllowed: boolean;
+  // The penalty plus the current stage's surcharge, less anything already paid
+  fullAmount: number;
+  // Both null once the discount window has closed (or if there is none)
+  discountedAmount: number | null;
+  discountEndsAt: Date | null;
+  // Both null at the final stage
+  nextEscalationAt: Date | null;
+  nextAmount: number | null;
+}
+
+// Surcharges and discounts round odd pence in the driver's favour
+function withSurcharge(amount: number, surchargePercent: number): number {
+  return Math.floor((amount * (100 + surchargePercent)) / 100);
+}
+
+// What a PCN costs right now. The early-payment discount runs for
+// discountDays from the moment of issue and only within the first stage.
+export function getPcnCharges(pcn: DiscountTerms, rules: EscalationRules, now: Date = new Date()): PcnCharges {
+  const issuedAt = new Date(pcn.issuedAt);
+  const owing = (amount: number) => Math.max(0, amount - (pcn.amountPaid ?? 0));
+  const stageStart = (stage: EscalationStage) => addDays(issuedAt, stage.startsAfterDays);
+
+  let current = 0;
+  while (current + 1 < rules.length && now >= stageStart(rules[current + 1])) {
+    current++;
+  }
+  const stage = rules[current];
+  const next = rules[current + 1];
+
+  const discountEndsAt = addDays(issuedAt, pcn.discountDays);
+  const discounted = current === 0 && pcn.discountPercent > 0 && now < discountEndsAt;
+
+  return {
+    stage: stage.stage,
+    stageLabel: stage.label,
+    plansAllowed: stage.plansAllowed,
+    fullAmount: owing(withSurcharge(pcn.amountDue, stage.surchargePercent)),
+    discountedAmount: discounted ? owing(Math.floor((pcn.amountDue * (100 - pcn.discountPercent)) / 100)) : null,
+    discountEndsAt: discounted ? discountEndsAt : null,
+    nextEscalationAt: next ? stageStart(next) : null,
+    nextAmount: next ? owing(withSurcharge(pcn.amountDue, next.surchargePercent)) : null,
+  };
+}
+
+// The amount a checkout of the given type charges. The discount only applies
+// to installment and deposit plans when the operator allows it.
+export function getAmountToCharge(
+  charges: Pick<PcnCharges, "fullAmount" | "discountedAmount">,
+  paymentType: PaymentType,
+  rules: Pick<PlanRules, "discountOnInstallments">,
+): number {
+  if (charges.discountedAmount === null) return charges.fullAmount;
+  if (paymentType !== "full" && !rules.discountOnInstallments) return charges.fullAmount;
+  return charges.discountedAmount;
+}
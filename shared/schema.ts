@@ -1,13 +1,13 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, decimal, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, decimal, timestamp, integer, jsonb, boolean } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { BILLING_INTERVALS, MAX_COLLECTION_DAY, PAYMENT_METHODS, PAYMENT_TYPES, isCalendarDate } from "./payment-plans";
+import type { PcnCharges } from "./pcn-charges";
 
 export const customers = pgTable("customers", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   email: text("email").notNull().unique(),
-  pcnNumber: text("pcn_number").notNull(),
-  vehicleRegistration: text("vehicle_registration").notNull(),
   stripeCustomerId: text("stripe_customer_id"),
   stripeSubscriptionId: text("stripe_subscription_id"),
   createdAt: timestamp("created_at").default(sql`now()`).notNull(),
@@ -15,9 +15,478 @@ export const customers = pgTable("customers", {
 
 export const insertCustomerSchema = createInsertSchema(customers).pick({
   email: true,
-  pcnNumber: true,
-  vehicleRegistration: true,
 });
 
 export type InsertCustomer = z.infer<typeof insertCustomerSchema>;
 export type Customer = typeof customers.$inferSelect;
+
+// Registrations are compared without spaces or lower-case letters
+export function normalizeVrm(vrm: string): string {
+  return vrm.toUpperCase().replace(/[^A-Z0-9]/g, "");
+}
+
+// Registry of issued penalty charge notices and the amount owed on each (in
+// pence). Entered by operators; linked to a customer once a driver pays. One
+// customer (email) can hold many PCNs, each with its own payment plan.
+export const pcns = pgTable("pcns", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  customerId: varchar("customer_id").references(() => customers.id),
+  pcnNumber: text("pcn_number").notNull().unique(),
+  vehicleRegistration: text("vehicle_registration").notNull(),
+  amountDue: integer("amount_due").notNull(),
+  // Statutory early-payment discount: discountPercent off when paid within
+  // discountDays of issue
+  issuedAt: timestamp("issued_at").default(sql`now()`).notNull(),
+  discountPercent: integer("discount_percent").default(50).notNull(),
+  discountDays: integer("discount_days").default(14).notNull(),
+  // Collected on plans that ended without settling the PCN (e.g. defaulted
+  // ones); deducted from whatever is still owed
+  amountPaid: integer("amount_paid").default(0).notNull(),
+  status: text("status").default("unpaid").notNull(),
+  createdAt: timestamp("created_at").default(sql`now()`).notNull(),
+});
+
+export const insertPcnSchema = createInsertSchema(pcns, {
+  pcnNumber: (schema) => schema.trim().min(1),
+  vehicleRegistration: (schema) => schema.trim().min(1).transform(normalizeVrm),
+  amountDue: (schema) => schema.int().positive(),
+  issuedAt: z.coerce.date().optional(),
+  discountPercent: (schema) => schema.int().min(0).max(100),
+  discountDays: (schema) => schema.int().nonnegative(),
+}).pick({
+  pcnNumber: true,
+  vehicleRegistration: true,
+  amountDue: true,
+  issuedAt: true,
+  discountPercent: true,
+  discountDays: true,
+});
+
+export type PcnStatus = "unpaid" | "settled" | "cancelled";
+export type InsertPcn = z.infer<typeof insertPcnSchema>;
+export type Pcn = typeof pcns.$inferSelect;
+export type PcnUpdate = Partial<Pick<Pcn, "customerId" | "amountDue" | "discountPercent" | "amountPaid" | "status">>;
+// amountDue is what is owed at the PCN's current escalation stage, before any
+// early-payment discount and after deducting amountPaid
+export type PcnSummary = Pick<Pcn, "pcnNumber" | "vehicleRegistration" | "amountDue" | "amountPaid" | "status" | "issuedAt"> &
+  Omit<PcnCharges, "fullAmount">;
+
+// Local ledger of how a PCN is being paid. All amounts are in pence. A full
+// payment is recorded as a plan of type "full" with a single installment; a
+// "deposit" plan's first installment is its deposit.
+export const paymentPlans = pgTable("payment_plans", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  pcnId: varchar("pcn_id").notNull().references(() => pcns.id),
+  type: text("type").default("installments").notNull(),
+  paymentMethod: text("payment_method").default("card").notNull(),
+  totalAmount: integer("total_amount").notNull(),
+  installmentCount: integer("installment_count").notNull(),
+  interval: text("interval").notNull(),
+  stripeScheduleId: text("stripe_schedule_id"),
+  stripeSubscriptionId: text("stripe_subscription_id"),
+  status: text("status").default("pending").notNull(),
+  // Set when the driver paid off the rest of the plan in one go
+  settledEarlyAt: timestamp("settled_early_at"),
+  // When the driver agreed to the terms and authorised the payments, as
+  // evidence for disputes
+  termsAcceptedAt: timestamp("terms_accepted_at"),
+  // Set while a dispute on one of the plan's payments is open
+  disputedAt: timestamp("disputed_at"),
+  createdAt: timestamp("created_at").default(sql`now()`).notNull(),
+});
+
+export const insertPaymentPlanSchema = createInsertSchema(paymentPlans).pick({
+  pcnId: true,
+  type: true,
+  paymentMethod: true,
+  termsAcceptedAt: true,
+  totalAmount: true,
+  installmentCount: true,
+  interval: true,
+});
+
+export const installments = pgTable("installments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  planId: varchar("plan_id").notNull().references(() => paymentPlans.id),
+  sequence: integer("sequence").notNull(),
+  dueDate: timestamp("due_date").notNull(),
+  amount: integer("amount").notNull(),
+  status: text("status").default("scheduled").notNull(),
+  stripeInvoiceId: text("stripe_invoice_id"),
+  paidAt: timestamp("paid_at"),
+  // Dunning: failed collection attempts so far and when the next retry is due
+  failureCount: integer("failure_count").default(0).notNull(),
+  nextRetryAt: timestamp("next_retry_at"),
+  createdAt: timestamp("created_at").default(sql`now()`).notNull(),
+});
+
+export const insertInstallmentSchema = createInsertSchema(installments).pick({
+  planId: true,
+  sequence: true,
+  dueDate: true,
+  amount: true,
+});
+
+// "defaulted" plans were cancelled after too many failed payments
+export type PlanStatus = "pending" | "active" | "past_due" | "completed" | "cancelled" | "defaulted";
+// "processing" installments have been submitted for collection but not yet
+// cleared, as with Bacs Direct Debit; "charged_back" ones were paid, then
+// taken back by the driver's bank after a lost dispute
+export type InstallmentStatus = "scheduled" | "processing" | "paid" | "failed" | "cancelled" | "charged_back";
+export type InsertPaymentPlan = z.infer<typeof insertPaymentPlanSchema>;
+export type PaymentPlan = typeof paymentPlans.$inferSelect;
+export type PaymentPlanUpdate = Partial<
+  Pick<PaymentPlan, "stripeScheduleId" | "stripeSubscriptionId" | "status" | "settledEarlyAt" | "disputedAt">
+>;
+export type InsertInstallment = z.infer<typeof insertInstallmentSchema>;
+export type Installment = typeof installments.$inferSelect;
+export type InstallmentUpdate = Partial<
+  Pick<Installment, "dueDate" | "status" | "stripeInvoiceId" | "paidAt" | "failureCount" | "nextRetryAt">
+>;
+
+// One row per "Pay" attempt, keyed by an idempotency key generated in the
+// browser, so double clicks and retries reuse the same checkout.
+export const checkoutAttempts = pgTable("checkout_attempts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  idempotencyKey: text("idempotency_key").notNull().unique(),
+  pcnId: varchar("pcn_id").notNull().references(() => pcns.id),
+  planId: varchar("plan_id").references(() => paymentPlans.id),
+  checkoutId: text("checkout_id"),
+  checkoutUrl: text("checkout_url"),
+  // Set instead of checkoutUrl for checkouts embedded in the portal
+  checkoutClientSecret: text("checkout_client_secret"),
+  status: text("status").default("in_progress").notNull(),
+  createdAt: timestamp("created_at").default(sql`now()`).notNull(),
+});
+
+export const insertCheckoutAttemptSchema = createInsertSchema(checkoutAttempts).pick({
+  idempotencyKey: true,
+  pcnId: true,
+});
+
+export type CheckoutAttemptStatus = "in_progress" | "open" | "completed" | "failed" | "abandoned";
+export type InsertCheckoutAttempt = z.infer<typeof insertCheckoutAttemptSchema>;
+export type CheckoutAttempt = typeof checkoutAttempts.$inferSelect;
+export type CheckoutAttemptUpdate = Partial<Pick<CheckoutAttempt, "planId" | "checkoutId" | "checkoutUrl" | "checkoutClientSecret" | "status">
+>;
+
+// Every payment gateway event we receive, keyed by the gateway's event id so that
+// replayed deliveries can be recognised and skipped.
+export const paymentEvents = pgTable("payment_events", {
+  id: text("id").primaryKey(),
+  type: text("type").notNull(),
+  payload: jsonb("payload").notNull(),
+  processedAt: timestamp("processed_at"),
+  createdAt: timestamp("created_at").default(sql`now()`).notNull(),
+});
+
+export const insertPaymentEventSchema = createInsertSchema(paymentEvents).pick({
+  id: true,
+  type: true,
+  payload: true,
+});
+
+export type InsertPaymentEvent = z.infer<typeof insertPaymentEventSchema>;
+export type PaymentEvent = typeof paymentEvents.$inferSelect;
+
+// Messages sent to drivers about their plans, kept as an outbox so each one
+// can be audited next to the installment ledger. sentAt stays null when
+// delivery failed.
+export const notifications = pgTable("notifications", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  planId: varchar("plan_id").notNull().references(() => paymentPlans.id),
+  installmentId: varchar("installment_id").references(() => installments.id),
+  type: text("type").notNull(),
+  recipient: text("recipient").notNull(),
+  subject: text("subject").notNull(),
+  body: text("body").notNull(),
+  sentAt: timestamp("sent_at"),
+  createdAt: timestamp("created_at").default(sql`now()`).notNull(),
+});
+
+export const insertNotificationSchema = createInsertSchema(notifications).pick({
+  planId: true,
+  installmentId: true,
+  type: true,
+  recipient: true,
+  subject: true,
+  body: true,
+});
+
+export type NotificationType = "installment_failed" | "plan_defaulted" | "refund_issued" | "plan_rescheduled";
+export type InsertNotification = z.infer<typeof insertNotificationSchema>;
+export type Notification = typeof notifications.$inferSelect;
+
+// Money handed back to drivers and why, against the gateway payment it came
+// from. status is the gateway's refund status, or "failed" when the gateway
+// refused it and it needs following up by hand.
+export const refunds = pgTable("refunds", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  planId: varchar("plan_id").notNull().references(() => paymentPlans.id),
+  // Unset for refunds of money that never went towards an installment
+  installmentId: varchar("installment_id").references(() => installments.id),
+  // Set for refunds an operator asked for
+  refundRequestId: varchar("refund_request_id").references(() => refundRequests.id),
+  stripeInvoiceId: text("stripe_invoice_id").notNull(),
+  stripeRefundId: text("stripe_refund_id"),
+  amount: integer("amount").notNull(),
+  reason: text("reason").notNull(),
+  status: text("status").notNull(),
+  createdAt: timestamp("created_at").default(sql`now()`).notNull(),
+});
+
+export const insertRefundSchema = createInsertSchema(refunds).pick({
+  planId: true,
+  installmentId: true,
+  refundRequestId: true,
+  stripeInvoiceId: true,
+  stripeRefundId: true,
+  amount: true,
+  reason: true,
+  status: true,
+});
+
+// A driver's bank disputing one of the plan's payments (a chargeback). status
+// is "needs_response" until evidence is submitted, "under_review" while the
+// bank decides, then "won" or "lost".
+export const disputes = pgTable("disputes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  planId: varchar("plan_id").notNull().references(() => paymentPlans.id),
+  pcnId: varchar("pcn_id").notNull().references(() => pcns.id),
+  stripeDisputeId: text("stripe_dispute_id").notNull().unique(),
+  stripeInvoiceId: text("stripe_invoice_id").notNull(),
+  amount: integer("amount").notNull(),
+  reason: text("reason").notNull(),
+  status: text("status").notNull(),
+  evidenceDueBy: timestamp("evidence_due_by"),
+  evidenceSubmittedAt: timestamp("evidence_submitted_at"),
+  evidenceSubmittedBy: text("evidence_submitted_by"),
+  closedAt: timestamp("closed_at"),
+  createdAt: timestamp("created_at").default(sql`now()`).notNull(),
+});
+
+export const insertDisputeSchema = createInsertSchema(disputes).pick({
+  planId: true,
+  pcnId: true,
+  stripeDisputeId: true,
+  stripeInvoiceId: true,
+  amount: true,
+  reason: true,
+  status: true,
+  evidenceDueBy: true,
+});
+
+export type DisputeStatus = "needs_response" | "under_review" | "won" | "lost";
+export type InsertDispute = z.infer<typeof insertDisputeSchema>;
+export type Dispute = typeof disputes.$inferSelect;
+export type DisputeUpdate = Partial<
+  Pick<Dispute, "status" | "evidenceDueBy" | "evidenceSubmittedAt" | "evidenceSubmittedBy" | "closedAt">
+>;
+
+// Work waiting for an operator, e.g. responding to a dispute before its
+// evidence deadline
+export const adminTasks = pgTable("admin_tasks", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  type: text("type").notNull(),
+  planId: varchar("plan_id").references(() => paymentPlans.id),
+  disputeId: varchar("dispute_id").references(() => disputes.id),
+  summary: text("summary").notNull(),
+  dueAt: timestamp("due_at"),
+  status: text("status").default("open").notNull(),
+  // The operator who finished it; null when it was closed automatically
+  completedBy: text("completed_by"),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").default(sql`now()`).notNull(),
+});
+
+export const insertAdminTaskSchema = createInsertSchema(adminTasks).pick({
+  type: true,
+  planId: true,
+  disputeId: true,
+  summary: true,
+  dueAt: true,
+});
+
+export type AdminTaskType = "dispute_response";
+export type AdminTaskStatus = "open" | "done";
+export type InsertAdminTask = z.infer<typeof insertAdminTaskSchema>;
+export type AdminTask = typeof adminTasks.$inferSelect;
+export type AdminTaskUpdate = Partial<Pick<AdminTask, "status" | "completedBy" | "completedAt">>;
+
+// Reasons an operator can give for a refund. "appeal_upheld" also cancels the PCN.
+export const ADMIN_REFUND_REASONS = ["appeal_upheld", "paid_in_error", "goodwill"] as const;
+// "settlement_surplus": an early settlement paid for installments that were
+// collected some other way before it arrived. "superseded_checkout": a
+// checkout was paid after a newer attempt had cancelled its plan.
+export type RefundReason = "settlement_surplus" | "superseded_checkout" | (typeof ADMIN_REFUND_REASONS)[number];
+export type InsertRefund = z.infer<typeof insertRefundSchema>;
+export type Refund = typeof refunds.$inferSelect;
+
+export interface RefundItem {
+  installmentId: string;
+  amount: number;
+}
+
+// An operator's request to refund installments on a plan, and optionally stop
+// it. Requests above the approval threshold wait for a second operator.
+export const refundRequests = pgTable("refund_requests", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  planId: varchar("plan_id").notNull().references(() => paymentPlans.id),
+  reason: text("reason").notNull(),
+  note: text("note"),
+  items: jsonb("items").$type<RefundItem[]>().notNull(),
+  cancelRemaining: boolean("cancel_remaining").default(false).notNull(),
+  totalAmount: integer("total_amount").notNull(),
+  status: text("status").default("pending_approval").notNull(),
+  requestedBy: text("requested_by").notNull(),
+  // Whoever approved (or rejected) it; the requester when no approval was needed
+  decidedBy: text("decided_by"),
+  decidedAt: timestamp("decided_at"),
+  createdAt: timestamp("created_at").default(sql`now()`).notNull(),
+});
+
+export type RefundRequestStatus = "pending_approval" | "completed" | "rejected";
+export type InsertRefundRequest = Pick<
+  typeof refundRequests.$inferInsert,
+  "planId" | "reason" | "note" | "items" | "cancelRemaining" | "totalAmount" | "requestedBy"
+>;
+export type RefundRequest = typeof refundRequests.$inferSelect;
+export type RefundRequestUpdate = Partial<Pick<RefundRequest, "status" | "decidedBy" | "decidedAt">>;
+
+// Body of POST /api/admin/plans/:planId/refunds. Installments are picked by
+// sequence; an amount (pence) makes the refund partial.
+export const adminRefundRequestSchema = z
+  .object({
+    reason: z.enum(ADMIN_REFUND_REASONS),
+    note: z.string().trim().max(500).optional(),
+    installments: z
+      .array(z.object({ sequence: z.number().int().positive(), amount: z.number().int().positive().optional() }))
+      .default([]),
+    cancelRemaining: z.boolean().default(true),
+  })
+  .refine((request) => request.installments.length > 0 || request.cancelRemaining, {
+    message: "Choose installments to refund or cancel the remaining schedule",
+  })
+  // An upheld appeal cancels the PCN, so nothing more may be collected for it
+  .refine((request) => request.reason !== "appeal_upheld" || request.cancelRemaining, {
+    message: "An upheld appeal cancels the PCN, so the remaining schedule must be cancelled too",
+    path: ["cancelRemaining"],
+  });
+
+export type AdminRefundRequest = z.infer<typeof adminRefundRequestSchema>;
+
+// Ways a driver can move their remaining payments: push one payment back a
+// few days, skip a payment (it and every later one move back a billing
+// period), or move every payment to a new day of the month
+export const RESCHEDULE_TYPES = ["shift", "skip", "collection_day"] as const;
+
+export type RescheduleType = (typeof RESCHEDULE_TYPES)[number];
+
+// Dates are ISO strings
+export interface RescheduledInstallment {
+  sequence: number;
+  from: string;
+  to: string;
+}
+
+// One change to a plan's payment dates, kept as part of the ledger
+export const planReschedules = pgTable("plan_reschedules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  planId: varchar("plan_id").notNull().references(() => paymentPlans.id),
+  type: text("type").notNull(),
+  changes: jsonb("changes").$type<RescheduledInstallment[]>().notNull(),
+  // "driver", or the operator who made the change for them
+  requestedBy: text("requested_by").notNull(),
+  createdAt: timestamp("created_at").default(sql`now()`).notNull(),
+});
+
+export type InsertPlanReschedule = Pick<typeof planReschedules.$inferInsert, "planId" | "type" | "changes" | "requestedBy">;
+export type PlanReschedule = typeof planReschedules.$inferSelect;
+
+// Body of POST /api/plans/:planId/reschedule
+export const rescheduleRequestSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("shift"), sequence: z.number().int().positive(), days: z.number().int().positive() }),
+  z.object({ type: z.literal("skip"), sequence: z.number().int().positive() }),
+  z.object({ type: z.literal("collection_day"), day: z.number().int().min(1).max(MAX_COLLECTION_DAY) }),
+]);
+
+export type RescheduleRequest = z.infer<typeof rescheduleRequestSchema>;
+
+export const checkoutRequestSchema = z.object({
+  email: z.string().email(),
+  pcnNumber: z.string().trim().min(1),
+  vehicleRegistration: z.string().trim().min(1).transform(normalizeVrm),
+  installmentCount: z.coerce.number().int().positive().default(3),
+  interval: z.enum(BILLING_INTERVALS).default("month"),
+  paymentType: z.enum(PAYMENT_TYPES).default("installments"),
+  paymentMethod: z.enum(PAYMENT_METHODS).default("card"),
+  // Optional: when installments start and, for monthly plans, which day of
+  // the month they are taken on. Without them the first payment is today.
+  firstPaymentDate: z.string().refine(isCalendarDate, "The first payment date must be a date").optional(),
+  collectionDay: z.coerce.number().int().min(1).max(MAX_COLLECTION_DAY).optional(),
+  // The total the driver was shown, in pence; checkout is refused if it no
+  // longer matches, e.g. because the discount window closed in the meantime
+  expectedAmount: z.coerce.number().int().positive(),
+  idempotencyKey: z.string().min(16).max(200),
+  acceptedTerms: z.literal(true, { errorMap: () => ({ message: "The terms and conditions must be accepted" }) }),
+});
+
+export type CheckoutRequest = z.infer<typeof checkoutRequestSchema>;
+
+// What the success page shows about a completed checkout. Amounts in pence;
+// dates are ISO strings from the payment gateway.
+export interface CheckoutSessionSummary {
+  sessionId: string;
+  planId: string;
+  // Lets the driver come back to their plan later, e.g. /plans/:planId?token=...
+  planAccessToken: string;
+  paymentType: PaymentPlan["type"];
+  paymentMethod: PaymentPlan["paymentMethod"];
+  pcnNumber: string;
+  vehicleRegistration: string;
+  email: string | null;
+  totalAmount: number;
+  amountPaid: number;
+  installmentCount: number;
+  interval: string;
+  // False while the gateway is still setting up the installment schedule
+  scheduleReady: boolean;
+  // Processing charges have been submitted but not yet cleared; their date is
+  // when they were submitted
+  charges: { date: string; amount: number; status: "paid" | "processing" | "scheduled" }[];
+}
+
+// The driver's view of a plan, from the local ledger. Amounts in pence.
+export interface PlanStatusView {
+  planId: string;
+  pcnNumber: string;
+  vehicleRegistration: string;
+  paymentType: PaymentPlan["type"];
+  paymentMethod: PaymentPlan["paymentMethod"];
+  status: PaymentPlan["status"];
+  interval: string;
+  totalAmount: number;
+  amountPaid: number;
+  // Submitted for collection but not yet cleared
+  amountProcessing: number;
+  // Still to be collected or clearing, less refunds against those payments;
+  // 0 once the plan has closed
+  balanceOutstanding: number;
+  // Paid and since refunded to the driver
+  amountRefunded: number;
+  // What "settle now" would charge: every installment not yet paid or
+  // clearing. Null when the plan can't be settled early right now.
+  settlementAmount: number | null;
+  settledEarlyAt: Date | null;
+  // What the driver may still change about their payment dates; null when
+  // the plan can't be rescheduled
+  reschedule: {
+    changesLeft: number;
+    maxShiftDays: number;
+    // The last payment can't move past this
+    latestFinalDate: Date;
+  } | null;
+  // Null once nothing more will be collected
+  nextChargeDate: Date | null;
+  installments: Pick<Installment, "sequence" | "dueDate" | "amount" | "status" | "paidAt" | "failureCount" | "nextRetryAt">[];
+}